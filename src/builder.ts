@@ -0,0 +1,255 @@
+import {
+  XmlCDataNode,
+  XmlCommentNode,
+  XmlElement,
+  XmlProcessingInstructionNode,
+  XmlTextNode,
+} from "./index.js";
+import type { XmlDocument, XmlStringOptions } from "./index.js";
+
+/**
+ * A value the builder accepts for text and attributes. Numbers and booleans
+ * are converted with String().
+ */
+export type XmlBuilderValue = string | number | boolean;
+
+// https://www.w3.org/TR/xml/#NT-Name
+const nameStartChar =
+  ":A-Z_a-z\\u00C0-\\u00D6\\u00D8-\\u00F6\\u00F8-\\u02FF\\u0370-\\u037D" +
+  "\\u037F-\\u1FFF\\u200C-\\u200D\\u2070-\\u218F\\u2C00-\\u2FEF" +
+  "\\u3001-\\uD7FF\\uF900-\\uFDCF\\uFDF0-\\uFFFD\\u{10000}-\\u{EFFFF}";
+const nameChar = nameStartChar + "\\-.0-9\\u00B7\\u0300-\\u036F\\u203F-\\u2040";
+const namePattern = new RegExp(`^[${nameStartChar}][${nameChar}]*$`, "u");
+
+/**
+ * A fluent cursor for building XML trees from scratch. Every call adds real
+ * nodes to `element`, so the result can be queried, mutated and serialized
+ * like a parsed document. Text and attribute values are escaped when the
+ * tree is serialized.
+ *
+ * `ele()` moves the cursor into the new element and `up()` moves it back out,
+ * so the type of the builder tracks how deep you are: calling `up()` on the
+ * root builder is a type error.
+ *
+ * @example
+ * ```ts
+ * const xml = XmlDocument.create("report", { year: 2024 })
+ *   .ele("entry", { id: "1" })
+ *   .txt("Revenue & costs")
+ *   .up()
+ *   .com("more to come")
+ *   .end();
+ * ```
+ */
+export class XmlBuilder<Parent = never> {
+  /**
+   * Creates a builder that adds nodes to an existing element
+   * @param element The element to build into
+   * @param parent The builder to return to from up(), if any
+   */
+  constructor(
+    readonly element: XmlElement,
+    private readonly parent?: Parent,
+  ) {}
+
+  /**
+   * Appends a child element and moves into it
+   * @param name The element name
+   * @param attributes Optional attributes for the element
+   * @returns A builder for the new element
+   * @throws {Error} If the name or an attribute name is not a valid XML name
+   */
+  ele(
+    name: string,
+    attributes?: Record<string, XmlBuilderValue>,
+  ): XmlBuilder<this> {
+    const child = new XmlElement(
+      { name: validName(name), attributes: {} },
+      null,
+    );
+    this.element.appendChild(child);
+
+    const builder = new XmlBuilder(child, this);
+    if (attributes) builder.att(attributes);
+    return builder;
+  }
+
+  /**
+   * Sets one or more attributes on the current element
+   * @param name The attribute name, or an object of attributes to set
+   * @param value The attribute value, when setting a single attribute
+   * @returns This builder
+   * @throws {Error} If an attribute name is not a valid XML name
+   */
+  att(name: string, value: XmlBuilderValue): this;
+  att(attributes: Record<string, XmlBuilderValue>): this;
+  att(
+    name: string | Record<string, XmlBuilderValue>,
+    value?: XmlBuilderValue,
+  ): this {
+    if (typeof name === "string") {
+      this.element.setAttribute(validName(name), String(value));
+    } else {
+      for (const key of Object.keys(name)) {
+        this.element.setAttribute(validName(key), String(name[key]));
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Appends a text node to the current element
+   * @param text The text content (escaped on output)
+   * @returns This builder
+   */
+  txt(text: XmlBuilderValue): this {
+    this.element.appendChild(new XmlTextNode(String(text)));
+    return this;
+  }
+
+  /**
+   * Appends a CDATA section to the current element
+   * @param cdata The CDATA content
+   * @returns This builder
+   * @throws {Error} If the content contains "]]>"
+   */
+  dat(cdata: XmlBuilderValue): this {
+    this.element.appendChild(new XmlCDataNode(validCData(String(cdata))));
+    return this;
+  }
+
+  /**
+   * Appends a comment to the current element
+   * @param comment The comment content
+   * @returns This builder
+   * @throws {Error} If the content contains "--" or ends with "-"
+   */
+  com(comment: XmlBuilderValue): this {
+    this.element.appendChild(new XmlCommentNode(validComment(String(comment))));
+    return this;
+  }
+
+  /**
+   * Appends a processing instruction to the current element
+   * @param target The instruction's target, like "xml-stylesheet"
+   * @param data The rest of the instruction
+   * @returns This builder
+   * @throws {Error} If the target is invalid or the data contains "?>"
+   */
+  ins(target: string, data: XmlBuilderValue = ""): this {
+    const content = validInstruction(target, String(data));
+    this.element.appendChild(new XmlProcessingInstructionNode(target, content));
+    return this;
+  }
+
+  /**
+   * Moves back out to the parent element
+   * @returns The builder for the parent element
+   * @throws {Error} If this builder has no parent builder
+   */
+  up(): Parent {
+    if (this.parent === undefined) {
+      throw new Error("The builder is already at its top element");
+    }
+    return this.parent;
+  }
+
+  /**
+   * Gets the document being built
+   * @returns The document at the top of the tree
+   * @throws {Error} If the tree isn't part of a document
+   */
+  doc(): XmlDocument {
+    const document = this.element.ownerDocument;
+    if (!document) {
+      throw new Error("The builder's element is not part of a document");
+    }
+    return document;
+  }
+
+  /**
+   * Serializes the whole tree, from its top element down
+   * @param options Formatting options
+   * @returns The XML string
+   */
+  end(options?: XmlStringOptions): string {
+    let top = this.element;
+    while (top.parent) top = top.parent;
+    return top.toString(options);
+  }
+}
+
+/**
+ * Checks that a string is a valid XML name
+ * @param name The name to check
+ * @returns The name
+ * @throws {Error} If the name is not valid
+ */
+export function validName(name: string): string {
+  if (!namePattern.test(name)) {
+    throw new Error(`Invalid XML name: "${name}"`);
+  }
+  return name;
+}
+
+/**
+ * Checks that a string can be written as CDATA content
+ * @param content The content to check
+ * @returns The content
+ * @throws {Error} If the content contains "]]>"
+ */
+export function validCData(content: string): string {
+  if (content.includes("]]>")) {
+    throw new Error('CDATA content cannot contain "]]>"');
+  }
+  return content;
+}
+
+/**
+ * Checks that a string can be written as comment content
+ * @param content The content to check
+ * @returns The content
+ * @throws {Error} If the content contains "--" or ends with "-"
+ */
+export function validComment(content: string): string {
+  if (content.includes("--") || content.endsWith("-")) {
+    throw new Error('Comment content cannot contain "--" or end with "-"');
+  }
+  return content;
+}
+
+/**
+ * Checks that a processing instruction can be written
+ * @param target The instruction's target
+ * @param data The rest of the instruction
+ * @returns The data
+ * @throws {Error} If the target is invalid or the data contains "?>"
+ */
+export function validInstruction(target: string, data: string): string {
+  if (target.toLowerCase() === "xml") {
+    throw new Error('A processing instruction target cannot be "xml"');
+  }
+  if (data.includes("?>")) {
+    throw new Error('Processing instruction data cannot contain "?>"');
+  }
+  validName(target);
+  return data;
+}
+
+/**
+ * Names the root element of an empty document and starts building it
+ * @param document The empty document
+ * @param name The root element name
+ * @param attributes Optional attributes for the root element
+ * @returns A builder for the root element
+ */
+export function startDocument(
+  document: XmlDocument,
+  name: string,
+  attributes?: Record<string, XmlBuilderValue>,
+): XmlBuilder {
+  document.name = validName(name);
+  const builder = new XmlBuilder(document);
+  if (attributes) builder.att(attributes);
+  return builder;
+}
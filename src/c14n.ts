@@ -0,0 +1,313 @@
+import { XmlDocument } from "./index.js";
+import type {
+  XmlCDataNode,
+  XmlCommentNode,
+  XmlElement,
+  XmlNodeBase,
+  XmlProcessingInstructionNode,
+  XmlTextNode,
+} from "./index.js";
+
+/**
+ * Options for canonical serialization
+ */
+export interface XmlCanonicalOptions {
+  /**
+   * The algorithm to use: "c14n" for Canonical XML 1.0 (the default) or
+   * "exc-c14n" for Exclusive XML Canonicalization 1.0
+   */
+  algorithm?: "c14n" | "exc-c14n";
+  /** Keep comments, as the "with comments" variants do (defaults to false) */
+  comments?: boolean;
+  /**
+   * For Exclusive XML Canonicalization, the prefixes to handle as Canonical
+   * XML 1.0 does (the InclusiveNamespaces PrefixList). Use "#default" for
+   * the default namespace.
+   */
+  inclusiveNamespaces?: string[];
+}
+
+const XML_NAMESPACE = "http://www.w3.org/XML/1998/namespace";
+
+// The namespace URI bound to each prefix, with "" for the default namespace
+type Scope = Record<string, string>;
+
+// A parsed value, and the value the XML spec's normalization gives it
+interface Normalized {
+  parsed: string;
+  value: string;
+}
+
+// The normalized text of parsed text and CDATA nodes, and the normalized
+// values of parsed attributes, for those normalization changes. sax doesn't
+// normalize, and telling literal whitespace from character references
+// takes the source. Each value is used while the node still has the value
+// it was parsed with.
+const texts = new WeakMap<XmlNodeBase, Normalized>();
+const attributes = new WeakMap<XmlElement, Record<string, Normalized>>();
+
+interface Context {
+  exclusive: boolean;
+  comments: boolean;
+  inclusive: Set<string>;
+}
+
+/**
+ * Writes an element and its descendants in canonical form. For a document,
+ * the processing instructions and comments around the root element are
+ * written too.
+ * @param element The element to write
+ * @param options The algorithm and whether to keep comments
+ * @returns The canonical form
+ * @throws {Error} If an element or attribute uses an undeclared prefix
+ */
+export function canonicalize(
+  element: XmlElement,
+  options: XmlCanonicalOptions = {},
+): string {
+  const context: Context = {
+    exclusive: options.algorithm === "exc-c14n",
+    comments: !!options.comments,
+    inclusive: new Set(
+      (options.inclusiveNamespaces ?? []).map((prefix) =>
+        prefix === "#default" ? "" : prefix,
+      ),
+    ),
+  };
+
+  // The namespaces and xml:* attributes an element outside the subset has
+  // in scope still apply to it
+  const ancestors = element.ancestors().reverse();
+  const scope: Scope = { "": "" };
+  const inherited: Record<string, string> = {};
+  for (const ancestor of ancestors) {
+    Object.assign(scope, declarations(ancestor));
+    for (const name of Object.keys(ancestor.attr)) {
+      if (name.startsWith("xml:")) {
+        inherited[name] = attributeValue(ancestor, name);
+      }
+    }
+  }
+
+  // Canonical XML 1.0 copies inherited xml:* attributes onto the apex
+  const extra = context.exclusive ? {} : inherited;
+  const root = writeElement(element, scope, { "": "" }, extra, context);
+  if (!(element instanceof XmlDocument)) return root;
+
+  // Nodes outside the root element go on lines of their own
+  // (whitespace kept there by preserveFormatting isn't part of the output)
+  const write = (node: XmlNodeBase) =>
+    node.type === "text" ? "" : writeNode(node, {}, {}, context);
+  const before = element.prolog.map(write).filter(Boolean);
+  const after = element.epilog.map(write).filter(Boolean);
+  return [
+    ...before.map((s) => `${s}\n`),
+    root,
+    ...after.map((s) => `\n${s}`),
+  ].join("");
+}
+
+/**
+ * Records the normalized text of a text or CDATA node as it's parsed
+ * @param node The node
+ * @param parsed The text it was parsed with
+ * @param value The normalized text
+ */
+export function setNormalizedText(
+  node: XmlNodeBase,
+  parsed: string,
+  value: string,
+): void {
+  texts.set(node, { parsed, value });
+}
+
+/**
+ * Records the normalized attribute values of an element as it's parsed
+ * @param element The element
+ * @param values The normalized values of the attributes that changed
+ */
+export function setNormalizedAttributes(
+  element: XmlElement,
+  values: Record<string, string>,
+): void {
+  const normalized: Record<string, Normalized> = {};
+  for (const name of Object.keys(values)) {
+    normalized[name] = { parsed: element.attr[name], value: values[name] };
+  }
+  attributes.set(element, normalized);
+}
+
+function writeNode(
+  node: XmlNodeBase,
+  scope: Scope,
+  rendered: Scope,
+  context: Context,
+): string {
+  switch (node.type) {
+    case "element":
+      return writeElement(node as XmlElement, scope, rendered, {}, context);
+    case "text":
+      return escapeText(textValue(node, (node as XmlTextNode).text));
+    case "cdata":
+      return escapeText(textValue(node, (node as XmlCDataNode).cdata));
+    case "comment":
+      return context.comments
+        ? `<!--${(node as XmlCommentNode).comment}-->`
+        : "";
+    case "processinginstruction": {
+      const { target, data } = node as XmlProcessingInstructionNode;
+      return `<?${target}${data ? ` ${data}` : ""}?>`;
+    }
+    default:
+      return "";
+  }
+}
+
+/**
+ * Writes an element
+ * @param element The element to write
+ * @param parentScope The namespaces in scope for the element's parent
+ * @param rendered The namespaces declared by the written ancestors
+ * @param extra Attributes to add, like inherited xml:* attributes
+ * @param context The options in effect
+ */
+function writeElement(
+  element: XmlElement,
+  parentScope: Scope,
+  rendered: Scope,
+  extra: Record<string, string>,
+  context: Context,
+): string {
+  const scope = { ...parentScope, ...declarations(element) };
+  const values = { ...extra };
+  for (const name of Object.keys(element.attr)) {
+    if (name !== "xmlns" && !name.startsWith("xmlns:")) {
+      values[name] = attributeValue(element, name);
+    }
+  }
+
+  // Decide which namespace declarations to write
+  let prefixes: string[];
+  if (context.exclusive) {
+    const utilized = new Set([prefixOf(element.name) ?? ""]);
+    for (const name of Object.keys(values)) {
+      const prefix = prefixOf(name);
+      if (prefix !== null) utilized.add(prefix);
+    }
+    for (const prefix of context.inclusive) {
+      if (prefix in scope) utilized.add(prefix);
+    }
+    prefixes = [...utilized];
+  } else {
+    prefixes = Object.keys(scope);
+  }
+
+  const declared: [string, string][] = [];
+  const childRendered = { ...rendered };
+  for (const prefix of prefixes) {
+    if (prefix === "xml") continue;
+    const uri = scope[prefix];
+    if (uri === undefined) {
+      throw new Error(`Unbound namespace prefix "${prefix}"`);
+    }
+    if ((rendered[prefix] ?? "") === uri) continue;
+    declared.push([prefix, uri]);
+    childRendered[prefix] = uri;
+  }
+  declared.sort(([a], [b]) => compare(a, b));
+
+  // Attributes sort by namespace URI, then by local name
+  const sorted = Object.keys(values)
+    .map((name) => {
+      const prefix = prefixOf(name);
+      const uri = prefix === null ? "" : resolve(prefix, scope);
+      return { name, uri, local: name.slice(name.indexOf(":") + 1) };
+    })
+    .sort((a, b) => compare(a.uri, b.uri) || compare(a.local, b.local));
+
+  // Fail on an undeclared element prefix
+  resolve(prefixOf(element.name), scope);
+
+  let s = `<${element.name}`;
+  for (const [prefix, uri] of declared) {
+    s += ` ${prefix ? `xmlns:${prefix}` : "xmlns"}="${escapeAttribute(uri)}"`;
+  }
+  for (const { name } of sorted) {
+    s += ` ${name}="${escapeAttribute(values[name])}"`;
+  }
+  s += ">";
+
+  for (const child of element.children) {
+    s += writeNode(child, scope, childRendered, context);
+  }
+  return `${s}</${element.name}>`;
+}
+
+/** Gets a node's text, normalized if it was parsed and hasn't changed */
+function textValue(node: XmlNodeBase, text: string): string {
+  const normalized = texts.get(node);
+  return normalized?.parsed === text ? normalized.value : text;
+}
+
+/** Gets an attribute's value, normalized if it was parsed and hasn't changed */
+function attributeValue(element: XmlElement, name: string): string {
+  const value = element.attr[name];
+  const normalized = attributes.get(element)?.[name];
+  return normalized?.parsed === value ? normalized.value : value;
+}
+
+/** Gets the namespaces an element declares, with "" for the default */
+function declarations(element: XmlElement): Scope {
+  const scope: Scope = {};
+  for (const name of Object.keys(element.attr)) {
+    if (name === "xmlns") {
+      scope[""] = element.attr[name];
+    } else if (name.startsWith("xmlns:")) {
+      scope[name.slice(6)] = element.attr[name];
+    }
+  }
+  return scope;
+}
+
+function prefixOf(name: string): string | null {
+  const colon = name.indexOf(":");
+  return colon === -1 ? null : name.slice(0, colon);
+}
+
+function resolve(prefix: string | null, scope: Scope): string {
+  if (prefix === null) return scope[""] ?? "";
+  if (prefix === "xml") return XML_NAMESPACE;
+  const uri = scope[prefix];
+  if (uri === undefined) {
+    throw new Error(`Unbound namespace prefix "${prefix}"`);
+  }
+  return uri;
+}
+
+// Compares by code point, as the specs require
+function compare(a: string, b: string): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    const difference = a.codePointAt(i)! - b.codePointAt(i)!;
+    if (difference) return difference;
+  }
+  return a.length - b.length;
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\r/g, "&#xD;");
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/"/g, "&quot;")
+    .replace(/\t/g, "&#x9;")
+    .replace(/\n/g, "&#xA;")
+    .replace(/\r/g, "&#xD;");
+}
@@ -0,0 +1,295 @@
+import { XmlDocument } from "./index.js";
+import type { XmlBuilder } from "./builder.js";
+import type { XmlCDataNode, XmlElement, XmlTextNode } from "./index.js";
+
+/**
+ * How elements are mapped to and from plain objects:
+ *
+ * - `"default"`: attributes as `"@name"` keys and text as `"#text"`. Elements
+ *   with only text become plain values.
+ * - `"badgerfish"`: attributes as `"@name"` keys and text as `"$"`. Every
+ *   element becomes an object.
+ * - `"gdata"`: attributes as plain keys and text as `"$t"`. Every element
+ *   becomes an object.
+ * - `"parker"`: attributes are dropped, elements with only text become plain
+ *   values and the root element's name is left out.
+ */
+export type XmlObjectConvention = "default" | "badgerfish" | "gdata" | "parker";
+
+/** A value in an object converted from XML */
+export type XmlObjectValue =
+  | string
+  | number
+  | boolean
+  | null
+  | XmlObject
+  | XmlObjectValue[];
+
+/** An element converted to a plain object */
+export interface XmlObject {
+  [key: string]: XmlObjectValue;
+}
+
+/**
+ * Options for converting between elements and plain objects
+ */
+export interface XmlObjectOptions {
+  /** The mapping convention to use (defaults to "default") */
+  convention?: XmlObjectConvention;
+  /**
+   * Which child elements always become arrays, even when there's only one of
+   * them: true for all, or a list of element names. Others only become
+   * arrays when repeated.
+   */
+  arrays?: boolean | string[];
+  /** Convert text and attribute values like "42" and "true" to numbers and booleans */
+  coerce?: boolean;
+  /** The root element's name, needed to convert back from the Parker convention */
+  root?: string;
+}
+
+interface Convention {
+  // The prefix that marks attribute keys, or null to drop attributes
+  attributePrefix: string | null;
+  textKey: string;
+  // Whether elements with only text become objects rather than plain values
+  alwaysObject: boolean;
+}
+
+const conventions: Record<XmlObjectConvention, Convention> = {
+  default: { attributePrefix: "@", textKey: "#text", alwaysObject: false },
+  badgerfish: { attributePrefix: "@", textKey: "$", alwaysObject: true },
+  gdata: { attributePrefix: "", textKey: "$t", alwaysObject: true },
+  parker: { attributePrefix: null, textKey: "#text", alwaysObject: false },
+};
+
+/**
+ * Converts an element to a plain object
+ * @param element The element to convert
+ * @param options Conversion options
+ * @returns The converted object
+ */
+export function toObject(
+  element: XmlElement,
+  options: XmlObjectOptions = {},
+): XmlObjectValue {
+  const content = elementContent(element, options);
+  if (options.convention === "parker") return content;
+  return { [element.name]: content };
+}
+
+/**
+ * Creates a document from a plain object
+ * @param object The object to convert
+ * @param options Conversion options
+ * @returns The new document
+ * @throws {Error} If the object doesn't describe a single root element
+ */
+export function fromObject(
+  object: XmlObjectValue,
+  options: XmlObjectOptions = {},
+): XmlDocument {
+  let name: string;
+  let content: XmlObjectValue;
+
+  if (options.convention === "parker") {
+    if (!options.root) {
+      throw new Error("The root option is required for the Parker convention");
+    }
+    name = options.root;
+    content = object;
+  } else {
+    const keys = isObject(object) ? Object.keys(object) : [];
+    if (keys.length !== 1) {
+      throw new Error("Expected an object with a single root element");
+    }
+    name = keys[0];
+    content = (object as XmlObject)[name];
+  }
+
+  if (Array.isArray(content)) {
+    throw new Error("The root element can't be an array");
+  }
+
+  const builder = XmlDocument.create(name);
+  buildContent(builder, content, getConvention(options));
+  return builder.doc();
+}
+
+/**
+ * Looks up the convention the options ask for
+ * @param options Conversion options
+ * @returns The convention
+ * @throws {Error} If the convention isn't one of the known ones
+ */
+function getConvention(options: XmlObjectOptions): Convention {
+  const convention = conventions[options.convention ?? "default"];
+  if (!convention) {
+    throw new Error(`Unknown convention: "${options.convention}"`);
+  }
+  return convention;
+}
+
+/**
+ * Converts an element's attributes and children, without its name
+ * @param element The element to convert
+ * @param options Conversion options
+ * @returns A plain value for elements with only text (unless the convention
+ * always uses objects), or an object keyed by attribute and child names
+ */
+function elementContent(
+  element: XmlElement,
+  options: XmlObjectOptions,
+): XmlObjectValue {
+  const convention = getConvention(options);
+  const result: XmlObject = {};
+  let hasElements = false;
+  let text = "";
+
+  if (convention.attributePrefix !== null) {
+    for (const name of Object.keys(element.attr)) {
+      result[convention.attributePrefix + name] = coerce(
+        element.attr[name],
+        options,
+      );
+    }
+  }
+  const hasAttributes = Object.keys(result).length > 0;
+
+  for (const child of element.children) {
+    if (child.type === "text") {
+      text += (child as XmlTextNode).text;
+    } else if (child.type === "cdata") {
+      text += (child as XmlCDataNode).cdata;
+    } else if (child.type === "element") {
+      const childElement = child as XmlElement;
+      const value = elementContent(childElement, options);
+      const existing = result[childElement.name];
+      hasElements = true;
+
+      if (Array.isArray(existing)) {
+        existing.push(value);
+      } else if (
+        Object.prototype.hasOwnProperty.call(result, childElement.name)
+      ) {
+        result[childElement.name] = [existing, value];
+      } else {
+        result[childElement.name] = alwaysArray(childElement.name, options)
+          ? [value]
+          : value;
+      }
+    }
+  }
+
+  // Whitespace between child elements is just formatting
+  if (hasElements && !text.trim()) text = "";
+
+  if (!hasElements && !hasAttributes && !convention.alwaysObject) {
+    if (text) return coerce(text, options);
+    return convention.attributePrefix === null ? null : "";
+  }
+
+  if (text) result[convention.textKey] = coerce(text, options);
+  return result;
+}
+
+/**
+ * Adds the attributes, text and child elements a converted value describes
+ * to an element
+ * @param builder The builder for the element
+ * @param content The element's converted content
+ * @param convention The convention the content was converted with
+ */
+function buildContent(
+  builder: XmlBuilder<unknown>,
+  content: XmlObjectValue,
+  convention: Convention,
+): void {
+  // Empty elements convert to "" (or null for Parker)
+  if (content === null || content === "") return;
+
+  if (!isObject(content)) {
+    builder.txt(content as string | number | boolean);
+    return;
+  }
+
+  for (const key of Object.keys(content)) {
+    const value = content[key];
+
+    if (key === convention.textKey) {
+      if (value !== null && value !== "") {
+        builder.txt(value as string | number | boolean);
+      }
+    } else if (isAttribute(key, value, convention)) {
+      const name = key.slice(convention.attributePrefix!.length);
+      builder.att(name, value as string | number | boolean);
+    } else {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        buildContent(builder.ele(key), item, convention);
+      }
+    }
+  }
+}
+
+/**
+ * Checks whether a key in a converted object stands for an attribute
+ * @param key The key
+ * @param value The value under the key
+ * @param convention The convention the object was converted with
+ * @returns Whether the key is an attribute rather than a child element or text
+ */
+function isAttribute(
+  key: string,
+  value: XmlObjectValue,
+  convention: Convention,
+): boolean {
+  const prefix = convention.attributePrefix;
+  if (prefix === null) return false;
+  // Without a prefix (like GData), any plain value is an attribute
+  if (prefix === "") return value !== null && typeof value !== "object";
+  return key.startsWith(prefix);
+}
+
+/**
+ * Checks whether a converted value is an object, rather than a plain value
+ * or an array
+ * @param value The value to check
+ * @returns Whether the value is an object
+ */
+function isObject(value: XmlObjectValue): value is XmlObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks whether the options ask for a child element to become an array
+ * even when there's only one of it
+ * @param name The child element's name
+ * @param options Conversion options
+ * @returns Whether the element always becomes an array
+ */
+function alwaysArray(name: string, options: XmlObjectOptions): boolean {
+  const { arrays } = options;
+  return Array.isArray(arrays) ? arrays.includes(name) : !!arrays;
+}
+
+/**
+ * Converts text that looks like a number or boolean, if the options ask for it
+ * @param value The text to convert
+ * @param options Conversion options
+ * @returns The number or boolean, or the text unchanged
+ */
+function coerce(
+  value: string,
+  options: XmlObjectOptions,
+): string | number | boolean {
+  if (!options.coerce) return value;
+  if (value === "true") return true;
+  if (value === "false") return false;
+
+  // Only convert numbers that convert back to the same text, so that values
+  // like "007" or "1.50" survive a round trip
+  const number = Number(value);
+  if (value.trim() !== "" && String(number) === value) return number;
+
+  return value;
+}
@@ -0,0 +1,666 @@
+import { XmlCDataNode, XmlDocument, XmlElement, XmlTextNode } from "./index.js";
+import type {
+  XmlCommentNode,
+  XmlNodeBase,
+  XmlProcessingInstructionNode,
+} from "./index.js";
+import { copy } from "./tree.js";
+import { evaluateXPath } from "./xpath.js";
+import type { XPathNode } from "./xpath.js";
+
+/**
+ * Options for comparing trees
+ */
+export interface XmlDiffOptions {
+  /**
+   * An attribute that identifies elements, like "id". Sibling elements with
+   * the same name and key are matched wherever they are, so reordering them
+   * is reported as moves; other siblings are matched in order.
+   */
+  key?: string;
+}
+
+/**
+ * A difference between two trees. Each path is an XPath selecting the node
+ * in the tree as it is when the change is applied, so changes must be
+ * applied in order.
+ */
+export type XmlChange =
+  | XmlInsertChange
+  | XmlDeleteChange
+  | XmlMoveChange
+  | XmlAttributeChange
+  | XmlTextChange;
+
+/** A node added to an element */
+export interface XmlInsertChange {
+  type: "insert";
+  /** The path to the element the node is added to */
+  path: string;
+  /** Where the node goes among the element's children */
+  index: number;
+  /** The added node, from the second tree */
+  node: XmlNodeBase;
+}
+
+/** A node removed from its parent */
+export interface XmlDeleteChange {
+  type: "delete";
+  /** The path to the removed node */
+  path: string;
+  /** The removed node, from the first tree */
+  node: XmlNodeBase;
+}
+
+/** An element moved to another place among its siblings */
+export interface XmlMoveChange {
+  type: "move";
+  /** The path to the element before it moves */
+  path: string;
+  /** Where the element goes among its siblings, once taken out */
+  index: number;
+  /** The element as it is in the second tree */
+  node: XmlNodeBase;
+}
+
+/** An attribute added, changed or removed */
+export interface XmlAttributeChange {
+  type: "attribute";
+  /** The path to the element */
+  path: string;
+  /** The attribute name */
+  name: string;
+  /** The value before, or null if the attribute was added */
+  oldValue: string | null;
+  /** The value after, or null if the attribute was removed */
+  newValue: string | null;
+}
+
+/** The content of a text or CDATA node changed */
+export interface XmlTextChange {
+  type: "text";
+  /** The path to the text or CDATA node, like "/a/b[1]/text()[1]" */
+  path: string;
+  /** The text before */
+  oldValue: string;
+  /** The text after */
+  newValue: string;
+}
+
+/**
+ * Compares two elements and their descendants
+ * @param a The original element
+ * @param b The changed element
+ * @param options How to match sibling elements
+ * @returns The changes that turn `a` into `b`, in the order to apply them.
+ * Paths start from the top of `a`'s tree.
+ * @throws {Error} If the elements have different names
+ * @example
+ * // For <feed><item id="1"/><item id="2"/></feed> and
+ * // <feed><item id="2"/><item id="1" new="yes"/></feed>
+ * diff(a, b, { key: "id" })
+ * // [{ type: "attribute", path: "/feed/item[1]", name: "new", ... },
+ * //  { type: "move", path: "/feed/item[1]", index: 1, ... }]
+ */
+export function diff(
+  a: XmlElement,
+  b: XmlElement,
+  options: XmlDiffOptions = {},
+): XmlChange[] {
+  if (a.name !== b.name) {
+    throw new Error(`Cannot compare <${a.name}> with <${b.name}>`);
+  }
+  const changes: XmlChange[] = [];
+  diffElements(a, b, pathOf(a), options, changes);
+  return changes;
+}
+
+/**
+ * Applies changes to a tree, in place
+ * @param target The element to change, like a copy of the first tree
+ * passed to diff()
+ * @param patch The changes from diff(), or an RFC 5261 XML Patch document
+ * like the one toXmlPatch() creates
+ * @throws {Error} If a path doesn't select exactly one node, or the patch
+ * document contains an unknown operation
+ */
+export function applyPatch(
+  target: XmlElement,
+  patch: XmlChange[] | XmlElement,
+): void {
+  if (patch instanceof XmlElement) {
+    for (const operation of patch.children) {
+      if (operation instanceof XmlElement) applyOperation(target, operation);
+    }
+    return;
+  }
+
+  for (const change of patch) {
+    const node = select(target, change.path);
+
+    switch (change.type) {
+      case "attribute": {
+        const element = elementAt(node, change.path);
+        if (change.newValue === null) {
+          element.removeAttribute(change.name);
+        } else {
+          element.setAttribute(change.name, change.newValue);
+        }
+        break;
+      }
+      case "text":
+        replaceText(node, change.newValue, change.path);
+        break;
+      case "delete":
+        childAt(node, change.path).remove();
+        break;
+      case "insert":
+        insertAt(elementAt(node, change.path), copy(change.node), change.index);
+        break;
+      case "move": {
+        const child = childAt(node, change.path);
+        const parent = child.parent!;
+        parent.removeChild(child);
+        insertAt(parent, child, change.index);
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Writes changes as an RFC 5261 XML Patch document, with an <add>,
+ * <replace> or <remove> operation for each change (a move is a <remove>
+ * followed by an <add>)
+ * @param changes The changes from diff()
+ * @returns A document with a <diff> root element
+ * @example
+ * toXmlPatch(diff(a, b)).toString()
+ * // <diff>
+ * //   <replace sel="/feed/title[1]/text()[1]">New title</replace>
+ * // </diff>
+ */
+export function toXmlPatch(changes: XmlChange[]): XmlDocument {
+  const document = XmlDocument.create("diff").doc();
+  const write = (
+    name: string,
+    attributes: Record<string, string>,
+    nodes: XmlNodeBase[] = [],
+  ) => {
+    const operation = new XmlElement({ name, attributes }, null);
+    for (const node of nodes) operation.appendChild(copy(node));
+    document.appendChild(operation);
+  };
+
+  for (const change of changes) {
+    switch (change.type) {
+      case "attribute": {
+        const { path, name, newValue } = change;
+        if (newValue === null) {
+          write("remove", { sel: `${path}/@${name}` });
+        } else if (change.oldValue === null) {
+          write("add", { sel: path, type: `@${name}` }, text(newValue));
+        } else {
+          write("replace", { sel: `${path}/@${name}` }, text(newValue));
+        }
+        break;
+      }
+      case "text":
+        write("replace", { sel: change.path }, text(change.newValue));
+        break;
+      case "delete":
+        write("remove", { sel: change.path });
+        break;
+      case "insert":
+        write("add", position(change.path, change.index), [change.node]);
+        break;
+      case "move": {
+        const parent = change.path.slice(0, change.path.lastIndexOf("/"));
+        write("remove", { sel: change.path });
+        write("add", position(parent, change.index), [change.node]);
+        break;
+      }
+    }
+  }
+  return document;
+}
+
+function diffElements(
+  a: XmlElement,
+  b: XmlElement,
+  path: string,
+  options: XmlDiffOptions,
+  changes: XmlChange[],
+): void {
+  for (const name of Object.keys(a.attr)) {
+    const newValue = hasOwn(b.attr, name) ? b.attr[name] : null;
+    if (newValue !== a.attr[name]) {
+      changes.push({
+        type: "attribute",
+        path,
+        name,
+        oldValue: a.attr[name],
+        newValue,
+      });
+    }
+  }
+  for (const name of Object.keys(b.attr)) {
+    if (!hasOwn(a.attr, name)) {
+      changes.push({
+        type: "attribute",
+        path,
+        name,
+        oldValue: null,
+        newValue: b.attr[name],
+      });
+    }
+  }
+
+  // The children of `a` as they are while the changes are applied, with
+  // inserted nodes from `b`
+  const current = [...a.children];
+  const matches = matchChildren(a.children, b.children, options);
+  const matched = new Map([...matches].map(([theirs, ours]) => [ours, theirs]));
+
+  // Matched children change in place
+  for (const child of a.children) {
+    const other = matched.get(child);
+    const childPath = () => pathIn(current, current.indexOf(child), path);
+
+    if (child instanceof XmlElement) {
+      if (other)
+        diffElements(child, other as XmlElement, childPath(), options, changes);
+    } else if (other) {
+      const oldValue = textOf(child);
+      const newValue = textOf(other);
+      if (oldValue !== newValue) {
+        changes.push({ type: "text", path: childPath(), oldValue, newValue });
+      }
+    }
+  }
+
+  // Removing from the end keeps the paths of earlier siblings the same
+  for (let i = current.length - 1; i >= 0; i--) {
+    if (!matched.has(current[i])) {
+      changes.push({
+        type: "delete",
+        path: pathIn(current, i, path),
+        node: current[i],
+      });
+      current.splice(i, 1);
+    }
+  }
+
+  // Children in the longest run already in order stay put, and each of the
+  // rest goes right after the node that comes before it in `b`
+  const staying = longestRun(current, (child) =>
+    b.children.indexOf(matched.get(child)!),
+  );
+  b.children.forEach((node, i) => {
+    const source = matches.get(node);
+    if (source && staying.has(source)) return;
+
+    const previous = i
+      ? (matches.get(b.children[i - 1]) ?? b.children[i - 1])
+      : null;
+    if (!source) {
+      const index = previous ? current.indexOf(previous) + 1 : 0;
+      current.splice(index, 0, node);
+      changes.push({ type: "insert", path, index, node });
+      return;
+    }
+
+    const from = current.indexOf(source);
+    const fromPath = pathIn(current, from, path);
+    current.splice(from, 1);
+    const index = previous ? current.indexOf(previous) + 1 : 0;
+    current.splice(index, 0, source);
+    if (index !== from) {
+      changes.push({ type: "move", path: fromPath, index, node });
+    }
+  });
+}
+
+/**
+ * Pairs up the children of two elements: elements with a key wherever they
+ * are, and everything else in order
+ * @returns The matching child of `a` for each matched child of `b`
+ */
+function matchChildren(
+  a: XmlNodeBase[],
+  b: XmlNodeBase[],
+  options: XmlDiffOptions,
+): Map<XmlNodeBase, XmlNodeBase> {
+  const matches = new Map<XmlNodeBase, XmlNodeBase>();
+  const keyOf = (node: XmlNodeBase) =>
+    options.key !== undefined &&
+    node instanceof XmlElement &&
+    hasOwn(node.attr, options.key)
+      ? `${node.name} ${node.attr[options.key]}`
+      : null;
+
+  const keyed = new Map<string, XmlNodeBase>();
+  for (const node of a) {
+    const key = keyOf(node);
+    if (key !== null && !keyed.has(key)) keyed.set(key, node);
+  }
+  for (const node of b) {
+    const key = keyOf(node);
+    const match = key === null ? undefined : keyed.get(key);
+    if (match) {
+      matches.set(node, match);
+      keyed.delete(key!);
+    }
+  }
+
+  const restA = a.filter((node) => keyOf(node) === null);
+  const restB = b.filter((node) => keyOf(node) === null);
+  for (const [ours, theirs] of commonSubsequence(restA, restB)) {
+    matches.set(theirs, ours);
+  }
+  return matches;
+}
+
+/**
+ * Finds the longest sequence of nodes that appear in the same order in both
+ * lists, comparing element names, text node types, and the content of
+ * comments and processing instructions
+ */
+function commonSubsequence(
+  a: XmlNodeBase[],
+  b: XmlNodeBase[],
+): [XmlNodeBase, XmlNodeBase][] {
+  const x = a.map(signature);
+  const y = b.map(signature);
+  const pairs: [XmlNodeBase, XmlNodeBase][] = [];
+
+  // Common ends are matched without building the table
+  let start = 0;
+  while (start < x.length && start < y.length && x[start] === y[start]) {
+    pairs.push([a[start], b[start]]);
+    start++;
+  }
+  let endA = x.length;
+  let endB = y.length;
+  const tail: [XmlNodeBase, XmlNodeBase][] = [];
+  while (endA > start && endB > start && x[endA - 1] === y[endB - 1]) {
+    tail.unshift([a[--endA], b[--endB]]);
+  }
+
+  // lengths[i][j] is the length of the longest common subsequence of
+  // x[i..endA) and y[j..endB)
+  const rows = endA - start + 1;
+  const columns = endB - start + 1;
+  const lengths = Array.from({ length: rows }, () =>
+    new Array<number>(columns).fill(0),
+  );
+  for (let i = rows - 2; i >= 0; i--) {
+    for (let j = columns - 2; j >= 0; j--) {
+      lengths[i][j] =
+        x[start + i] === y[start + j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < rows - 1 && j < columns - 1) {
+    if (x[start + i] === y[start + j]) {
+      pairs.push([a[start + i], b[start + j]]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return [...pairs, ...tail];
+}
+
+function signature(node: XmlNodeBase): string {
+  switch (node.type) {
+    case "element":
+      return `<${(node as XmlElement).name}`;
+    case "comment":
+      return `!${(node as XmlCommentNode).comment}`;
+    case "processinginstruction": {
+      const { target, data } = node as XmlProcessingInstructionNode;
+      return `?${target} ${data}`;
+    }
+    default:
+      return node.type;
+  }
+}
+
+/**
+ * Finds the longest run of items whose ranks increase, which can stay where
+ * they are while the others move around them
+ */
+function longestRun<T>(items: T[], rank: (item: T) => number): Set<T> {
+  // tails[k] is the index of the smallest last item of a run of length k + 1
+  const tails: number[] = [];
+  const previous: number[] = [];
+  const ranks = items.map(rank);
+
+  ranks.forEach((value, i) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (ranks[tails[middle]] < value) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    previous[i] = low ? tails[low - 1] : -1;
+    tails[low] = i;
+  });
+
+  const run = new Set<T>();
+  for (
+    let i = tails.length ? tails[tails.length - 1] : -1;
+    i !== -1;
+    i = previous[i]
+  ) {
+    run.add(items[i]);
+  }
+  return run;
+}
+
+/** Gets the path to an element from the top of its tree */
+function pathOf(element: XmlElement): string {
+  const parent = element.parent;
+  if (!parent) return `/${element.name}`;
+  return pathIn(
+    parent.children,
+    parent.children.indexOf(element),
+    pathOf(parent),
+  );
+}
+
+/**
+ * Gets the path to one of a list of siblings
+ * @param siblings The children of the parent element
+ * @param index The index of the node
+ * @param parentPath The path to the parent element
+ */
+function pathIn(
+  siblings: XmlNodeBase[],
+  index: number,
+  parentPath: string,
+): string {
+  const node = siblings[index];
+  const test = nodeTest(node);
+  let position = 0;
+  for (let i = 0; i <= index; i++) {
+    if (nodeTest(siblings[i]) === test) position++;
+  }
+  return `${parentPath}/${test}[${position}]`;
+}
+
+function nodeTest(node: XmlNodeBase): string {
+  switch (node.type) {
+    case "element":
+      return (node as XmlElement).name;
+    case "text":
+    case "cdata":
+      return "text()";
+    case "comment":
+      return "comment()";
+    default:
+      return "processing-instruction()";
+  }
+}
+
+/** Where an RFC 5261 <add> puts a node to land at a child index */
+function position(parent: string, index: number): Record<string, string> {
+  return index
+    ? { sel: `${parent}/node()[${index}]`, pos: "after" }
+    : { sel: parent, pos: "prepend" };
+}
+
+/** Applies an RFC 5261 <add>, <replace> or <remove> operation */
+function applyOperation(target: XmlElement, operation: XmlElement): void {
+  const sel = operation.attr.sel;
+  if (sel === undefined) {
+    throw new Error(`<${operation.name}> is missing its "sel" attribute`);
+  }
+
+  const node = select(target, sel);
+
+  switch (operation.localName) {
+    case "add": {
+      const type = operation.attr.type;
+      if (type !== undefined) {
+        const name = type.startsWith("namespace::")
+          ? `xmlns:${type.slice(11)}`
+          : type.slice(1);
+        elementAt(node, sel).setAttribute(name, operation.val);
+        return;
+      }
+
+      const nodes = content(operation).map(copy);
+      const pos = operation.attr.pos;
+      if (pos === undefined || pos === "prepend") {
+        const parent = elementAt(node, sel);
+        const reference = pos ? parent.firstChild : null;
+        for (const child of nodes) parent.insertBefore(child, reference);
+      } else if (pos === "before" || pos === "after") {
+        let reference = childAt(node, sel);
+        const parent = reference.parent!;
+        for (const child of nodes) {
+          if (pos === "before") {
+            parent.insertBefore(child, reference);
+          } else {
+            reference = parent.insertAfter(child, reference);
+          }
+        }
+      } else {
+        throw new Error(`Unknown position "${pos}" for <add>`);
+      }
+      return;
+    }
+    case "replace":
+      if (node.type === "attribute") {
+        node.ownerElement.setAttribute(node.name, operation.val);
+      } else if (node.type === "text" || node.type === "cdata") {
+        replaceText(node, operation.val, sel);
+      } else {
+        const nodes = content(operation);
+        if (nodes.length !== 1) {
+          throw new Error(`<replace> for "${sel}" must contain one node`);
+        }
+        childAt(node, sel).replaceWith(copy(nodes[0]));
+      }
+      return;
+    case "remove": {
+      if (node.type === "attribute") {
+        node.ownerElement.removeAttribute(node.name);
+        return;
+      }
+      // The ws attribute also removes whitespace next to the node
+      const ws = operation.attr.ws;
+      const child = childAt(node, sel);
+      if (ws === "before" || ws === "both")
+        removeWhitespace(child.previousSibling);
+      if (ws === "after" || ws === "both") removeWhitespace(child.nextSibling);
+      child.remove();
+      return;
+    }
+    default:
+      throw new Error(`Unknown patch operation <${operation.name}>`);
+  }
+}
+
+/**
+ * Gets the nodes an operation contains, leaving out the whitespace around
+ * them when the patch was indented
+ */
+function content(operation: XmlElement): XmlNodeBase[] {
+  const nodes = operation.children;
+  if (nodes.every((node) => node.type === "text" || node.type === "cdata")) {
+    return nodes;
+  }
+  return nodes.filter(
+    (node) => node.type !== "text" || (node as XmlTextNode).text.trim(),
+  );
+}
+
+function removeWhitespace(node: XmlNodeBase | null): void {
+  if (node?.type === "text" && !(node as XmlTextNode).text.trim()) {
+    node.remove();
+  }
+}
+
+function select(target: XmlElement, path: string): XPathNode {
+  const result = evaluateXPath(path, target);
+  if (!Array.isArray(result) || result.length !== 1) {
+    throw new Error(`Patch path "${path}" does not select exactly one node`);
+  }
+  return result[0];
+}
+
+function elementAt(node: XPathNode, path: string): XmlElement {
+  if (!(node instanceof XmlElement)) {
+    throw new Error(`Patch path "${path}" does not select an element`);
+  }
+  return node;
+}
+
+function childAt(node: XPathNode, path: string): XmlNodeBase {
+  if (node.type === "attribute" || !node.parent) {
+    throw new Error(`Patch path "${path}" does not select a child node`);
+  }
+  return node;
+}
+
+function insertAt(parent: XmlElement, node: XmlNodeBase, index: number): void {
+  parent.insertBefore(node, parent.children[index] ?? null);
+}
+
+function replaceText(node: XPathNode, value: string, path: string): void {
+  if (node.type === "cdata") {
+    node.replaceWith(new XmlCDataNode(value));
+  } else if (node.type === "text") {
+    node.replaceWith(new XmlTextNode(value));
+  } else {
+    throw new Error(`Patch path "${path}" does not select a text node`);
+  }
+}
+
+function textOf(node: XmlNodeBase): string {
+  return node.type === "cdata"
+    ? (node as XmlCDataNode).cdata
+    : (node as XmlTextNode).text;
+}
+
+function text(value: string): XmlNodeBase[] {
+  return value ? [new XmlTextNode(value)] : [];
+}
+
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
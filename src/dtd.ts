@@ -0,0 +1,567 @@
+import type { SAXParser } from "sax";
+import type { XmlTag } from "./index.js";
+
+/**
+ * A document type declaration and its internal subset
+ */
+export interface XmlDtd {
+  /** The root element name the doctype declares */
+  name: string;
+  /** The public identifier of the external subset, if any */
+  publicId: string | null;
+  /** The system identifier (URI) of the external subset, if any */
+  systemId: string | null;
+  /** Element declarations, keyed by element name */
+  elements: Record<string, XmlDtdElement>;
+  /** Attribute declarations, keyed by element name */
+  attributes: Record<string, XmlDtdAttribute[]>;
+  /** General entity declarations, keyed by entity name */
+  entities: Record<string, XmlDtdEntity>;
+  /** Parameter entity declarations, keyed by entity name */
+  parameterEntities: Record<string, XmlDtdEntity>;
+}
+
+/**
+ * An <!ELEMENT> declaration
+ */
+export interface XmlDtdElement {
+  name: string;
+  /** The content specification, like "EMPTY", "ANY" or "(title, author+)" */
+  content: string;
+}
+
+/**
+ * An attribute declared in an <!ATTLIST> declaration
+ */
+export interface XmlDtdAttribute {
+  /** The element the attribute belongs to */
+  element: string;
+  name: string;
+  /** The attribute type, like "CDATA", "ID", "NOTATION" or "ENUMERATION" */
+  type: string;
+  /** The allowed values of an enumerated or NOTATION attribute */
+  values: string[] | null;
+  /** Whether the attribute is "#REQUIRED", "#IMPLIED", "#FIXED" or has a plain default */
+  presence: "required" | "implied" | "fixed" | "default";
+  /** The default (or fixed) value, if any */
+  default: string | null;
+}
+
+/**
+ * An <!ENTITY> declaration
+ */
+export interface XmlDtdEntity {
+  name: string;
+  /** The replacement text of an internal entity, or null for an external one */
+  value: string | null;
+  /** The public identifier of an external entity */
+  publicId: string | null;
+  /** The system identifier (URI) of an external entity */
+  systemId: string | null;
+  /** The notation of an unparsed entity */
+  notation: string | null;
+}
+
+/** The default for the maxEntityExpansions option */
+export const DEFAULT_MAX_ENTITY_EXPANSIONS = 10000;
+
+/** The default for the maxEntityExpansionLength option */
+export const DEFAULT_MAX_ENTITY_EXPANSION_LENGTH = 1000000;
+
+const predefined: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+const name = "[^\\s\"'<>%&;()|,*+?]+";
+// One token of a declaration: a quoted string, a group, or a word
+const token = new RegExp(`\\s*("[^"]*"|'[^']*'|\\([^)]*\\)|#?${name}|%)`, "y");
+
+/**
+ * Parses the text sax reports for a doctype, like ` note [<!ENTITY ...>]`
+ * @param doctype The doctype text
+ * @returns The parsed declarations
+ * @throws {Error} If the declarations are malformed
+ */
+export function parseDtd(doctype: string): XmlDtd {
+  const header = new RegExp(
+    `^\\s*(${name})(?:\\s+(?:SYSTEM\\s+("[^"]*"|'[^']*')|PUBLIC\\s+("[^"]*"|'[^']*')\\s+("[^"]*"|'[^']*')))?\\s*(?:\\[([\\s\\S]*)\\])?\\s*$`,
+  ).exec(doctype);
+  if (!header) throw new Error("Invalid DTD: malformed doctype declaration");
+
+  const [, root, system, publicId, publicSystem, subset] = header;
+  const dtd: XmlDtd = {
+    name: root,
+    publicId: publicId ? unquote(publicId) : null,
+    systemId: system || publicSystem ? unquote(system ?? publicSystem) : null,
+    elements: {},
+    attributes: {},
+    entities: {},
+    parameterEntities: {},
+  };
+
+  if (subset) parseSubset(subset, dtd, new Set());
+  return dtd;
+}
+
+function parseSubset(subset: string, dtd: XmlDtd, expanding: Set<string>) {
+  let index = 0;
+
+  while (index < subset.length) {
+    const rest = subset.slice(index);
+    const space = /^\s+/.exec(rest);
+
+    if (space) {
+      index += space[0].length;
+    } else if (rest.startsWith("<!--")) {
+      const end = subset.indexOf("-->", index + 4);
+      if (end === -1) throw new Error("Invalid DTD: unclosed comment");
+      index = end + 3;
+    } else if (rest.startsWith("<?")) {
+      const end = subset.indexOf("?>", index + 2);
+      if (end === -1)
+        throw new Error("Invalid DTD: unclosed processing instruction");
+      index = end + 2;
+    } else if (rest.startsWith("%")) {
+      // Parameter entities can hold whole declarations
+      const reference = new RegExp(`^%(${name});`).exec(rest);
+      if (!reference)
+        throw new Error("Invalid DTD: malformed parameter entity reference");
+
+      const entity = dtd.parameterEntities[reference[1]];
+      if (!entity) throw new Error(`Undefined entity "%${reference[1]};"`);
+      if (expanding.has(entity.name)) {
+        throw new Error(`Recursive entity "%${entity.name};"`);
+      }
+      if (entity.value !== null) {
+        expanding.add(entity.name);
+        parseSubset(entity.value, dtd, expanding);
+        expanding.delete(entity.name);
+      }
+      index += reference[0].length;
+    } else if (rest.startsWith("<!")) {
+      const end = declarationEnd(subset, index);
+      parseDeclaration(subset.slice(index + 2, end), dtd);
+      index = end + 1;
+    } else {
+      throw new Error(`Invalid DTD: unexpected "${rest.slice(0, 20)}"`);
+    }
+  }
+}
+
+/** Finds the ">" closing the declaration at `start`, skipping quoted text */
+function declarationEnd(subset: string, start: number): number {
+  let quote = "";
+  for (let i = start; i < subset.length; i++) {
+    const c = subset[i];
+    if (quote) {
+      if (c === quote) quote = "";
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === ">") {
+      return i;
+    }
+  }
+  throw new Error("Invalid DTD: unclosed declaration");
+}
+
+function parseDeclaration(declaration: string, dtd: XmlDtd): void {
+  const keyword = /^[A-Z]+/.exec(declaration)?.[0] ?? "";
+  const body = declaration.slice(keyword.length);
+
+  switch (keyword) {
+    case "ELEMENT": {
+      const match = new RegExp(`^\\s+(${name})\\s+([\\s\\S]+?)\\s*$`).exec(
+        body,
+      );
+      if (!match) throw new Error("Invalid DTD: malformed element declaration");
+      dtd.elements[match[1]] = { name: match[1], content: match[2] };
+      break;
+    }
+    case "ATTLIST":
+      parseAttributeList(tokenize(body), dtd);
+      break;
+    case "ENTITY":
+      parseEntity(tokenize(body), dtd);
+      break;
+    case "NOTATION":
+      // Notations only matter to applications handling unparsed entities
+      break;
+    default:
+      throw new Error(`Invalid DTD: unknown declaration "<!${keyword}"`);
+  }
+}
+
+function tokenize(body: string): string[] {
+  const tokens: string[] = [];
+  let match: RegExpExecArray | null;
+  let end = 0;
+
+  token.lastIndex = 0;
+  while ((match = token.exec(body))) {
+    tokens.push(match[1]);
+    end = token.lastIndex;
+  }
+
+  const rest = body.slice(end).trim();
+  if (rest) throw new Error(`Invalid DTD: unexpected "${rest}"`);
+  return tokens;
+}
+
+function parseAttributeList(tokens: string[], dtd: XmlDtd): void {
+  const element = tokens.shift();
+  if (!element) throw new Error("Invalid DTD: malformed attribute list");
+
+  const attributes = (dtd.attributes[element] ??= []);
+
+  while (tokens.length) {
+    const attributeName = tokens.shift()!;
+    let type = tokens.shift();
+    let values: string[] | null = null;
+
+    if (type === "NOTATION") {
+      values = parseGroup(tokens.shift());
+    } else if (type?.startsWith("(")) {
+      values = parseGroup(type);
+      type = "ENUMERATION";
+    }
+
+    let presence: XmlDtdAttribute["presence"] = "default";
+    let value = tokens.shift();
+
+    if (value === "#REQUIRED" || value === "#IMPLIED") {
+      presence = value === "#REQUIRED" ? "required" : "implied";
+      value = undefined;
+    } else if (value === "#FIXED") {
+      presence = "fixed";
+      value = tokens.shift();
+    }
+
+    if (
+      !type ||
+      (presence !== "required" && presence !== "implied" && !isQuoted(value))
+    ) {
+      throw new Error(
+        `Invalid DTD: malformed declaration of attribute "${attributeName}"`,
+      );
+    }
+
+    // The first declaration of an attribute is the one that counts
+    if (attributes.some((attribute) => attribute.name === attributeName))
+      continue;
+
+    attributes.push({
+      element,
+      name: attributeName,
+      type,
+      values,
+      presence,
+      // References are expanded by registerEntities(), which has the limits
+      default: value === undefined ? null : unquote(value),
+    });
+  }
+}
+
+function parseEntity(tokens: string[], dtd: XmlDtd): void {
+  const parameter = tokens[0] === "%";
+  if (parameter) tokens.shift();
+
+  const entityName = tokens.shift();
+  if (!entityName) throw new Error("Invalid DTD: malformed entity declaration");
+
+  const entity: XmlDtdEntity = {
+    name: entityName,
+    value: null,
+    publicId: null,
+    systemId: null,
+    notation: null,
+  };
+
+  const [first, second, third, fourth, fifth] = tokens;
+  if (isQuoted(first) && tokens.length === 1) {
+    entity.value = decodeCharacters(unquote(first));
+  } else if (first === "SYSTEM" && isQuoted(second)) {
+    entity.systemId = unquote(second);
+    if (third === "NDATA") entity.notation = fourth ?? null;
+  } else if (first === "PUBLIC" && isQuoted(second) && isQuoted(third)) {
+    entity.publicId = unquote(second);
+    entity.systemId = unquote(third);
+    if (fourth === "NDATA") entity.notation = fifth ?? null;
+  } else {
+    throw new Error("Invalid DTD: malformed entity declaration");
+  }
+
+  // The first declaration of an entity is the one that counts
+  const entities = parameter ? dtd.parameterEntities : dtd.entities;
+  if (!Object.prototype.hasOwnProperty.call(entities, entityName)) {
+    entities[entityName] = entity;
+  }
+}
+
+/**
+ * Makes the general entities declared in a DTD available to a parser. Each
+ * reference expands to the entity's text, with any entities it refers to
+ * expanded in turn; markup in entity values is treated as text. The
+ * references in attribute default values are expanded up front, under the
+ * same limits.
+ * @param parser The parser to register the entities with
+ * @param dtd The DTD declaring the entities
+ * @param maxExpansions How many entity references can be expanded while
+ * parsing, counting references nested in entity values
+ * @param maxLength How many characters entity references can expand to in
+ * total while parsing
+ * @param fail Reports a problem with an entity as a parse error
+ */
+export function registerEntities(
+  parser: SAXParser,
+  dtd: XmlDtd,
+  maxExpansions: number,
+  maxLength: number,
+  fail: (message: string) => never,
+): void {
+  const costs = new Map<string, number>();
+  const lengths = new Map<string, number>();
+  const values = new Map<string, string>();
+  let expansions = 0;
+  let expandedLength = 0;
+  let lastPosition = -1;
+
+  // How many references expanding an entity takes, including itself
+  const cost = (entityName: string, chain: string[]): number => {
+    const known = costs.get(entityName);
+    if (known !== undefined) return known;
+
+    const entity = dtd.entities[entityName];
+    if (!entity) fail(`Undefined entity "&${entityName};"`);
+    if (entity.value === null) {
+      fail(`External entity "&${entityName};" can't be expanded`);
+    }
+    if (chain.includes(entityName)) {
+      fail(`Recursive entity "&${entityName};"`);
+    }
+
+    let total = 1;
+    for (const reference of references(entity.value)) {
+      if (!Object.prototype.hasOwnProperty.call(predefined, reference)) {
+        total += cost(reference, [...chain, entityName]);
+        // Checked as we go, so that runaway definitions stop early
+        if (total > maxExpansions) break;
+      }
+    }
+    costs.set(entityName, total);
+    return total;
+  };
+
+  // How many characters an entity expands to, worked out without expanding
+  // it. Only called once cost() has checked the entity.
+  const length = (entityName: string): number => {
+    const known = lengths.get(entityName);
+    if (known !== undefined) return known;
+
+    let total = 0;
+    const text = dtd.entities[entityName].value!.replace(
+      /&(#?[^\s&;]+);/g,
+      (_, reference: string) => {
+        total += reference.startsWith("#")
+          ? decodeCharacters(`&${reference};`).length
+          : (predefined[reference]?.length ?? length(reference));
+        return "";
+      },
+    );
+    total += text.length;
+    lengths.set(entityName, total);
+    return total;
+  };
+
+  const expand = (entityName: string): string => {
+    const known = values.get(entityName);
+    if (known !== undefined) return known;
+
+    const value = dtd.entities[entityName].value!.replace(
+      /&(#?[^\s&;]+);/g,
+      (_, reference: string) =>
+        reference.startsWith("#")
+          ? decodeCharacters(`&${reference};`)
+          : (predefined[reference] ?? expand(reference)),
+    );
+    values.set(entityName, value);
+    return value;
+  };
+
+  // Expands a reference, counting it towards the limits
+  const use = (entityName: string): string => {
+    expansions += cost(entityName, []);
+    if (expansions > maxExpansions) {
+      fail(`Entity expansion limit exceeded (${maxExpansions})`);
+    }
+    // Checked before expanding, so that huge values are never built
+    expandedLength += length(entityName);
+    if (expandedLength > maxLength) {
+      fail(`Entity expansion limit exceeded (${maxLength} characters)`);
+    }
+    return expand(entityName);
+  };
+
+  for (const attributes of Object.values(dtd.attributes)) {
+    for (const attribute of attributes) {
+      attribute.default &&= attribute.default.replace(
+        /&(#?[^\s&;]+);/g,
+        (_, reference: string) =>
+          reference.startsWith("#")
+            ? decodeCharacters(`&${reference};`)
+            : Object.prototype.hasOwnProperty.call(predefined, reference)
+              ? predefined[reference]
+              : use(reference),
+      );
+    }
+  }
+
+  for (const entityName of Object.keys(dtd.entities)) {
+    Object.defineProperty(parser.ENTITIES, entityName, {
+      configurable: true,
+      enumerable: true,
+      get() {
+        // sax can look an entity up more than once per reference
+        if (parser.position === lastPosition) return expand(entityName);
+        lastPosition = parser.position;
+        return use(entityName);
+      },
+    });
+  }
+}
+
+/**
+ * Adds the default values a DTD declares for attributes a tag leaves out
+ * @param tag The tag to add to
+ * @param dtd The DTD declaring the defaults
+ */
+export function applyAttributeDefaults(tag: XmlTag, dtd: XmlDtd): void {
+  for (const attribute of dtd.attributes[tag.name] ?? []) {
+    if (
+      attribute.default !== null &&
+      !Object.prototype.hasOwnProperty.call(tag.attributes, attribute.name)
+    ) {
+      tag.attributes[attribute.name] = attribute.default;
+    }
+  }
+}
+
+/**
+ * Normalizes a tag's attribute values as the XML spec describes: tabs and
+ * line breaks become spaces, and values of attributes declared with a type
+ * other than CDATA are trimmed and have their spaces collapsed. Whitespace
+ * written as character references is kept.
+ * @param tag The tag whose attributes to normalize
+ * @param dtd The DTD declaring the attribute types, if any
+ * @param written Reads the attribute values as written in the source, if
+ * the source is known
+ * @returns The normalized values of the attributes normalizing changes
+ */
+export function normalizeAttributes(
+  tag: XmlTag,
+  dtd: XmlDtd | null,
+  written?: () => Record<string, string>,
+): Record<string, string> {
+  const declared = dtd?.attributes[tag.name] ?? [];
+  const changed: Record<string, string> = {};
+  let source: Record<string, string> | undefined;
+
+  for (const name of Object.keys(tag.attributes)) {
+    const parsed = tag.attributes[name];
+    const type = declared.find((attribute) => attribute.name === name)?.type;
+    const tokenized = !!type && type !== "CDATA";
+    if (!tokenized && !/[\t\n\r]/.test(parsed)) continue;
+
+    source ??= written?.() ?? {};
+    let value = normalizeWhitespace(parsed, source[name], true);
+    if (tokenized) value = value.replace(/ +/g, " ").trim();
+    if (value !== parsed) changed[name] = value;
+  }
+  return changed;
+}
+
+/**
+ * Applies the line-ending normalization the XML spec describes to parsed
+ * text (sax leaves it out), and for attribute values the whitespace
+ * normalization too. Only whitespace written literally in the source
+ * changes; whitespace written as character references is kept.
+ * @param value The text as parsed
+ * @param written The text as written in the source, if known. Without it,
+ * all whitespace is taken to be literal.
+ * @param attribute Whether the text is an attribute value
+ * @returns The normalized text
+ */
+export function normalizeWhitespace(
+  value: string,
+  written: string | undefined,
+  attribute: boolean,
+): string {
+  const literal = (text: string) => {
+    text = text.replace(/\r\n?/g, "\n");
+    return attribute ? text.replace(/[\t\n]/g, " ") : text;
+  };
+  if (written === undefined) return literal(value);
+
+  // Match each reference and each run of literal text in the source to
+  // what it became in the parsed value
+  const pattern = /&(#?[^\s&;]+);|[^&]+|&/g;
+  let normalized = "";
+  let index = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(written))) {
+    const [text, reference] = match;
+    const replacement =
+      reference === undefined
+        ? text
+        : reference.startsWith("#")
+          ? decodeCharacters(text)
+          : Object.prototype.hasOwnProperty.call(predefined, reference)
+            ? predefined[reference]
+            : undefined;
+    // Other entities (and anything sax parsed differently) can't be matched
+    // up, so fall back to taking all of the whitespace as literal
+    if (replacement === undefined || !value.startsWith(replacement, index)) {
+      return literal(value);
+    }
+
+    normalized += reference === undefined ? literal(text) : replacement;
+    index += replacement.length;
+  }
+
+  return index === value.length ? normalized : literal(value);
+}
+
+/** Lists the general entity references in an entity value */
+function references(value: string): string[] {
+  return [...value.matchAll(/&([^#\s&;][^\s&;]*);/g)].map((match) => match[1]);
+}
+
+function decodeCharacters(value: string): string {
+  return value.replace(/&#(x[0-9a-fA-F]+|[0-9]+);/g, (_, code: string) =>
+    String.fromCodePoint(
+      code[0] === "x" ? parseInt(code.slice(1), 16) : parseInt(code, 10),
+    ),
+  );
+}
+
+function parseGroup(group: string | undefined): string[] {
+  if (!group?.startsWith("(")) {
+    throw new Error("Invalid DTD: expected a list of values");
+  }
+  return group
+    .slice(1, -1)
+    .split("|")
+    .map((value) => value.trim());
+}
+
+function isQuoted(value: string | undefined): value is string {
+  return !!value && (value[0] === '"' || value[0] === "'");
+}
+
+function unquote(value: string): string {
+  return value.slice(1, -1);
+}
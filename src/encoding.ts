@@ -0,0 +1,56 @@
+/**
+ * Decodes an XML document's bytes
+ * @param bytes The document
+ * @param encoding The encoding to use instead of the detected one
+ * @returns The document text, without a byte order mark
+ * @throws {Error} If the encoding isn't supported
+ */
+export function decodeXml(bytes: Uint8Array, encoding?: string): string {
+  const sniffed = sniffEncoding(bytes);
+  const label = encoding ?? sniffed.encoding;
+
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(label);
+  } catch {
+    throw new Error(`Unsupported encoding "${label}"`);
+  }
+  // The decoder skips a byte order mark for its own encoding
+  return decoder.decode(
+    encoding === undefined ? bytes.subarray(sniffed.bom) : bytes,
+  );
+}
+
+/**
+ * Works out how an XML document's bytes are encoded, from its byte order
+ * mark, the first characters of the document, or the encoding named in its
+ * XML declaration (as XML 1.0 Appendix F describes)
+ * @param bytes The start of the document
+ * @returns The encoding label, and how many bytes the byte order mark takes
+ */
+function sniffEncoding(bytes: Uint8Array): {
+  encoding: string;
+  bom: number;
+} {
+  const [a, b, c, d] = bytes;
+  // Byte order marks
+  if (a === 0xef && b === 0xbb && c === 0xbf) {
+    return { encoding: "utf-8", bom: 3 };
+  }
+  if (a === 0xfe && b === 0xff) return { encoding: "utf-16be", bom: 2 };
+  if (a === 0xff && b === 0xfe) return { encoding: "utf-16le", bom: 2 };
+
+  // "<?" in UTF-16 without a byte order mark
+  if (a === 0x3c && b === 0x00 && c === 0x3f && d === 0x00) {
+    return { encoding: "utf-16le", bom: 0 };
+  }
+  if (a === 0x00 && b === 0x3c && c === 0x00 && d === 0x3f) {
+    return { encoding: "utf-16be", bom: 0 };
+  }
+
+  // Anything else is ASCII-compatible until the declaration ends
+  const start = String.fromCharCode(...bytes.subarray(0, 256));
+  const declared =
+    /^<\?xml\s[^>]*?\bencoding\s*=\s*(["'])([A-Za-z][\w.-]*)\1/.exec(start);
+  return { encoding: declared ? declared[2] : "utf-8", bom: 0 };
+}
@@ -0,0 +1,189 @@
+import type { QualifiedTag, SAXParser, Tag } from "sax";
+
+/**
+ * The kind of problem an XmlParseError reports
+ */
+export type XmlParseErrorCode =
+  | "unclosed-tag"
+  | "mismatched-close-tag"
+  | "invalid-tag-name"
+  | "invalid-attribute"
+  | "invalid-entity"
+  | "entity-expansion-limit"
+  | "unbound-prefix"
+  | "invalid-comment"
+  | "invalid-doctype"
+  | "text-outside-root"
+  | "multiple-roots"
+  | "invalid-character"
+  | "unknown";
+
+// sax only reports errors as messages, so codes are matched by their prefix
+const codes: [string, XmlParseErrorCode][] = [
+  ["Unclosed root tag", "unclosed-tag"],
+  ["Unexpected end", "unclosed-tag"],
+  ["Unexpected close tag", "mismatched-close-tag"],
+  ["Unmatched closing tag", "mismatched-close-tag"],
+  ["Invalid character in tag name", "invalid-tag-name"],
+  ["Invalid tagname in closing tag", "invalid-tag-name"],
+  ["Invalid characters in closing tag", "invalid-tag-name"],
+  ["Weird empty close tag", "invalid-tag-name"],
+  ["Attribute without value", "invalid-attribute"],
+  ["Invalid attribute name", "invalid-attribute"],
+  ["No whitespace between attributes", "invalid-attribute"],
+  ["Unquoted attribute value", "invalid-attribute"],
+  ["Forward-slash in opening tag", "invalid-attribute"],
+  ["Invalid character entity", "invalid-entity"],
+  ["Invalid character in entity name", "invalid-entity"],
+  ["Undefined entity", "invalid-entity"],
+  ["Recursive entity", "invalid-entity"],
+  ["External entity", "invalid-entity"],
+  ["Entity expansion limit", "entity-expansion-limit"],
+  ["Unbound namespace prefix", "unbound-prefix"],
+  ["xml: prefix must be bound", "unbound-prefix"],
+  ["xmlns: prefix must be bound", "unbound-prefix"],
+  ["Malformed comment", "invalid-comment"],
+  ["Inappropriately located doctype", "invalid-doctype"],
+  ["Invalid DTD", "invalid-doctype"],
+  ["Text data outside of root node", "text-outside-root"],
+  ["Non-whitespace before first tag", "text-outside-root"],
+  ["Multiple root elements", "multiple-roots"],
+  ["Unencoded <", "invalid-character"],
+];
+
+// The source each error was parsed from, kept out of the error's own
+// properties so that logging an error doesn't print the whole document
+const sources = new WeakMap<XmlParseError, string>();
+
+/**
+ * An error reporting where and why an XML document couldn't be parsed
+ *
+ * @example
+ * ```ts
+ * try {
+ *   new XmlDocument(config);
+ * } catch (error) {
+ *   if (error instanceof XmlParseError) {
+ *     console.error(`${error.reason} (${error.code})`);
+ *     console.error(error.codeFrame());
+ *   }
+ * }
+ * ```
+ */
+export class XmlParseError extends Error {
+  /** What went wrong, like "Unexpected close tag" */
+  readonly reason: string;
+  /** The kind of problem, like "mismatched-close-tag" */
+  readonly code: XmlParseErrorCode;
+  /** Line number of the problem (starting at 0, like XmlElement.line) */
+  readonly line: number;
+  /** Column number of the problem on its line (starting at 0) */
+  readonly column: number;
+  /** Character position of the problem in the source */
+  readonly position: number;
+  /** Names of the elements open at the problem, outermost first */
+  readonly tagStack: string[];
+
+  /**
+   * Creates a new parse error
+   * @param message The error message
+   * @param details Where and why parsing failed
+   * @param source The XML that was being parsed, if available
+   */
+  constructor(
+    message: string,
+    details: {
+      reason: string;
+      code: XmlParseErrorCode;
+      line: number;
+      column: number;
+      position: number;
+      tagStack: string[];
+    },
+    source?: string,
+  ) {
+    super(message);
+    this.name = "XmlParseError";
+    this.reason = details.reason;
+    this.code = details.code;
+    this.line = details.line;
+    this.column = details.column;
+    this.position = details.position;
+    this.tagStack = details.tagStack;
+    if (source !== undefined) sources.set(this, source);
+  }
+
+  /**
+   * Renders the source lines around the problem, with a caret under it
+   * @param contextLines How many lines to show before and after the problem
+   * @returns The code frame, or an empty string if the source isn't available
+   * (like for errors from XmlStreamReader)
+   */
+  codeFrame(contextLines = 2): string {
+    const source = sources.get(this);
+    if (source === undefined) return "";
+
+    const lines = source.split("\n").map((line) => line.replace(/\r$/, ""));
+    const first = Math.max(0, this.line - contextLines);
+    const last = Math.min(lines.length - 1, this.line + contextLines);
+    const width = String(last + 1).length;
+    const frame: string[] = [];
+
+    for (let i = first; i <= last; i++) {
+      const gutter = String(i + 1).padStart(width);
+      frame.push(`${i === this.line ? ">" : " "} ${gutter} | ${lines[i]}`);
+
+      if (i === this.line) {
+        // Keep tabs so that the caret lines up with the problem
+        const before = lines[i].slice(0, this.column).replace(/[^\t]/g, " ");
+        frame.push(`  ${" ".repeat(width)} | ${before}^`);
+      }
+    }
+
+    return frame.join("\n");
+  }
+}
+
+/**
+ * Wraps an error reported by sax with the parser's location and state
+ * @param error The error sax reported
+ * @param parser The parser that reported it
+ * @param source The XML that was being parsed, if available
+ * @param offset Where the text the parser read starts in the source, when
+ * whitespace was trimmed from around it
+ * @returns The parse error
+ */
+export function toParseError(
+  error: Error,
+  parser: SAXParser,
+  source?: string,
+  offset = 0,
+): XmlParseError {
+  const reason = error.message.split("\n")[0];
+  // sax keeps a stack of open tags, but its types don't declare it
+  const { tags } = parser as SAXParser & { tags: (Tag | QualifiedTag)[] };
+  const code =
+    codes.find(([prefix]) => reason.startsWith(prefix))?.[1] ?? "unknown";
+
+  // Count the lines trimmed from the start of the source, and the columns
+  // trimmed from the start of the parser's first line
+  const trimmed = (source?.slice(0, offset) ?? "").split("\n");
+  const column = Math.max(0, parser.column - 1);
+
+  // sax has already moved past the character that caused the problem
+  return new XmlParseError(
+    error.message,
+    {
+      reason,
+      code,
+      line: parser.line + trimmed.length - 1,
+      column:
+        parser.line === 0
+          ? trimmed[trimmed.length - 1].length + column
+          : column,
+      position: Math.max(0, parser.position - 1) + offset,
+      tagStack: tags.map((tag) => tag.name),
+    },
+    source,
+  );
+}
@@ -0,0 +1,369 @@
+import type { XmlElement } from "./index.js";
+
+/**
+ * A problem found while extracting values from an element
+ */
+export interface XmlExtractIssue {
+  /** Where the value goes in the result, like "author.name" or "tags[2]" */
+  path: string;
+  /** What went wrong, like 'Missing attribute "id"' */
+  message: string;
+  /** Line number of the element the problem was found on (like XmlElement.line) */
+  line: number | null;
+  /** Column number of the element the problem was found on (like XmlElement.column) */
+  column: number | null;
+}
+
+/**
+ * An error listing every missing or invalid value found by extract()
+ */
+export class XmlExtractError extends Error {
+  /** Every problem that was found, in schema order */
+  readonly issues: XmlExtractIssue[];
+
+  /**
+   * Creates a new extraction error
+   * @param issues The problems that were found
+   */
+  constructor(issues: XmlExtractIssue[]) {
+    const lines = issues.map((issue) => {
+      const location =
+        issue.line === null
+          ? ""
+          : ` (line ${issue.line}, column ${issue.column})`;
+      return `  ${issue.path}: ${issue.message}${location}`;
+    });
+    const count =
+      issues.length === 1 ? "1 problem" : `${issues.length} problems`;
+    super(`Could not extract values (${count}):\n${lines.join("\n")}`);
+    this.name = "XmlExtractError";
+    this.issues = issues;
+  }
+}
+
+/** What a field found: a value, nothing, or a problem it already reported */
+type Outcome<T> =
+  | { kind: "value"; value: T; element: XmlElement }
+  | { kind: "missing"; element: XmlElement; what: string }
+  | { kind: "invalid" };
+
+type Reader<T> = (
+  element: XmlElement,
+  path: string,
+  issues: XmlExtractIssue[],
+) => Outcome<T>;
+
+// Kept out of the field's own properties so that only extract() can read it
+const readers = new WeakMap<XmlField<unknown>, Reader<unknown>>();
+
+/**
+ * A declarative description of a value to extract from an element, created
+ * with attr(), text(), one() or many()
+ */
+export class XmlField<T> {
+  /**
+   * Creates a new field
+   * @param reader Reads the field's value from an element
+   */
+  constructor(reader: Reader<T>) {
+    readers.set(this, reader);
+  }
+
+  /**
+   * Converts the value with a function. Errors thrown by the function are
+   * reported as issues.
+   * @param convert Converts the value
+   * @returns The converted field
+   */
+  map<U>(convert: (value: T) => U): XmlField<U> {
+    const read = readerOf(this);
+    return new XmlField<U>((element, path, issues) => {
+      const outcome = read(element, path, issues);
+      if (outcome.kind !== "value") return outcome;
+
+      try {
+        return { ...outcome, value: convert(outcome.value) };
+      } catch (error) {
+        report(issues, path, (error as Error).message, outcome.element);
+        return { kind: "invalid" };
+      }
+    });
+  }
+
+  /**
+   * Parses the value as an integer
+   * @returns The converted field
+   */
+  int(this: XmlField<string>): XmlField<number> {
+    return this.map((value) => {
+      if (!/^\s*[-+]?\d+\s*$/.test(value)) {
+        throw new Error(`Expected an integer but found "${value}"`);
+      }
+      return parseInt(value, 10);
+    });
+  }
+
+  /**
+   * Parses the value as a number
+   * @returns The converted field
+   */
+  number(this: XmlField<string>): XmlField<number> {
+    return this.map((value) => {
+      const number = Number(value);
+      if (!value.trim() || isNaN(number)) {
+        throw new Error(`Expected a number but found "${value}"`);
+      }
+      return number;
+    });
+  }
+
+  /**
+   * Parses the value as a boolean ("true", "false", "1" or "0")
+   * @returns The converted field
+   */
+  boolean(this: XmlField<string>): XmlField<boolean> {
+    return this.map((value) => {
+      const trimmed = value.trim();
+      if (trimmed === "true" || trimmed === "1") return true;
+      if (trimmed === "false" || trimmed === "0") return false;
+      throw new Error(`Expected a boolean but found "${value}"`);
+    });
+  }
+
+  /**
+   * Allows the value to be missing
+   * @returns A field that's undefined when the value is missing
+   */
+  optional(): XmlField<T | undefined> {
+    return this.default(undefined);
+  }
+
+  /**
+   * Uses a fallback when the value is missing
+   * @param fallback The value to use instead
+   * @returns A field that's never missing
+   */
+  default<U>(fallback: U): XmlField<T | U> {
+    const read = readerOf(this);
+    return new XmlField<T | U>((element, path, issues) => {
+      const outcome = read(element, path, issues);
+      if (outcome.kind !== "missing") return outcome;
+      return { kind: "value", value: fallback, element: outcome.element };
+    });
+  }
+}
+
+/**
+ * A description of an object to extract, mapping each key to a field
+ */
+export type XmlSchema = { [key: string]: XmlField<unknown> };
+
+/**
+ * The type of the object extracted with a schema
+ */
+export type XmlExtracted<S extends XmlSchema> = {
+  [K in keyof S]: S[K] extends XmlField<infer T> ? T : never;
+};
+
+/**
+ * The elements matching a many() path, waiting for a description of what to
+ * extract from each
+ */
+export class XmlMany {
+  /**
+   * Creates a new list of elements to extract from
+   * @param path The dot-separated path to the elements
+   */
+  constructor(readonly path: string) {}
+
+  /**
+   * Extracts the text of each element
+   * @param path An optional path to a descendant of each element
+   * @returns The field
+   */
+  text(path?: string): XmlField<string[]> {
+    return many(this.path, text(path));
+  }
+
+  /**
+   * Extracts an attribute of each element
+   * @param name The attribute name
+   * @returns The field
+   */
+  attr(name: string): XmlField<string[]> {
+    return many(this.path, attr(name));
+  }
+}
+
+/**
+ * Extracts typed values from an element
+ * @param element The element to extract from, like a parsed XmlDocument
+ * @param schema The values to extract
+ * @returns An object with a value for each key of the schema
+ * @throws {XmlExtractError} If any values are missing or invalid, listing all
+ * of them
+ * @example
+ * const book = extract(doc, {
+ *   id: attr("id").int(),
+ *   title: text("title"),
+ *   tags: many("tag").text(),
+ *   author: one("author", { name: text("name") }),
+ * });
+ */
+export function extract<S extends XmlSchema>(
+  element: XmlElement,
+  schema: S,
+): XmlExtracted<S> {
+  const issues: XmlExtractIssue[] = [];
+  const result = extractSchema(element, schema, "", issues);
+  if (issues.length) throw new XmlExtractError(issues);
+  return result;
+}
+
+/**
+ * Describes an attribute of the element
+ * @param name The attribute name
+ * @returns The field
+ */
+export function attr(name: string): XmlField<string> {
+  return new XmlField((element) => {
+    if (!Object.prototype.hasOwnProperty.call(element.attr, name)) {
+      return { kind: "missing", element, what: `attribute "${name}"` };
+    }
+    return { kind: "value", value: element.attr[name], element };
+  });
+}
+
+/**
+ * Describes the text of the element or one of its descendants
+ * @param path An optional dot-separated path to a descendant, like
+ * "author.name"
+ * @returns The field
+ */
+export function text(path?: string): XmlField<string> {
+  return new XmlField((element) => {
+    const target = path ? element.descendantWithPath(path) : element;
+    if (!target) return { kind: "missing", element, what: `element "${path}"` };
+    return { kind: "value", value: target.val, element: target };
+  });
+}
+
+/**
+ * Describes an object extracted from a single descendant element
+ * @param path The dot-separated path to the element
+ * @param schema The values to extract from it
+ * @returns The field
+ */
+export function one<S extends XmlSchema>(
+  path: string,
+  schema: S,
+): XmlField<XmlExtracted<S>> {
+  return new XmlField<XmlExtracted<S>>((element, fieldPath, issues) => {
+    const target = element.descendantWithPath(path);
+    if (!target) return { kind: "missing", element, what: `element "${path}"` };
+
+    const count = issues.length;
+    const value = extractSchema(target, schema, fieldPath, issues);
+    if (issues.length > count) return { kind: "invalid" };
+    return { kind: "value", value, element: target };
+  });
+}
+
+/**
+ * Describes a list extracted from every element matching a path. Missing
+ * elements give an empty list.
+ * @param path The dot-separated path to the elements; the last component
+ * names the repeated element
+ * @returns The elements, to describe what to extract from each with text() or
+ * attr()
+ */
+export function many(path: string): XmlMany;
+/**
+ * Describes a list extracted from every element matching a path. Missing
+ * elements give an empty list.
+ * @param path The dot-separated path to the elements; the last component
+ * names the repeated element
+ * @param item What to extract from each element: a field or a schema
+ * @returns The field
+ */
+export function many<T>(path: string, item: XmlField<T>): XmlField<T[]>;
+export function many<S extends XmlSchema>(
+  path: string,
+  item: S,
+): XmlField<XmlExtracted<S>[]>;
+export function many(
+  path: string,
+  item?: XmlField<unknown> | XmlSchema,
+): XmlMany | XmlField<unknown[]> {
+  if (!item) return new XmlMany(path);
+
+  const read: Reader<unknown> =
+    item instanceof XmlField
+      ? readerOf(item)
+      : (element, fieldPath, issues) => {
+          const value = extractSchema(element, item, fieldPath, issues);
+          return { kind: "value", value, element };
+        };
+
+  return new XmlField<unknown[]>((element, fieldPath, issues) => {
+    const count = issues.length;
+    const values = elementsWithPath(element, path).map((target, i) =>
+      resolve(read, target, `${fieldPath}[${i}]`, issues),
+    );
+    if (issues.length > count) return { kind: "invalid" };
+    return { kind: "value", value: values, element };
+  });
+}
+
+function readerOf<T>(field: XmlField<T>): Reader<T> {
+  return readers.get(field) as Reader<T>;
+}
+
+function extractSchema<S extends XmlSchema>(
+  element: XmlElement,
+  schema: S,
+  path: string,
+  issues: XmlExtractIssue[],
+): XmlExtracted<S> {
+  const result: Record<string, unknown> = {};
+
+  for (const key of Object.keys(schema)) {
+    const fieldPath = path ? `${path}.${key}` : key;
+    result[key] = resolve(readerOf(schema[key]), element, fieldPath, issues);
+  }
+
+  return result as XmlExtracted<S>;
+}
+
+/** Reads a field, reporting it if it's missing */
+function resolve(
+  read: Reader<unknown>,
+  element: XmlElement,
+  path: string,
+  issues: XmlExtractIssue[],
+): unknown {
+  const outcome = read(element, path, issues);
+  if (outcome.kind === "missing") {
+    report(issues, path, `Missing ${outcome.what}`, outcome.element);
+  }
+  return outcome.kind === "value" ? outcome.value : undefined;
+}
+
+function report(
+  issues: XmlExtractIssue[],
+  path: string,
+  message: string,
+  element: XmlElement,
+): void {
+  issues.push({ path, message, line: element.line, column: element.column });
+}
+
+/** Finds every element matching a dot-separated path, like "tags.tag" */
+function elementsWithPath(element: XmlElement, path: string): XmlElement[] {
+  const components = path.split(".");
+  const name = components.pop()!;
+  const parent = components.length
+    ? element.descendantWithPath(components.join("."))
+    : element;
+  return parent ? parent.childrenNamed(name) : [];
+}
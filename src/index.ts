@@ -1,5 +1,83 @@
 import sax from "sax";
-import type { SAXParser } from "sax";
+import type { QualifiedTag, SAXParser, Tag } from "sax";
+import { startDocument } from "./builder.js";
+import {
+  canonicalize,
+  setNormalizedAttributes,
+  setNormalizedText,
+} from "./c14n.js";
+import type { XmlCanonicalOptions } from "./c14n.js";
+import { fromObject, toObject } from "./convert.js";
+import type { XmlObjectOptions, XmlObjectValue } from "./convert.js";
+import {
+  DEFAULT_MAX_ENTITY_EXPANSIONS,
+  DEFAULT_MAX_ENTITY_EXPANSION_LENGTH,
+  applyAttributeDefaults,
+  normalizeAttributes,
+  normalizeWhitespace,
+  parseDtd,
+  registerEntities,
+} from "./dtd.js";
+import type { XmlDtd } from "./dtd.js";
+import { decodeXml } from "./encoding.js";
+import { toParseError } from "./errors.js";
+import type { XmlBuilder, XmlBuilderValue } from "./builder.js";
+import { querySelector, querySelectorAll } from "./selector.js";
+import { batch, escapeXML, writeChunks } from "./writer.js";
+import type { XmlWriterTarget } from "./writer.js";
+import { evaluateXPath } from "./xpath.js";
+import type { XPathNode, XPathOptions, XPathResult } from "./xpath.js";
+
+export { XmlBuilder } from "./builder.js";
+export type { XmlBuilderValue } from "./builder.js";
+export type { XmlCanonicalOptions } from "./c14n.js";
+export type {
+  XmlObject,
+  XmlObjectConvention,
+  XmlObjectOptions,
+  XmlObjectValue,
+} from "./convert.js";
+export { applyPatch, diff, toXmlPatch } from "./diff.js";
+export type {
+  XmlAttributeChange,
+  XmlChange,
+  XmlDeleteChange,
+  XmlDiffOptions,
+  XmlInsertChange,
+  XmlMoveChange,
+  XmlTextChange,
+} from "./diff.js";
+export type {
+  XmlDtd,
+  XmlDtdAttribute,
+  XmlDtdElement,
+  XmlDtdEntity,
+} from "./dtd.js";
+export { XmlParseError } from "./errors.js";
+export type { XmlParseErrorCode } from "./errors.js";
+export {
+  XmlExtractError,
+  XmlField,
+  XmlMany,
+  attr,
+  extract,
+  many,
+  one,
+  text,
+} from "./extract.js";
+export type { XmlExtracted, XmlExtractIssue, XmlSchema } from "./extract.js";
+export { XmlWriter } from "./writer.js";
+export type { XmlWriterTarget } from "./writer.js";
+export { XsdSchema } from "./xsd.js";
+export type { XsdViolation } from "./xsd.js";
+export { XsltStylesheet } from "./xslt.js";
+export type { XsltOptions } from "./xslt.js";
+export type {
+  XPathAttribute,
+  XPathNode,
+  XPathOptions,
+  XPathResult,
+} from "./xpath.js";
 
 /**
  * Options for XML string output formatting
@@ -13,14 +91,270 @@ export interface XmlStringOptions {
   preserveWhitespace?: boolean;
   /** Use HTML self-closing tag rules for elements without children */
   html?: boolean;
+  /**
+   * The indentation for each level of nesting: a string, or a number of
+   * spaces (defaults to 2)
+   */
+  indent?: string | number;
+  /** The line ending to use, like "\r\n" (defaults to "\n") */
+  newline?: string;
+  /**
+   * Put each attribute on a line of its own when a start tag would be
+   * longer than this many characters
+   */
+  maxWidth?: number;
+  /** Write attributes sorted by name instead of in their original order */
+  sortAttributes?: boolean;
+  /**
+   * How to write elements without children: "self-closing" like `<a/>` (the
+   * default), "spaced" like `<a />`, or "expanded" like `<a></a>`
+   */
+  emptyElements?: "self-closing" | "spaced" | "expanded";
+  /** The quote character for attribute values (defaults to `"`) */
+  quote?: '"' | "'";
+  /**
+   * Whether documents start with an XML declaration. Pass true to write one
+   * even if the document doesn't have one, or false to leave it out. By
+   * default, only documents that have a declaration write it.
+   */
+  declaration?: boolean;
+  /** End the output with a line ending */
+  trailingNewline?: boolean;
+  /**
+   * Write nodes exactly as they appeared in the source. Defaults to true for
+   * documents parsed with the `preserveFormatting` option; pass false to
+   * pretty-print them instead.
+   */
+  preserveFormatting?: boolean;
+}
+
+/**
+ * Options for normalize() and isEqualNode(). Adjacent text nodes are always
+ * merged.
+ */
+export interface XmlNormalizeOptions {
+  /**
+   * How to handle whitespace in text: "keep" it as is (the default), "drop"
+   * text that is only whitespace, or "normalize" each run of whitespace to a
+   * single space
+   */
+  whitespace?: "keep" | "drop" | "normalize";
+  /** Keep comments (defaults to true) */
+  comments?: boolean;
+  /**
+   * Keep CDATA sections (defaults to true). Pass false to turn them into
+   * text, merged with the text around them.
+   */
+  cdata?: boolean;
+}
+
+/**
+ * What a walk() callback can return: "skip" to leave out the node's
+ * children, or "stop" to end the walk. Anything else carries on.
+ */
+export type XmlWalkSignal = "skip" | "stop" | void;
+
+/**
+ * Callbacks for entering and leaving nodes during walk()
+ */
+export interface XmlVisitorHooks<T extends XmlNodeBase> {
+  /** Called before the node's children are visited */
+  enter?(node: T): XmlWalkSignal;
+  /** Called after the node's children are visited, even if they were skipped */
+  leave?(node: T): XmlWalkSignal;
+}
+
+/**
+ * Callbacks for walk(). The `enter` and `leave` callbacks are called for
+ * every node; the others only for nodes of their type, either as enter and
+ * leave callbacks or as a single function called on entering.
+ */
+export interface XmlVisitor extends XmlVisitorHooks<XmlNodeBase> {
+  element?: XmlVisitorHooks<XmlElement> | XmlVisitorHooks<XmlElement>["enter"];
+  text?: XmlVisitorHooks<XmlTextNode> | XmlVisitorHooks<XmlTextNode>["enter"];
+  cdata?:
+    | XmlVisitorHooks<XmlCDataNode>
+    | XmlVisitorHooks<XmlCDataNode>["enter"];
+  comment?:
+    | XmlVisitorHooks<XmlCommentNode>
+    | XmlVisitorHooks<XmlCommentNode>["enter"];
+  processinginstruction?:
+    | XmlVisitorHooks<XmlProcessingInstructionNode>
+    | XmlVisitorHooks<XmlProcessingInstructionNode>["enter"];
+}
+
+/**
+ * Options for descendants() and nodes()
+ */
+export interface XmlTraversalOptions {
+  /**
+   * Visit each node's descendants before its next sibling ("depth-first",
+   * the default, which is document order), or every node at one depth
+   * before any deeper ones ("breadth-first")
+   */
+  order?: "depth-first" | "breadth-first";
+}
+
+/**
+ * Options for parsing an XML document
+ */
+export interface XmlDocumentOptions {
+  /**
+   * Resolve namespaces while parsing, so that each element has a
+   * `namespaceURI` and unbound prefixes are reported as errors
+   */
+  xmlns?: boolean;
+  /**
+   * Record the original whitespace, attribute quoting, empty element style
+   * and entity spelling, so the document can be written back out unchanged
+   */
+  preserveFormatting?: boolean;
+  /**
+   * How many entity references declared in the document's DTD can be
+   * expanded, counting references nested in entity values (defaults to
+   * 10000). Parsing fails once the limit is exceeded, which guards against
+   * "billion laughs" documents.
+   */
+  maxEntityExpansions?: number;
+  /**
+   * How many characters entity references declared in the document's DTD
+   * can expand to in total (defaults to 1000000). Parsing fails once the
+   * limit is exceeded, which guards against documents that repeat a large
+   * entity many times.
+   */
+  maxEntityExpansionLength?: number;
+  /**
+   * Parse strictly as XML (the default). Pass false for lenient, HTML-ish
+   * parsing that tolerates unquoted attributes, unclosed tags and the like;
+   * tag and attribute names are then uppercased unless `lowercase` is set.
+   */
+  strict?: boolean;
+  /** Lowercase tag and attribute names */
+  lowercase?: boolean;
+  /**
+   * How to handle whitespace in text: "keep" it as is (the default), "drop"
+   * text nodes that are only whitespace, or "normalize" each run of
+   * whitespace to a single space
+   */
+  whitespace?: "keep" | "drop" | "normalize";
+  /**
+   * Normalize attribute values as the XML spec describes: tabs and line
+   * breaks become spaces (unless written as character references), and
+   * values of attributes the DTD declares with a type other than CDATA are
+   * also trimmed and have their spaces collapsed
+   */
+  normalizeAttributes?: boolean;
+  /**
+   * Record each element's `line`, `column` and positions, and each node's
+   * source `range` (defaults to true)
+   */
+  positions?: boolean;
+  /**
+   * Keep comments as XmlCommentNodes (defaults to true). Without them, the
+   * text on either side of a comment becomes one text node.
+   */
+  comments?: boolean;
+  /**
+   * Keep CDATA sections as XmlCDataNodes (defaults to true). Pass false to
+   * merge their content into the surrounding text.
+   */
+  cdata?: boolean;
+}
+
+/**
+ * A tag name and attributes as reported by the parser
+ */
+export interface XmlTag {
+  /** The tag name, like "soap:Envelope" */
+  name: string;
+  /** The tag's attributes, keyed by qualified name */
+  attributes: Record<string, string>;
+  /** The resolved namespace URI of the tag (namespace mode only) */
+  uri?: string;
+  /** The namespace bindings in scope for the tag, keyed by prefix (namespace mode only) */
+  ns?: Record<string, string>;
+}
+
+/**
+ * A namespace-qualified name, used to match elements regardless of the
+ * prefix a producer chose for the namespace
+ */
+export interface XmlQualifiedName {
+  /** The namespace URI, like "http://schemas.xmlsoap.org/soap/envelope/" */
+  uri: string;
+  /** The local name, like "Envelope" */
+  local: string;
+}
+
+/**
+ * The XML declaration at the start of a document, like
+ * `<?xml version="1.0" encoding="UTF-8"?>`
+ */
+export interface XmlDeclaration {
+  /** The XML version, like "1.0" */
+  version: string;
+  /** The declared encoding, like "UTF-8", or null if not given */
+  encoding: string | null;
+  /** The declared standalone status, or null if not given */
+  standalone: boolean | null;
+}
+
+/**
+ * A point in the source a document was parsed from
+ */
+export interface XmlSourceLocation {
+  /** The character offset into the source */
+  offset: number;
+  /** The line number, counting from 0 like XmlElement.line */
+  line: number;
+  /** The column number, counting from 0 */
+  column: number;
+}
+
+/**
+ * A stretch of the source a document was parsed from. The end is exclusive.
+ */
+export interface XmlSourceRange {
+  /** Where the stretch starts */
+  start: XmlSourceLocation;
+  /** Where the stretch ends, just past its last character */
+  end: XmlSourceLocation;
+}
+
+/**
+ * Where an element was in its source, from the start of its start tag to the
+ * end of its end tag
+ */
+export interface XmlElementRange extends XmlSourceRange {
+  /** The start tag, like `<book id="1">` */
+  startTag: XmlSourceRange;
+  /** The end tag, like `</book>`, or null for an empty element tag */
+  endTag: XmlSourceRange | null;
+  /** Everything between the tags, or null for an empty element tag */
+  content: XmlSourceRange | null;
+}
+
+/**
+ * Where an attribute was in its element's start tag
+ */
+export interface XmlAttributeRange {
+  /** The attribute name */
+  name: XmlSourceRange;
+  /** The attribute value, not including its quotes */
+  value: XmlSourceRange;
 }
 
 /**
  * Base interface for all XML node types
  */
 export interface XmlNodeBase {
-  /** The type of node (element, text, cdata, comment) */
+  /** The type of node (element, text, cdata, comment, processinginstruction) */
   type: string;
+  /**
+   * Where the node was in the source it was parsed from, or null if it
+   * wasn't parsed from a string
+   */
+  range: XmlSourceRange | null;
   /**
    * Converts the node to a string representation
    * @param options Formatting options
@@ -34,29 +368,122 @@ export interface XmlNodeBase {
    * @returns String representation of the node with indentation
    */
   toStringWithIndent(indent: string, options?: XmlStringOptions): string;
+  /** The element containing this node, or null if it isn't in a tree */
+  parent: XmlElement | null;
+  /** The node before this one in its parent's children, or null */
+  previousSibling: XmlNodeBase | null;
+  /** The node after this one in its parent's children, or null */
+  nextSibling: XmlNodeBase | null;
+  /** The document at the top of this node's tree, or null if there is none */
+  readonly ownerDocument: XmlDocument | null;
+  /**
+   * Gets the elements containing this node
+   * @returns The ancestors of this node, nearest first
+   */
+  ancestors(): XmlElement[];
+  /**
+   * Finds the nearest element with the given name, starting with this node
+   * @param name The element name to find
+   * @returns The nearest matching element, or undefined if there is none
+   */
+  closest(name: string): XmlElement | undefined;
+  /**
+   * Removes this node from its parent element, if it has one
+   */
+  remove(): void;
+  /**
+   * Replaces this node in its parent element with the given nodes
+   * @param nodes The nodes to put in this node's place
+   */
+  replaceWith(...nodes: XmlNodeBase[]): void;
 }
 
-// Interface for sax parser events handlers
+// Interface for sax parser events handlers. Each parse keeps its own stack of
+// delegates, with the one receiving events at the front.
 interface XmlDelegate {
-  _opentag(tag: { name: string; attributes: Record<string, string> }): void;
+  /** Returns a new delegate to receive events until the tag closes, if any */
+  _opentag(tag: XmlTag, parser: SAXParser): XmlDelegate | void;
   _closetag(): void;
-  _text(text: string): void;
-  _cdata(cdata: string): void;
-  _comment(comment: string): void;
+  _text(text: string): XmlNodeBase | void;
+  _cdata(cdata: string): XmlNodeBase | void;
+  _comment(comment: string): XmlNodeBase | void;
+  _processinginstruction(target: string, data: string): XmlNodeBase | void;
   _error(err: Error): void;
 }
 
+/**
+ * The links and tree methods shared by the nodes that can't have children:
+ * text, CDATA, comments and processing instructions
+ */
+export abstract class XmlLeafNode implements XmlNodeBase {
+  abstract readonly type: string;
+
+  /** The element containing this node, or null if it isn't in a tree */
+  parent: XmlElement | null = null;
+  /** The node before this one in its parent's children, or null */
+  previousSibling: XmlNodeBase | null = null;
+  /** The node after this one in its parent's children, or null */
+  nextSibling: XmlNodeBase | null = null;
+  /** Where the node was in the source it was parsed from, or null */
+  range: XmlSourceRange | null = null;
+
+  abstract toString(options?: XmlStringOptions): string;
+  abstract toStringWithIndent(
+    indent: string,
+    options?: XmlStringOptions,
+  ): string;
+
+  /**
+   * Removes this node from its parent element, if it has one
+   */
+  remove(): void {
+    removeNode(this);
+  }
+
+  /**
+   * Replaces this node in its parent element with the given nodes
+   * @param nodes The nodes to put in this node's place
+   */
+  replaceWith(...nodes: XmlNodeBase[]): void {
+    replaceNode(this, nodes);
+  }
+
+  /** The document at the top of this node's tree, or null if there is none */
+  get ownerDocument(): XmlDocument | null {
+    return ownerDocument(this);
+  }
+
+  /**
+   * Gets the elements containing this node
+   * @returns The ancestors of this node, nearest first
+   */
+  ancestors(): XmlElement[] {
+    return ancestors(this);
+  }
+
+  /**
+   * Finds the nearest ancestor element with the given name
+   * @param name The element name to find
+   * @returns The nearest matching ancestor, or undefined if there is none
+   */
+  closest(name: string): XmlElement | undefined {
+    return ancestors(this).find((ancestor) => ancestor.name === name);
+  }
+}
+
 /**
  * Represents a text node in an XML document
  */
-export class XmlTextNode implements XmlNodeBase {
+export class XmlTextNode extends XmlLeafNode {
   readonly type = "text";
 
   /**
    * Creates a new text node
    * @param text The text content
    */
-  constructor(public text: string) {}
+  constructor(public text: string) {
+    super();
+  }
 
   /**
    * Converts the text node to a string
@@ -64,6 +491,9 @@ export class XmlTextNode implements XmlNodeBase {
    * @returns String representation of the text node
    */
   toString(options?: XmlStringOptions): string {
+    if (options?.preserveFormatting ?? formats.has(this)) {
+      return preservedString(this);
+    }
     return formatText(escapeXML(this.text), options);
   }
 
@@ -81,14 +511,16 @@ export class XmlTextNode implements XmlNodeBase {
 /**
  * Represents a CDATA node in an XML document
  */
-export class XmlCDataNode implements XmlNodeBase {
+export class XmlCDataNode extends XmlLeafNode {
   readonly type = "cdata";
 
   /**
    * Creates a new CDATA node
    * @param cdata The CDATA content
    */
-  constructor(public cdata: string) {}
+  constructor(public cdata: string) {
+    super();
+  }
 
   /**
    * Converts the CDATA node to a string
@@ -113,14 +545,16 @@ export class XmlCDataNode implements XmlNodeBase {
 /**
  * Represents a comment node in an XML document
  */
-export class XmlCommentNode implements XmlNodeBase {
+export class XmlCommentNode extends XmlLeafNode {
   readonly type = "comment";
 
   /**
    * Creates a new comment node
    * @param comment The comment content
    */
-  constructor(public comment: string) {}
+  constructor(public comment: string) {
+    super();
+  }
 
   /**
    * Converts the comment node to a string
@@ -142,6 +576,42 @@ export class XmlCommentNode implements XmlNodeBase {
   }
 }
 
+/**
+ * Represents a processing instruction, like `<?xml-stylesheet href="..."?>`
+ */
+export class XmlProcessingInstructionNode extends XmlLeafNode {
+  readonly type = "processinginstruction";
+
+  /**
+   * Creates a new processing instruction node
+   * @param target The instruction's target, like "xml-stylesheet"
+   * @param data The rest of the instruction, like 'href="style.xsl"'
+   */
+  constructor(
+    public target: string,
+    public data: string,
+  ) {
+    super();
+  }
+
+  /**
+   * Converts the processing instruction to a string
+   * @returns String representation of the processing instruction
+   */
+  toString(): string {
+    return `<?${this.target}${this.data ? ` ${this.data}` : ""}?>`;
+  }
+
+  /**
+   * Converts the processing instruction to a string with indentation
+   * @param indent The indentation to use
+   * @returns String representation of the processing instruction with indentation
+   */
+  toStringWithIndent(indent: string): string {
+    return indent + this.toString();
+  }
+}
+
 /**
  * Represents an XML element node with children
  */
@@ -159,6 +629,29 @@ export class XmlElement implements XmlNodeBase, XmlDelegate {
   firstChild: XmlNodeBase | null;
   /** The last child node, or null if no children */
   lastChild: XmlNodeBase | null;
+  /** The element containing this element, or null if it isn't in a tree */
+  parent: XmlElement | null;
+  /** The node before this one in its parent's children, or null */
+  previousSibling: XmlNodeBase | null;
+  /** The node after this one in its parent's children, or null */
+  nextSibling: XmlNodeBase | null;
+  /** Where the element was in the source it was parsed from, or null */
+  range: XmlElementRange | null;
+  /**
+   * Where each attribute written in the start tag was in the source, keyed
+   * like attr, or null if the element wasn't parsed from a string
+   */
+  attrRanges: Record<string, XmlAttributeRange> | null;
+  /**
+   * The namespace URI of the element, or null if it has none. Only resolved
+   * for documents parsed with the `xmlns` option.
+   */
+  namespaceURI: string | null;
+  /**
+   * The namespace bindings in scope for the element, keyed by prefix ("" for
+   * the default namespace), or null if parsed without the `xmlns` option
+   */
+  namespaces: Record<string, string> | null;
 
   /** Line number of the element in the original XML */
   line: number | null;
@@ -172,27 +665,23 @@ export class XmlElement implements XmlNodeBase, XmlDelegate {
   /**
    * Creates a new XML element
    * @param tag The tag name and attributes
-   * @param parser Optional SAX parser instance with position information
+   * @param parser Optional SAX parser instance to take position information
+   * from, for an element that is being parsed
    */
-  constructor(
-    tag: { name: string; attributes: Record<string, string> },
-    parser?: SAXParser,
-  ) {
-    // If you didn't hand us a parser (common case) see if we can grab one
-    // from the current execution stack.
-    if (!parser && delegates.length) {
-      var delegate = delegates[delegates.length - 1];
-
-      if ("parser" in delegate) {
-        parser = delegate.parser;
-      }
-    }
+  constructor(tag: XmlTag, parser?: SAXParser | null) {
     this.name = tag.name;
     this.attr = tag.attributes;
     this.val = "";
     this.children = [];
     this.firstChild = null;
     this.lastChild = null;
+    this.parent = null;
+    this.previousSibling = null;
+    this.nextSibling = null;
+    this.namespaceURI = tag.uri || null;
+    this.namespaces = tag.ns ?? null;
+    this.range = null;
+    this.attrRanges = null;
 
     // Assign parse information
     this.line = parser ? parser.line : null;
@@ -201,6 +690,17 @@ export class XmlElement implements XmlNodeBase, XmlDelegate {
     this.startTagPosition = parser ? parser.startTagPosition : null;
   }
 
+  /** The local part of the name, like "Envelope" for <soap:Envelope> */
+  get localName(): string {
+    return this.name.slice(this.name.indexOf(":") + 1);
+  }
+
+  /** The namespace prefix, like "soap" for <soap:Envelope>, or null if none */
+  get prefix(): string | null {
+    const colon = this.name.indexOf(":");
+    return colon === -1 ? null : this.name.slice(0, colon);
+  }
+
   /**
    * Adds a child node to this element
    * @param child The child node to add
@@ -209,39 +709,329 @@ export class XmlElement implements XmlNodeBase, XmlDelegate {
     // add to our children array
     this.children.push(child);
 
+    // link the child into the tree
+    child.parent = this;
+    child.previousSibling = this.lastChild;
+    if (this.lastChild) this.lastChild.nextSibling = child;
+
     // update first/last pointers
     if (!this.firstChild) this.firstChild = child;
     this.lastChild = child;
   }
 
-  _opentag(tag: { name: string; attributes: Record<string, string> }): void {
-    const child = new XmlElement(tag);
-    this._addChild(child);
-    delegates.unshift(child);
+  /**
+   * Updates the cached firstChild, lastChild, val and child links after the
+   * children array has been modified
+   */
+  protected _childrenChanged(): void {
+    this.firstChild = this.children[0] ?? null;
+    this.lastChild = this.children[this.children.length - 1] ?? null;
+    this.val = "";
+
+    for (let i = 0, l = this.children.length; i < l; i++) {
+      const child = this.children[i];
+      child.parent = this;
+      child.previousSibling = this.children[i - 1] ?? null;
+      child.nextSibling = this.children[i + 1] ?? null;
+
+      if (child.type === "text") this.val += (child as XmlTextNode).text;
+      if (child.type === "cdata") this.val += (child as XmlCDataNode).cdata;
+    }
   }
 
-  _closetag(): void {
-    delegates.shift();
+  /**
+   * Inserts a child node at the given index, moving it from its current
+   * parent if it has one
+   * @param child The node to insert
+   * @param index The index to insert the node at
+   */
+  private _insertChild(child: XmlNodeBase, index: number): void {
+    for (
+      let ancestor: XmlElement | null = this;
+      ancestor;
+      ancestor = ancestor.parent
+    ) {
+      if (ancestor === child) {
+        throw new Error("Cannot insert an element into its own subtree");
+      }
+    }
+
+    const previousParent = child.parent;
+    if (previousParent) {
+      // Account for the node moving out from under the insertion point
+      const current =
+        previousParent === this ? this.children.indexOf(child) : -1;
+      if (current !== -1 && current < index) index--;
+      previousParent.removeChild(child);
+    }
+
+    this.children.splice(index, 0, child);
+
+    // Link the child to its new neighbours
+    const previous = this.children[index - 1] ?? null;
+    const next = this.children[index + 1] ?? null;
+    child.parent = this;
+    child.previousSibling = previous;
+    child.nextSibling = next;
+    if (previous) previous.nextSibling = child;
+    else this.firstChild = child;
+    if (next) next.previousSibling = child;
+    else this.lastChild = child;
+
+    // Text added at the end extends val; anywhere else, val is rebuilt
+    if (child.type === "text" || child.type === "cdata") {
+      if (next) this._childrenChanged();
+      else if (child.type === "text") this.val += (child as XmlTextNode).text;
+      else this.val += (child as XmlCDataNode).cdata;
+    }
+  }
+
+  /**
+   * Finds the index of a child node
+   * @param child The child node to find
+   * @returns The index of the child in the children array
+   * @throws {Error} If the node is not a child of this element
+   */
+  private _indexOfChild(child: XmlNodeBase): number {
+    const index = this.children.indexOf(child);
+    if (index === -1) {
+      throw new Error("The given node is not a child of this element");
+    }
+    return index;
+  }
+
+  _opentag(tag: XmlTag, parser: SAXParser): XmlDelegate | void {
+    const child = new XmlElement(tag, parser);
+    this._addChild(child);
+    return child;
   }
 
-  _text(text: string): void {
+  // The parse pops this element off its delegate stack
+  _closetag(): void {}
+
+  _text(text: string): XmlNodeBase | void {
+    const node = new XmlTextNode(text);
     this.val += text;
-    this._addChild(new XmlTextNode(text));
+    this._addChild(node);
+    return node;
   }
 
-  _cdata(cdata: string): void {
+  _cdata(cdata: string): XmlNodeBase | void {
+    const node = new XmlCDataNode(cdata);
     this.val += cdata;
-    this._addChild(new XmlCDataNode(cdata));
+    this._addChild(node);
+    return node;
+  }
+
+  _comment(comment: string): XmlNodeBase | void {
+    const node = new XmlCommentNode(comment);
+    this._addChild(node);
+    return node;
   }
 
-  _comment(comment: string): void {
-    this._addChild(new XmlCommentNode(comment));
+  _processinginstruction(target: string, data: string): XmlNodeBase | void {
+    const node = new XmlProcessingInstructionNode(target, data);
+    this._addChild(node);
+    return node;
   }
 
   _error(err: Error): void {
     throw err;
   }
 
+  /**
+   * Appends a node as the last child of this element. A node that is already
+   * in a tree is moved.
+   * @param child The node to append
+   * @returns The appended node
+   */
+  appendChild<T extends XmlNodeBase>(child: T): T {
+    this._insertChild(child, this.children.length);
+    return child;
+  }
+
+  /**
+   * Inserts a node before one of this element's children. A node that is
+   * already in a tree is moved.
+   * @param child The node to insert
+   * @param reference The child to insert before, or null to append
+   * @returns The inserted node
+   * @throws {Error} If the reference node is not a child of this element
+   */
+  insertBefore<T extends XmlNodeBase>(
+    child: T,
+    reference: XmlNodeBase | null,
+  ): T {
+    const index = reference
+      ? this._indexOfChild(reference)
+      : this.children.length;
+    this._insertChild(child, index);
+    return child;
+  }
+
+  /**
+   * Inserts a node after one of this element's children. A node that is
+   * already in a tree is moved.
+   * @param child The node to insert
+   * @param reference The child to insert after
+   * @returns The inserted node
+   * @throws {Error} If the reference node is not a child of this element
+   */
+  insertAfter<T extends XmlNodeBase>(child: T, reference: XmlNodeBase): T {
+    this._insertChild(child, this._indexOfChild(reference) + 1);
+    return child;
+  }
+
+  /**
+   * Removes a child node from this element
+   * @param child The child node to remove
+   * @returns The removed node
+   * @throws {Error} If the node is not a child of this element
+   */
+  removeChild<T extends XmlNodeBase>(child: T): T {
+    this.children.splice(this._indexOfChild(child), 1);
+
+    // Link the child's neighbours to each other
+    const { previousSibling: previous, nextSibling: next } = child;
+    if (previous) previous.nextSibling = next;
+    else this.firstChild = next;
+    if (next) next.previousSibling = previous;
+    else this.lastChild = previous;
+    detachNode(child);
+
+    if (child.type === "text" || child.type === "cdata") {
+      this._childrenChanged();
+    }
+    return child;
+  }
+
+  /**
+   * Removes this element from its parent element, if it has one
+   */
+  remove(): void {
+    removeNode(this);
+  }
+
+  /**
+   * Replaces this element in its parent element with the given nodes
+   * @param nodes The nodes to put in this element's place
+   */
+  replaceWith(...nodes: XmlNodeBase[]): void {
+    replaceNode(this, nodes);
+  }
+
+  /** The document at the top of this element's tree, or null if there is none */
+  get ownerDocument(): XmlDocument | null {
+    return ownerDocument(this);
+  }
+
+  /**
+   * Gets the elements containing this element
+   * @returns The ancestors of this element, nearest first
+   */
+  ancestors(): XmlElement[] {
+    return ancestors(this);
+  }
+
+  /**
+   * Finds the nearest element with the given name, starting with this
+   * element itself and moving up through its ancestors
+   * @param name The element name to find
+   * @returns The nearest matching element, or undefined if there is none
+   * @example
+   * // For XML: <book><author><name>John</name></author></book>
+   * nameNode.closest("book") // returns the <book> element
+   */
+  closest(name: string): XmlElement | undefined {
+    if (this.name === name) return this;
+    return ancestors(this).find((ancestor) => ancestor.name === name);
+  }
+
+  /**
+   * Sets the value of an attribute, adding it if it doesn't exist
+   * @param name The attribute name
+   * @param value The attribute value
+   */
+  setAttribute(name: string, value: string): void {
+    this.attr[name] = String(value);
+  }
+
+  /**
+   * Removes an attribute, if it exists
+   * @param name The attribute name
+   */
+  removeAttribute(name: string): void {
+    delete this.attr[name];
+  }
+
+  /**
+   * Replaces all of this element's children with a single text node
+   * @param text The new text content; an empty string removes all children
+   * @example
+   * // For XML: <greeting>Hello <b>there</b></greeting>
+   * greetingNode.setText("Goodbye") // <greeting>Goodbye</greeting>
+   */
+  setText(text: string): void {
+    for (const child of this.children) detachNode(child);
+    this.children.splice(
+      0,
+      this.children.length,
+      ...(text ? [new XmlTextNode(text)] : []),
+    );
+    this._childrenChanged();
+  }
+
+  /**
+   * Tidies up this element and its descendants: merges adjacent text nodes,
+   * and drops whitespace, comments and CDATA sections as the options say
+   * @param options What to drop besides empty text
+   * @example
+   * // For XML: <a>\n  <!-- note -->\n  <b>x<![CDATA[y]]></b>\n</a>
+   * aNode.normalize({ whitespace: "drop", comments: false, cdata: false })
+   * // <a><b>xy</b></a>, with <b> as firstChild
+   */
+  normalize(options: XmlNormalizeOptions = {}): void {
+    const children = normalizedChildren(this, options);
+    const kept = new Set(children);
+    for (const child of this.children) {
+      if (!kept.has(child)) detachNode(child);
+    }
+    this.children.splice(0, this.children.length, ...children);
+    this._childrenChanged();
+
+    for (const child of children) {
+      if (child instanceof XmlElement) child.normalize(options);
+    }
+  }
+
+  /**
+   * Checks whether another element has the same name, attributes and
+   * content as this one. Attribute order doesn't matter, and content is
+   * compared as if both elements were normalized with the given options.
+   * @param other The node to compare with
+   * @param options What to ignore besides how text is split into nodes
+   * @returns True if the nodes are equal
+   * @example
+   * new XmlDocument('<a x="1" y="2"><![CDATA[<]]></a>').isEqualNode(
+   *   new XmlDocument('<a y="2" x="1">&lt;</a>'),
+   *   { cdata: false },
+   * ) // returns true
+   */
+  isEqualNode(
+    other: XmlNodeBase | null,
+    options: XmlNormalizeOptions = {},
+  ): boolean {
+    return other instanceof XmlElement && equalElements(this, other, options);
+  }
+
+  /**
+   * Iterates over this element's child nodes of every type, so that
+   * `for (const child of element)` works
+   */
+  [Symbol.iterator](): Iterator<XmlNodeBase> {
+    return this.children.values();
+  }
+
   /**
    * Iterates through each child element of this node
    * @param iterator Function to call for each child element
@@ -341,7 +1131,128 @@ export class XmlElement implements XmlNodeBase, XmlDelegate {
   }
 
   /**
-   * Finds a descendant element using a dot-notation path
+   * Visits this element and everything inside it in document order, calling
+   * the visitor's callbacks on entering and leaving each node. Each
+   * element's children are read when it's entered, so callbacks can change
+   * the nodes they've been given.
+   * @param visitor The callbacks to call
+   * @example
+   * element.walk({
+   *   element: (child) => (child.name === "script" ? "skip" : undefined),
+   *   text: (text) => console.log(text.text),
+   * });
+   */
+  walk(visitor: XmlVisitor): void {
+    walkNode(this, visitor);
+  }
+
+  /**
+   * Iterates over the nodes inside this element, of every type
+   * @param options The order to visit them in (document order by default)
+   * @returns A generator of the descendant nodes
+   */
+  *nodes(options: XmlTraversalOptions = {}): Generator<XmlNodeBase> {
+    yield* descendantNodes(this, options);
+  }
+
+  /**
+   * Iterates over the elements inside this element
+   * @param options The order to visit them in (document order by default)
+   * @returns A generator of the descendant elements
+   */
+  *descendants(options: XmlTraversalOptions = {}): Generator<XmlElement> {
+    for (const node of descendantNodes(this, options)) {
+      if (node instanceof XmlElement) yield node;
+    }
+  }
+
+  /**
+   * Looks up the namespace URI bound to a prefix in this element's scope.
+   * Requires a document parsed with the `xmlns` option.
+   * @param prefix The prefix to look up, or null for the default namespace
+   * @returns The namespace URI, or null if the prefix is not bound
+   */
+  lookupNamespaceURI(prefix: string | null): string | null {
+    return this.namespaces?.[prefix ?? ""] || null;
+  }
+
+  /**
+   * Looks up a prefix bound to a namespace URI in this element's scope.
+   * Requires a document parsed with the `xmlns` option.
+   * @param uri The namespace URI to look up
+   * @returns The innermost prefix bound to the URI, or null if there is none
+   */
+  lookupPrefix(uri: string): string | null {
+    if (!this.namespaces || !uri) return null;
+
+    // Walks inherited bindings too; checking the resolved value skips any
+    // prefix that was rebound to a different URI further in.
+    for (const prefix in this.namespaces) {
+      if (prefix && this.namespaces[prefix] === uri) return prefix;
+    }
+
+    return null;
+  }
+
+  /**
+   * Finds the first child element with the given namespace URI and local name
+   * @param name The namespace URI and local name to match
+   * @returns The first matching child element, or undefined if not found
+   * @example
+   * // For XML: <s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/"><s:Body/></s:Envelope>
+   * envelope.childNamedNS({ uri: "http://schemas.xmlsoap.org/soap/envelope/", local: "Body" })
+   */
+  childNamedNS(name: XmlQualifiedName): XmlElement | undefined {
+    for (let i = 0, l = this.children.length; i < l; i++) {
+      const child = this.children[i];
+      if (child.type === "element" && matchesNS(child as XmlElement, name)) {
+        return child as XmlElement;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Finds all child elements with the given namespace URI and local name
+   * @param name The namespace URI and local name to match
+   * @returns Array of matching child elements
+   */
+  childrenNamedNS(name: XmlQualifiedName): XmlElement[] {
+    const matches: XmlElement[] = [];
+
+    for (let i = 0, l = this.children.length; i < l; i++) {
+      const child = this.children[i];
+      if (child.type === "element" && matchesNS(child as XmlElement, name)) {
+        matches.push(child as XmlElement);
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Finds all descendant elements with the given namespace URI and local
+   * name, searching recursively
+   * @param name The namespace URI and local name to match
+   * @returns Array of matching descendant elements
+   */
+  descendantsNamedNS(name: XmlQualifiedName): XmlElement[] {
+    const matches: XmlElement[] = [];
+
+    for (let i = 0, l = this.children.length; i < l; i++) {
+      const child = this.children[i];
+      if (child.type === "element") {
+        const element = child as XmlElement;
+        if (matchesNS(element, name)) matches.push(element);
+        matches.push(...element.descendantsNamedNS(name));
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Finds a descendant element using a dot-notation path
    * @param path The path to the descendant, e.g. "author.name"
    * @returns The matching descendant element, or undefined if not found
    * @example
@@ -386,12 +1297,159 @@ export class XmlElement implements XmlNodeBase, XmlDelegate {
   }
 
   /**
-   * Converts the element to a string representation
+   * Selects nodes using an XPath 1.0 expression, with this element as the
+   * context node
+   * @param expression The XPath expression, e.g. "book[@lang='en']/title"
+   * @param options Optional variable and namespace prefix bindings
+   * @returns The matching nodes in document order
+   * @throws {Error} If the expression is invalid or doesn't select nodes
+   * @example
+   * // For XML: <books><book id="1"/><book id="2"/></books>
+   * booksNode.select("book[@id > 1]") // returns the second <book> element
+   */
+  select<T extends XPathNode = XPathNode>(
+    expression: string,
+    options?: XPathOptions,
+  ): T[] {
+    const result = evaluateXPath(expression, this, options);
+
+    if (!Array.isArray(result)) {
+      throw new Error(
+        `XPath expression "${expression}" does not select nodes; use evaluate() instead`,
+      );
+    }
+
+    return result as T[];
+  }
+
+  /**
+   * Selects the first node matching an XPath 1.0 expression
+   * @param expression The XPath expression, e.g. "//author[1]"
+   * @param options Optional variable and namespace prefix bindings
+   * @returns The first matching node in document order, or undefined
+   * @throws {Error} If the expression is invalid or doesn't select nodes
+   */
+  selectOne<T extends XPathNode = XPathNode>(
+    expression: string,
+    options?: XPathOptions,
+  ): T | undefined {
+    return this.select<T>(expression, options)[0];
+  }
+
+  /**
+   * Evaluates an XPath 1.0 expression of any result type
+   * @param expression The XPath expression, e.g. "count(book)"
+   * @param options Optional variable and namespace prefix bindings
+   * @returns A node array, string, number or boolean, depending on the expression
+   * @throws {Error} If the expression is invalid
+   * @example
+   * // For XML: <books><book price="5"/><book price="7"/></books>
+   * booksNode.evaluate("sum(book/@price)") // returns 12
+   */
+  evaluate(expression: string, options?: XPathOptions): XPathResult {
+    return evaluateXPath(expression, this, options);
+  }
+
+  /**
+   * Finds the first descendant element matching a CSS selector
+   * @param selector The CSS selector, e.g. "book[lang=en] > title"
+   * @returns The first matching element in document order, or undefined
+   * @throws {Error} If the selector is invalid
+   * @example
+   * // For XML: <books><book id="1"/><book id="2"/></books>
+   * booksNode.querySelector("book:nth-child(2)") // returns the second <book>
+   */
+  querySelector(selector: string): XmlElement | undefined {
+    return querySelector(selector, this);
+  }
+
+  /**
+   * Finds all descendant elements matching a CSS selector
+   * @param selector The CSS selector, e.g. "item:not([hidden])"
+   * @returns Array of matching elements in document order
+   * @throws {Error} If the selector is invalid
+   */
+  querySelectorAll(selector: string): XmlElement[] {
+    return querySelectorAll(selector, this);
+  }
+
+  /**
+   * Converts the element and its descendants to a plain object
+   * @param options The mapping convention and conversion options
+   * @returns The converted object
+   * @example
+   * // For XML: <book id="1"><title>Dune</title></book>
+   * bookNode.toObject() // returns { book: { "@id": "1", title: "Dune" } }
+   * bookNode.toObject({ convention: "parker" }) // returns { title: "Dune" }
+   */
+  toObject(options?: XmlObjectOptions): XmlObjectValue {
+    return toObject(this, options);
+  }
+
+  /**
+   * Converts the element to a plain object for JSON.stringify(), using the
+   * default convention
+   * @returns The converted object
+   */
+  toJSON(): XmlObjectValue {
+    return toObject(this);
+  }
+
+  /**
+   * Writes the element and its descendants as Canonical XML, for hashing and
+   * signing. Called on a document, the processing instructions and comments
+   * around the root element are written too.
+   * @param options The algorithm ("c14n" or "exc-c14n") and whether to keep
+   * comments
+   * @returns The canonical form
+   * @throws {Error} If an element or attribute uses an undeclared prefix
+   * @example
+   * // For XML: <doc b="2" a="1"><e/></doc>
+   * doc.canonicalize() // returns '<doc a="1" b="2"><e></e></doc>'
+   */
+  canonicalize(options?: XmlCanonicalOptions): string {
+    return canonicalize(this, options);
+  }
+
+  /**
+   * Converts the element to a string representation. Called on a document,
+   * its XML declaration, doctype, prolog and epilog are included.
    * @param options Formatting options
    * @returns String representation of the element
    */
   toString(options?: XmlStringOptions): string {
-    return this.toStringWithIndent("", options);
+    return join(withTrailingNewline(this._pieces(options), options));
+  }
+
+  /**
+   * Converts the element to a string in chunks, for writing large trees
+   * without building the whole string in memory
+   * @param options Formatting options
+   * @returns The same text toString() returns, in chunks of about 16 KB.
+   * Works with for...of, for await...of and Node.js's Readable.from().
+   * @example
+   * ```ts
+   * Readable.from(doc.toChunks()).pipe(createWriteStream("out.xml"));
+   * ```
+   */
+  *toChunks(options?: XmlStringOptions): Generator<string> {
+    yield* batch(withTrailingNewline(this._pieces(options), options));
+  }
+
+  /**
+   * Writes the element to a stream in chunks, waiting for the stream to
+   * catch up whenever it asks to, and then ends the stream
+   * @param target A Node.js Writable, a web WritableStream, or a function
+   * called with each chunk
+   * @param options Formatting options
+   * @returns A promise that resolves once everything has been written
+   * @example
+   * ```ts
+   * await doc.writeTo(createWriteStream("out.xml"));
+   * ```
+   */
+  writeTo(target: XmlWriterTarget, options?: XmlStringOptions): Promise<void> {
+    return writeChunks(target, this.toChunks(options));
   }
 
   /**
@@ -401,67 +1459,22 @@ export class XmlElement implements XmlNodeBase, XmlDelegate {
    * @returns String representation of the element with indentation
    */
   toStringWithIndent(indent: string, options?: XmlStringOptions): string {
-    let s = `${indent}<${this.name}`;
-    const linebreak = options?.compressed ? "" : "\n";
-
-    for (const name in this.attr) {
-      if (Object.prototype.hasOwnProperty.call(this.attr, name)) {
-        s += ` ${name}="${escapeXML(this.attr[name])}"`;
-      }
-    }
-
-    if (this.children.length === 1 && this.children[0].type !== "element") {
-      s += `>${this.children[0].toString(options)}</${this.name}>`;
-    } else if (this.children.length) {
-      s += `>${linebreak}`;
-
-      const childIndent = indent + (options?.compressed ? "" : "  ");
-
-      for (let i = 0, l = this.children.length; i < l; i++) {
-        s += `${this.children[i].toStringWithIndent(
-          childIndent,
-          options,
-        )}${linebreak}`;
-      }
-
-      s += `${indent}</${this.name}>`;
-    } else if (options?.html) {
-      const whiteList = [
-        "area",
-        "base",
-        "br",
-        "col",
-        "embed",
-        "frame",
-        "hr",
-        "img",
-        "input",
-        "keygen",
-        "link",
-        "menuitem",
-        "meta",
-        "param",
-        "source",
-        "track",
-        "wbr",
-      ];
-
-      if (whiteList.includes(this.name)) {
-        s += "/>";
-      } else {
-        s += `></${this.name}>`;
-      }
-    } else {
-      s += "/>";
-    }
+    return join(elementPieces(this, indent, options));
+  }
 
-    return s;
+  /**
+   * Serializes the element piece by piece, for toString() and toChunks()
+   * @param options Formatting options
+   * @returns The pieces of the serialized element
+   */
+  *_pieces(options?: XmlStringOptions): Generator<string> {
+    yield* elementPieces(this, "", options);
   }
 }
 
 // Interface for XmlDocument with doctype method
 interface XmlDocumentDelegate extends XmlDelegate {
-  _doctype(doctype: string): void;
+  _doctype(doctype: string, dtd: XmlDtd): void;
 }
 
 /**
@@ -470,12 +1483,26 @@ interface XmlDocumentDelegate extends XmlDelegate {
 export class XmlDocument extends XmlElement implements XmlDocumentDelegate {
   /** The document's doctype declaration, if any */
   doctype: string;
+  /** The declarations in the document's doctype, or null if it doesn't have one */
+  dtd: XmlDtd | null = null;
+  /** The document's XML declaration, or null if it doesn't have one */
+  declaration: XmlDeclaration | null = null;
+  /** Comments and processing instructions before the root element */
+  prolog: XmlNodeBase[] = [];
+  /** Comments and processing instructions after the root element */
+  epilog: XmlNodeBase[] = [];
   /** The SAX parser instance (available only during parsing) */
   parser?: SAXParser;
 
+  // Whether the root element has been closed while parsing
+  private _afterRoot = false;
+  // How many prolog nodes come before the doctype
+  private _doctypeIndex = 0;
+
   /**
    * Creates a new XML document from an XML string
    * @param xml The XML string to parse
+   * @param options Optional parsing options
    * @throws {Error} If the XML is empty or invalid
    * @example
    * ```ts
@@ -485,93 +1512,1782 @@ export class XmlDocument extends XmlElement implements XmlDocumentDelegate {
    * console.log(doc.childNamed("child")?.val); // "value"
    * ```
    */
-  constructor(xml: string) {
+  constructor(xml: string, options?: XmlDocumentOptions) {
     // Initialize with a dummy tag that will be replaced
-    super({ name: "", attributes: {} });
-
-    xml = xml.toString().trim();
-
-    if (!xml) {
-      throw new Error("No XML to parse!");
-    }
+    super({ name: "", attributes: {} }, null);
 
     // Stores doctype (if defined)
     this.doctype = "";
 
-    // Expose the parser to the other delegates while the parser is running
-    this.parser = sax.parser(true); // strict
-    addParserEvents(this.parser);
+    // Documents made by create() start out empty
+    if (options === EMPTY) return;
 
-    // Initialize delegates with this document
-    delegates = [this];
+    const text = startParsing(this, xml.toString(), options);
 
     try {
-      this.parser.write(xml);
+      this.parser!.write(text).close();
     } finally {
       // Remove the parser as it is no longer needed
       delete this.parser;
     }
   }
 
-  _opentag(tag: { name: string; attributes: Record<string, string> }): void {
-    if (this.name === "") {
-      // First tag becomes the root - we'll update our own properties
-      this.name = tag.name;
-      this.attr = tag.attributes;
-    } else {
-      // All other tags will be the root element's children
-      super._opentag(tag);
+  /**
+   * Creates an empty document for building XML from scratch
+   * @param name The root element name
+   * @param attributes Optional attributes for the root element
+   * @returns A builder for the root element
+   * @throws {Error} If the name or an attribute name is not a valid XML name
+   * @example
+   * ```ts
+   * const doc = XmlDocument.create("root")
+   *   .ele("child", { id: "1" })
+   *   .txt("value")
+   *   .up()
+   *   .doc();
+   * ```
+   */
+  static create(
+    name: string,
+    attributes?: Record<string, XmlBuilderValue>,
+  ): XmlBuilder {
+    return startDocument(emptyDocument(), name, attributes);
+  }
+
+  /**
+   * Parses a document from bytes, decoding them with the encoding given by
+   * their byte order mark or XML declaration (UTF-8 if neither says). Large
+   * documents are parsed a piece at a time, letting other work run in
+   * between.
+   * @param bytes The XML bytes, like a Buffer
+   * @param options Optional parsing options, and an encoding to use instead
+   * of the detected one
+   * @returns A promise for the parsed document
+   * @throws {Error} If the encoding isn't supported, or the XML is empty or
+   * invalid
+   * @example
+   * ```ts
+   * // For bytes starting with <?xml version="1.0" encoding="ISO-8859-1"?>
+   * const doc = await XmlDocument.fromBuffer(bytes);
+   * ```
+   */
+  static async fromBuffer(
+    bytes: Uint8Array | ArrayBuffer,
+    options?: XmlDocumentReadOptions,
+  ): Promise<XmlDocument> {
+    const xml = decodeXml(
+      bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes),
+      options?.encoding,
+    );
+    return parseInSlices(xml, options);
+  }
+
+  /**
+   * Reads and parses a document from a file, as fromBuffer() does
+   * @param path The file's path, or a file: URL
+   * @param options Optional parsing options, and an encoding to use instead
+   * of the detected one
+   * @returns A promise for the parsed document
+   * @throws {Error} If the file can't be read, or the XML is invalid
+   * @example
+   * ```ts
+   * const doc = await XmlDocument.fromFile(new URL("feed.xml", import.meta.url));
+   * ```
+   */
+  static async fromFile(
+    path: string | URL,
+    options?: XmlDocumentReadOptions,
+  ): Promise<XmlDocument> {
+    // Loaded on demand, so the library still works where there is no file system
+    const { readFile } = await import("node:fs/promises");
+    return XmlDocument.fromBuffer(await readFile(path), options);
+  }
+
+  /**
+   * Reads and parses a whole document from a stream, as fromBuffer() does.
+   * To handle documents too large to hold in memory, use XmlStreamReader.
+   * @param source A Node.js Readable, a web ReadableStream, or any iterable
+   * or async iterable of strings or byte chunks (but not both)
+   * @param options Optional parsing options, and an encoding to use instead
+   * of the detected one
+   * @returns A promise for the parsed document
+   * @throws {Error} If the stream fails, or the XML is invalid
+   * @example
+   * ```ts
+   * const doc = await XmlDocument.fromStream((await fetch(url)).body!);
+   * ```
+   */
+  static async fromStream(
+    source: XmlStreamSource,
+    options?: XmlDocumentReadOptions,
+  ): Promise<XmlDocument> {
+    const strings: string[] = [];
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of readChunks(source)) {
+      if (typeof chunk === "string") strings.push(chunk);
+      else chunks.push(chunk);
+    }
+    if (strings.length && chunks.length) {
+      throw new Error("A stream must yield either strings or bytes, not both");
+    }
+    if (strings.length) return parseInSlices(strings.join(""), options);
+
+    const bytes = new Uint8Array(
+      chunks.reduce((length, chunk) => length + chunk.length, 0),
+    );
+    let offset = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return XmlDocument.fromBuffer(bytes, options);
+  }
+
+  /**
+   * Creates a document from a plain object, reversing toObject()
+   * @param object The object to convert, like { book: { "@id": "1" } }
+   * @param options The mapping convention and conversion options
+   * @returns The new document
+   * @throws {Error} If the object doesn't describe a single root element
+   * @example
+   * ```ts
+   * const doc = XmlDocument.fromObject({ book: { "@id": 1, title: "Dune" } });
+   * doc.toString({ compressed: true }); // '<book id="1"><title>Dune</title></book>'
+   * ```
+   */
+  static fromObject(
+    object: XmlObjectValue,
+    options?: XmlObjectOptions,
+  ): XmlDocument {
+    return fromObject(object, options);
+  }
+
+  _opentag(tag: XmlTag, parser: SAXParser): XmlDelegate | void {
+    // Report a second root element the way sax reports its own errors, so
+    // that it gets the parse's source for a code frame
+    if (this._afterRoot) {
+      parser.onerror(new Error("Multiple root elements"));
+      return;
+    }
+
+    // All tags but the first will be the root element's children
+    if (this.name !== "") return super._opentag(tag, parser);
+
+    // First tag becomes the root - we'll update our own properties
+    this.name = tag.name;
+    this.attr = tag.attributes;
+    this.namespaceURI = tag.uri || null;
+    this.namespaces = tag.ns ?? null;
+  }
+
+  _closetag(): void {
+    // Keep receiving events after the root element closes, so that the
+    // epilog can be collected
+    this._afterRoot = true;
+  }
+
+  _text(text: string): XmlNodeBase | void {
+    if (this.name !== "" && !this._afterRoot) return super._text(text);
+
+    // Text outside of the root element can only be whitespace (e.g. following
+    // an <?xml?> declaration), so it's only kept when preserving formatting.
+    if (!documentFormats.has(this)) return;
+
+    const node = new XmlTextNode(text);
+    this._addOutside(node);
+    return node;
+  }
+
+  _comment(comment: string): XmlNodeBase | void {
+    if (this.name !== "" && !this._afterRoot) return super._comment(comment);
+
+    const node = new XmlCommentNode(comment);
+    this._addOutside(node);
+    return node;
+  }
+
+  _processinginstruction(target: string, data: string): XmlNodeBase | void {
+    if (this.name !== "" && !this._afterRoot) {
+      return super._processinginstruction(target, data);
+    }
+
+    if (target === "xml" && this.name === "" && !this.declaration) {
+      this.declaration = parseDeclaration(data);
+      return;
+    }
+
+    const node = new XmlProcessingInstructionNode(target, data);
+    this._addOutside(node);
+    return node;
+  }
+
+  /**
+   * Removes a child node from the root element, or a node from the prolog or
+   * epilog
+   * @param child The node to remove
+   * @returns The removed node
+   * @throws {Error} If the node is not a child of this document
+   */
+  removeChild<T extends XmlNodeBase>(child: T): T {
+    const nodes = this._outside(child);
+    if (!nodes) return super.removeChild(child);
+
+    const index = nodes.indexOf(child);
+    nodes.splice(index, 1);
+    if (nodes === this.prolog && index < this._doctypeIndex) {
+      this._doctypeIndex--;
+    }
+    detachNode(child);
+    this._linkOutside();
+    return child;
+  }
+
+  /**
+   * Inserts a node before one of the root element's children, or before a
+   * node in the prolog or epilog. A node that is already in a tree is moved.
+   * @param child The node to insert
+   * @param reference The node to insert before, or null to append
+   * @returns The inserted node
+   * @throws {Error} If the reference node is not a child of this document
+   */
+  insertBefore<T extends XmlNodeBase>(
+    child: T,
+    reference: XmlNodeBase | null,
+  ): T {
+    const nodes = reference && this._outside(reference);
+    if (!nodes) return super.insertBefore(child, reference);
+    this._insertOutside(nodes, child, reference!, 0);
+    return child;
+  }
+
+  /**
+   * Inserts a node after one of the root element's children, or after a node
+   * in the prolog or epilog. A node that is already in a tree is moved.
+   * @param child The node to insert
+   * @param reference The node to insert after
+   * @returns The inserted node
+   * @throws {Error} If the reference node is not a child of this document
+   */
+  insertAfter<T extends XmlNodeBase>(child: T, reference: XmlNodeBase): T {
+    const nodes = this._outside(reference);
+    if (!nodes) return super.insertAfter(child, reference);
+    this._insertOutside(nodes, child, reference, 1);
+    return child;
+  }
+
+  /**
+   * Links the prolog and epilog nodes to this document and to their
+   * neighbours, after the arrays have been modified
+   */
+  _linkOutside(): void {
+    for (const nodes of [this.prolog, this.epilog]) {
+      for (let i = 0, l = nodes.length; i < l; i++) {
+        const node = nodes[i];
+        node.parent = this;
+        node.previousSibling = nodes[i - 1] ?? null;
+        node.nextSibling = nodes[i + 1] ?? null;
+      }
     }
   }
 
-  _text(text: string): void {
-    // Ignore any text that appears before the root element (e.g. whitespace
-    // following an <?xml?> declaration) - there's no sensible place to put it.
-    if (this.name === "") return;
-    super._text(text);
+  /** Adds a node parsed outside of the root element */
+  private _addOutside(node: XmlNodeBase): void {
+    const nodes = this._afterRoot ? this.epilog : this.prolog;
+    const previous = nodes[nodes.length - 1] ?? null;
+    node.parent = this;
+    node.previousSibling = previous;
+    if (previous) previous.nextSibling = node;
+    nodes.push(node);
   }
 
-  _comment(comment: string): void {
-    // Ignore any comment that appears before the root element - there's no
-    // sensible place to put it. See issue #27.
-    if (this.name === "") return;
-    super._comment(comment);
+  /** Finds whether a node is in the prolog or the epilog */
+  private _outside(node: XmlNodeBase): XmlNodeBase[] | null {
+    if (node.parent !== this) return null;
+    if (this.prolog.includes(node)) return this.prolog;
+    if (this.epilog.includes(node)) return this.epilog;
+    return null;
+  }
+
+  /**
+   * Inserts a node into the prolog or epilog next to another one
+   * @param nodes The prolog or epilog
+   * @param child The node to insert
+   * @param reference The node to insert it next to
+   * @param after 1 to insert after the reference node, 0 for before
+   */
+  private _insertOutside(
+    nodes: XmlNodeBase[],
+    child: XmlNodeBase,
+    reference: XmlNodeBase,
+    after: 0 | 1,
+  ): void {
+    if (
+      child instanceof XmlElement ||
+      child.type === "cdata" ||
+      (child.type === "text" && (child as XmlTextNode).text.trim())
+    ) {
+      throw new Error(
+        "Only comments, processing instructions and whitespace can go outside the root element",
+      );
+    }
+    if (child === reference) return;
+
+    child.parent?.removeChild(child);
+    const index = nodes.indexOf(reference);
+    nodes.splice(index + after, 0, child);
+    // The new node goes on the same side of the doctype as its reference
+    if (nodes === this.prolog && index < this._doctypeIndex) {
+      this._doctypeIndex++;
+    }
+    this._linkOutside();
   }
 
-  _doctype(doctype: string): void {
+  _doctype(doctype: string, dtd: XmlDtd): void {
     this.doctype += doctype;
+    this.dtd = dtd;
+    this._doctypeIndex = this.prolog.length;
+  }
+
+  /**
+   * Serializes the document piece by piece, including its XML declaration,
+   * doctype, prolog and epilog
+   * @param options Formatting options
+   * @returns The pieces of the serialized document
+   */
+  *_pieces(options?: XmlStringOptions): Generator<string> {
+    const source = documentFormats.get(this);
+    const preserve = options?.preserveFormatting ?? !!source;
+    const write = (node: XmlNodeBase) =>
+      preserve ? preservedString(node) : node.toString(options);
+
+    const nodes = this.prolog.map(write);
+
+    if (this.doctype) {
+      const index = Math.min(this._doctypeIndex, nodes.length);
+      const doctype = `<!DOCTYPE${this.doctype}>`;
+      nodes.splice(
+        index,
+        0,
+        preserve ? rawString(source?.doctype, doctype) : doctype,
+      );
+    }
+
+    if (this.declaration && options?.declaration !== false) {
+      const declaration = formatDeclaration(this.declaration);
+      const format = formats.get(this.declaration) as RawFormat | undefined;
+      nodes.unshift(preserve ? rawString(format, declaration) : declaration);
+    } else if (options?.declaration) {
+      nodes.unshift('<?xml version="1.0" encoding="UTF-8"?>');
+    }
+
+    const epilog = this.epilog.map(write);
+
+    if (preserve) {
+      yield (source?.leading ?? "") + nodes.join("") + preservedString(this);
+      yield epilog.join("");
+      return;
+    }
+
+    // Leave out the whitespace kept around the root element
+    const { linebreak } = layout(options);
+    for (const node of nodes) {
+      if (node) yield node + linebreak;
+    }
+    yield* elementPieces(this, "", options);
+    for (const node of epilog) {
+      if (node) yield linebreak + node;
+    }
   }
 }
 
-// Helper variables and functions
-let delegates: (XmlElement | XmlDocument)[] = [];
-
-function addParserEvents(parser: SAXParser): void {
-  parser.onopentag = (tag: any) => delegates[0]?._opentag(tag);
-  parser.onclosetag = () => delegates[0]?._closetag();
-  parser.ontext = (text: string) => delegates[0]?._text(text);
-  parser.oncdata = (cdata: string) => delegates[0]?._cdata(cdata);
-  parser.oncomment = (comment: string) => delegates[0]?._comment(comment);
-  parser.ondoctype = (doctype: string) => {
-    const doc = delegates[0] as XmlDocument;
-    if (doc._doctype) doc._doctype(doctype);
-  };
-  parser.onerror = (err: Error) => delegates[0]?._error(err);
+/**
+ * A source of XML text chunks: a Node.js Readable stream, a web
+ * ReadableStream, or any (async) iterable of strings or bytes
+ */
+export type XmlStreamSource =
+  | AsyncIterable<string | Uint8Array>
+  | Iterable<string | Uint8Array>
+  | {
+      getReader(): {
+        read(): Promise<{ done: boolean; value?: string | Uint8Array }>;
+        cancel(): Promise<void>;
+        releaseLock(): void;
+      };
+    };
+
+/**
+ * Options for reading a document from bytes, a file or a stream
+ */
+export interface XmlDocumentReadOptions extends XmlDocumentOptions {
+  /**
+   * The character encoding of the bytes, like "iso-8859-1" or "utf-16le".
+   * Detected from the byte order mark or XML declaration by default.
+   */
+  encoding?: string;
 }
 
 /**
- * Escapes XML special characters
- * @param value The string to escape
- * @returns The escaped string
+ * Options for reading an XML stream
  */
-function escapeXML(value: string): string {
-  return value
-    .toString()
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/'/g, "&apos;")
-    .replace(/"/g, "&quot;");
+export interface XmlStreamReaderOptions extends Omit<
+  XmlDocumentOptions,
+  "preserveFormatting"
+> {
+  /** The character encoding of byte chunks (defaults to "utf-8") */
+  encoding?: string;
+}
+
+/**
+ * Reads an XML document incrementally, yielding each element that matches a
+ * name or path as soon as its close tag is parsed. Only the subtree of the
+ * current match is held in memory, so arbitrarily large documents can be read.
+ * @example
+ * ```ts
+ * import { createReadStream } from "node:fs";
+ * import { XmlStreamReader } from "xmldoc";
+ *
+ * const reader = new XmlStreamReader(createReadStream("feed.xml"), "entry");
+ * for await (const entry of reader) {
+ *   console.log(entry.valueWithPath("title"));
+ * }
+ * ```
+ */
+export class XmlStreamReader implements AsyncIterable<XmlElement>, XmlDelegate {
+  /** The SAX parser instance (available only while reading) */
+  parser?: SAXParser;
+
+  private readonly path: string[];
+  private readonly openTags: string[] = [];
+  private readonly matches: XmlElement[] = [];
+  private match: XmlElement | null = null;
+  private started = false;
+
+  /**
+   * Creates a new stream reader
+   * @param source The XML text to read
+   * @param path The name of the elements to yield, like "entry", or a
+   * dot-notation path like "channel.item" to only match elements with the
+   * given ancestors
+   * @param options Optional parsing options
+   */
+  constructor(
+    private readonly source: XmlStreamSource,
+    path: string,
+    private readonly options?: XmlStreamReaderOptions,
+  ) {
+    this.path = path.split(".");
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<XmlElement> {
+    if (this.started) {
+      throw new Error("An XmlStreamReader can only be read once");
+    }
+    this.started = true;
+
+    this.parser = createParser(this.options);
+    const delegates = addParserEvents(
+      this.parser,
+      this,
+      undefined,
+      this.options,
+    );
+
+    // Find out when the current match closes - by then it's the delegate
+    // receiving events, not us.
+    const onclosetag = this.parser.onclosetag;
+    this.parser.onclosetag = (tagName: string) => {
+      const closing = delegates[0];
+      onclosetag(tagName);
+      if (closing === this.match) this._matchclosed();
+    };
+
+    const decoder = new TextDecoder(this.options?.encoding ?? "utf-8");
+
+    try {
+      for await (const chunk of readChunks(this.source)) {
+        this._write(
+          typeof chunk === "string"
+            ? chunk
+            : decoder.decode(chunk, { stream: true }),
+        );
+        yield* this.matches.splice(0);
+      }
+
+      this._write(decoder.decode());
+      this._write(null);
+      yield* this.matches.splice(0);
+    } finally {
+      // Remove the parser as it is no longer needed
+      delete this.parser;
+    }
+  }
+
+  private _write(text: string | null): void {
+    if (text === null) this.parser!.close();
+    else if (text) this.parser!.write(text);
+  }
+
+  private _matchclosed(): void {
+    this.matches.push(this.match!);
+    this.match = null;
+    this.openTags.pop();
+  }
+
+  _opentag(tag: XmlTag, parser: SAXParser): XmlDelegate | void {
+    this.openTags.push(tag.name);
+
+    const offset = this.openTags.length - this.path.length;
+    if (
+      offset >= 0 &&
+      this.path.every((n, i) => this.openTags[offset + i] === n)
+    ) {
+      // Hand the subtree to a new element, which will build it from the
+      // events that follow until its close tag
+      this.match = new XmlElement(tag, parser);
+      return this.match;
+    }
+  }
+
+  _closetag(): void {
+    this.openTags.pop();
+  }
+
+  // Anything outside of a matching element is skipped
+  _text(): void {}
+  _cdata(): void {}
+  _comment(): void {}
+  _processinginstruction(): void {}
+
+  _error(err: Error): void {
+    throw err;
+  }
+}
+
+// Helper variables and functions
+
+// Passed to the XmlDocument constructor as its options to create a document
+// with nothing in it. Only this module can pass this exact object.
+const EMPTY: XmlDocumentOptions = Object.freeze({});
+
+// How much text to parse at a time before letting other work run
+const PARSE_SLICE = 65536;
+
+/**
+ * Creates a document with nothing in it
+ * @returns The new document
+ */
+function emptyDocument(): XmlDocument {
+  return new XmlDocument("", EMPTY);
+}
+
+/**
+ * Gets a document ready to parse XML, exposing its parser while it runs
+ * @param document The document to parse into
+ * @param xml The XML string
+ * @param options Optional parsing options
+ * @returns The text to write to the document's parser
+ * @throws {Error} If the XML is empty or the options conflict
+ */
+function startParsing(
+  document: XmlDocument,
+  xml: string,
+  options?: XmlDocumentOptions,
+): string {
+  if (!xml.trim()) {
+    throw new Error("No XML to parse!");
+  }
+
+  // Whitespace around the document is only kept when preserving formatting
+  const preserve = !!options?.preserveFormatting;
+  if (preserve && (options?.strict === false || options?.lowercase)) {
+    throw new Error(
+      "The preserveFormatting option can't be combined with lenient parsing or lowercase",
+    );
+  }
+  const original = xml;
+  if (preserve) {
+    documentFormats.set(document, { leading: /^\s*/.exec(xml)![0] });
+  } else {
+    xml = xml.trim();
+  }
+
+  document.parser = createParser(options);
+  addParserEvents(document.parser, document, xml, options, original);
+  return xml;
+}
+
+/**
+ * Parses a document a slice at a time, waiting for other work to run after
+ * each slice
+ * @param xml The XML string
+ * @param options Optional parsing options
+ * @returns A promise for the parsed document
+ */
+async function parseInSlices(
+  xml: string,
+  options?: XmlDocumentOptions,
+): Promise<XmlDocument> {
+  const document = emptyDocument();
+  const text = startParsing(document, xml, options);
+
+  try {
+    for (let i = 0; i < text.length; i += PARSE_SLICE) {
+      document.parser!.write(text.slice(i, i + PARSE_SLICE));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    document.parser!.close();
+  } finally {
+    // Remove the parser as it is no longer needed
+    delete document.parser;
+  }
+  return document;
+}
+
+// How nodes parsed with the preserveFormatting option were written in the
+// source, keyed by node (or by XmlDeclaration)
+const formats = new WeakMap<object, TagFormat | RawFormat>();
+const documentFormats = new WeakMap<XmlDocument, DocumentFormat>();
+
+// The source of a node, and the value it had when it was parsed. The source
+// is only used while the value is unchanged.
+interface RawFormat {
+  raw: string;
+  value: string;
+}
+
+// The spelling of an attribute in its start tag
+interface AttributeFormat extends RawFormat {
+  name: string;
+  before: string;
+  equals: string;
+  quote: string;
+}
+
+// The spelling of an element's start and end tags
+interface TagFormat {
+  attributes: AttributeFormat[];
+  // Attributes the DTD added, which weren't written in the source
+  defaults: Record<string, string>;
+  tail: string;
+  selfClosing: boolean;
+  endTail: string;
+}
+
+// The parts of a document's source that aren't nodes
+interface DocumentFormat {
+  leading: string;
+  doctype?: RawFormat;
+}
+
+/**
+ * Records how each construct was written in the source while parsing with
+ * the preserveFormatting option
+ */
+class FormatRecorder {
+  // Where the last construct we've seen ended in the source
+  private end = 0;
+
+  constructor(
+    private readonly parser: SAXParser,
+    private readonly source: string,
+  ) {}
+
+  /**
+   * Gets the source of the construct the parser just finished
+   * @param end Where the construct ends, if sax reported it early
+   * @returns The construct's source
+   */
+  construct(end = this.parser.position): string {
+    const start = this.parser.startTagPosition - 1;
+    this.end = end;
+    return this.source.slice(start, end);
+  }
+
+  openTag(element: XmlElement): void {
+    formats.set(element, parseStartTag(this.construct(), element.attr));
+  }
+
+  closeTag(element: XmlElement): void {
+    const format = formats.get(element) as TagFormat | undefined;
+    if (!format || format.selfClosing) return;
+    format.endTail = this.construct().slice(2 + element.name.length, -1);
+  }
+
+  text(node: XmlNodeBase | void): void {
+    // sax reports text once it reaches the start of the next construct. Text
+    // reported any other way (like text split up because it's too long to
+    // buffer) is left unrecorded, and escaped as usual when written.
+    const stop = this.parser.startTagPosition - 1;
+    const raw = this.source.slice(this.end, stop);
+
+    if (
+      node instanceof XmlTextNode &&
+      stop >= this.end &&
+      this.parser.position > stop &&
+      !raw.includes("<")
+    ) {
+      formats.set(node, { raw, value: node.text });
+    }
+  }
+
+  comment(): void {
+    // sax reports comments before reading their closing ">"
+    this.construct(this.parser.position + 1);
+  }
+
+  instruction(node: XmlNodeBase | XmlDeclaration | null | void): void {
+    const raw = this.construct();
+    if (!node) return;
+
+    const value = "type" in node ? node.toString() : formatDeclaration(node);
+    formats.set(node, { raw, value });
+  }
+
+  doctype(document: XmlDocument): void {
+    // The internal subset moves startTagPosition, so find the start ourselves
+    const pattern = /<!DOCTYPE/gi;
+    pattern.lastIndex = this.end;
+    const start = pattern.exec(this.source)?.index ?? this.end;
+    const raw = this.source.slice(start, this.parser.position);
+    this.end = this.parser.position;
+
+    const format = documentFormats.get(document);
+    if (format)
+      format.doctype = { raw, value: `<!DOCTYPE${document.doctype}>` };
+  }
+}
+
+/**
+ * Records where each node was in the source while parsing a string
+ */
+class RangeRecorder {
+  // Where the last construct we've seen ended in the source
+  private end: number;
+  // Where each line starts in the source
+  private readonly lines = [0];
+
+  /**
+   * Creates a new recorder
+   * @param parser The parser reading the source
+   * @param source The complete source that ranges refer to
+   * @param offset Where the text the parser reads starts in the source
+   */
+  constructor(
+    private readonly parser: SAXParser,
+    private readonly source: string,
+    private readonly offset: number,
+  ) {
+    this.end = offset;
+    for (
+      let i = source.indexOf("\n");
+      i !== -1;
+      i = source.indexOf("\n", i + 1)
+    ) {
+      this.lines.push(i + 1);
+    }
+  }
+
+  openTag(element: XmlElement): void {
+    const start = this.parser.startTagPosition - 1 + this.offset;
+    const end = (this.end = this.parser.position + this.offset);
+    const startTag = this.range(start, end);
+
+    element.range = { ...startTag, startTag, endTag: null, content: null };
+    element.attrRanges = this.attributes(start, end, element.attr);
+  }
+
+  closeTag(element: XmlElement): void {
+    const range = element.range;
+    const end = this.parser.position + this.offset;
+    this.end = end;
+    // Empty element tags close right where they open
+    if (!range || end === range.startTag.end.offset) return;
+
+    const start = this.parser.startTagPosition - 1 + this.offset;
+    range.endTag = this.range(start, end);
+    range.content = this.range(range.startTag.end.offset, start);
+    range.end = range.endTag.end;
+  }
+
+  text(node: XmlNodeBase | void): void {
+    // sax reports text once it reaches the start of the next construct, or
+    // the end of the source
+    const start = this.end;
+    let stop = this.parser.startTagPosition - 1 + this.offset;
+    if (stop < start) stop = this.parser.position + this.offset;
+    this.end = stop;
+
+    if (node) this.extend(node, start, stop);
+  }
+
+  cdata(node: XmlNodeBase | void): void {
+    this.construct(node, this.parser.position);
+  }
+
+  comment(node: XmlNodeBase | void): void {
+    // sax reports comments before reading their closing ">"
+    this.construct(node, this.parser.position + 1);
+  }
+
+  instruction(node: XmlNodeBase | void): void {
+    this.construct(node, this.parser.position);
+  }
+
+  doctype(): void {
+    this.end = this.parser.position + this.offset;
+  }
+
+  /** Records the construct the parser just finished */
+  private construct(node: XmlNodeBase | void, end: number): void {
+    const start = this.parser.startTagPosition - 1 + this.offset;
+    this.end = end + this.offset;
+    if (node) this.extend(node, start, this.end);
+  }
+
+  /**
+   * Sets a node's range, or extends it if the node already has one (like
+   * text that CDATA was merged into)
+   */
+  private extend(node: XmlNodeBase, start: number, end: number): void {
+    if (node.range) node.range.end = this.location(end);
+    else node.range = this.range(start, end);
+  }
+
+  /** Finds each attribute written in a start tag */
+  private attributes(
+    start: number,
+    end: number,
+    attributes: Record<string, string>,
+  ): Record<string, XmlAttributeRange> {
+    const ranges: Record<string, XmlAttributeRange> = {};
+    const names = Object.keys(attributes);
+    const tag = this.source.slice(start, end);
+    const pattern =
+      /(\s+)([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/y;
+    let match: RegExpExecArray | null;
+    pattern.lastIndex = tag.search(/[\s/>]/);
+
+    while ((match = pattern.exec(tag))) {
+      const [, before, name, double, single, unquoted] = match;
+      // Lenient parsing and the lowercase option change the case of names
+      const key = Object.prototype.hasOwnProperty.call(attributes, name)
+        ? name
+        : names.find((n) => n.toLowerCase() === name.toLowerCase());
+      if (key === undefined) continue;
+
+      const nameStart = start + match.index + before.length;
+      const nameEnd = nameStart + name.length;
+      const value = double ?? single ?? unquoted;
+      const valueEnd =
+        start + pattern.lastIndex - (unquoted === undefined ? 1 : 0);
+      ranges[key] = {
+        name: this.range(nameStart, nameEnd),
+        value:
+          value === undefined
+            ? this.range(nameEnd, nameEnd)
+            : this.range(valueEnd - value.length, valueEnd),
+      };
+    }
+
+    return ranges;
+  }
+
+  private range(start: number, end: number): XmlSourceRange {
+    return { start: this.location(start), end: this.location(end) };
+  }
+
+  private location(offset: number): XmlSourceLocation {
+    // Binary search for the last line starting at or before the offset
+    let low = 0;
+    let high = this.lines.length - 1;
+    while (low < high) {
+      const middle = (low + high + 1) >> 1;
+      if (this.lines[middle] <= offset) low = middle;
+      else high = middle - 1;
+    }
+    return { offset, line: low, column: offset - this.lines[low] };
+  }
+}
+
+/**
+ * Clears the tree links of a node that has been taken out of its parent
+ * @param node The detached node
+ */
+function detachNode(node: XmlNodeBase): void {
+  node.parent = null;
+  node.previousSibling = null;
+  node.nextSibling = null;
+}
+
+/**
+ * Gets an element's children as normalize() would leave them, without
+ * changing the element. Text that hasn't changed keeps its node.
+ * @param element The element
+ * @param options What to drop
+ * @returns The children
+ */
+function normalizedChildren(
+  element: XmlElement,
+  options: XmlNormalizeOptions,
+): XmlNodeBase[] {
+  const children: XmlNodeBase[] = [];
+  let run: XmlNodeBase[] = [];
+
+  const endRun = () => {
+    let text = run
+      .map((node) =>
+        node.type === "text"
+          ? (node as XmlTextNode).text
+          : (node as XmlCDataNode).cdata,
+      )
+      .join("");
+    if (options.whitespace === "normalize") text = text.replace(/\s+/g, " ");
+
+    if (options.whitespace === "drop" ? text.trim() : text) {
+      const only = run.length === 1 ? run[0] : null;
+      children.push(
+        only instanceof XmlTextNode && only.text === text
+          ? only
+          : new XmlTextNode(text),
+      );
+    }
+    run = [];
+  };
+
+  for (const child of element.children) {
+    if (child.type === "comment" && options.comments === false) continue;
+    if (
+      child.type === "text" ||
+      (child.type === "cdata" && options.cdata === false)
+    ) {
+      run.push(child);
+      continue;
+    }
+    if (run.length) endRun();
+    children.push(child);
+  }
+  if (run.length) endRun();
+  return children;
+}
+
+/**
+ * Compares two elements for isEqualNode()
+ * @param a The first element
+ * @param b The second element
+ * @param options What to ignore
+ * @returns True if the elements are equal
+ */
+function equalElements(
+  a: XmlElement,
+  b: XmlElement,
+  options: XmlNormalizeOptions,
+): boolean {
+  if (a.name !== b.name) return false;
+
+  const names = Object.keys(a.attr);
+  if (names.length !== Object.keys(b.attr).length) return false;
+  for (const name of names) {
+    if (
+      !Object.prototype.hasOwnProperty.call(b.attr, name) ||
+      a.attr[name] !== b.attr[name]
+    ) {
+      return false;
+    }
+  }
+
+  const x = normalizedChildren(a, options);
+  const y = normalizedChildren(b, options);
+  return (
+    x.length === y.length &&
+    x.every((node, i) => {
+      const other = y[i];
+      if (node.type !== other.type) return false;
+      switch (node.type) {
+        case "element":
+          return equalElements(
+            node as XmlElement,
+            other as XmlElement,
+            options,
+          );
+        case "text":
+          return (node as XmlTextNode).text === (other as XmlTextNode).text;
+        case "cdata":
+          return (node as XmlCDataNode).cdata === (other as XmlCDataNode).cdata;
+        case "comment":
+          return (
+            (node as XmlCommentNode).comment ===
+            (other as XmlCommentNode).comment
+          );
+        default: {
+          const instruction = node as XmlProcessingInstructionNode;
+          const otherInstruction = other as XmlProcessingInstructionNode;
+          return (
+            instruction.target === otherInstruction.target &&
+            instruction.data === otherInstruction.data
+          );
+        }
+      }
+    })
+  );
+}
+
+/**
+ * Removes a node from its parent element, if it has one
+ * @param node The node to remove
+ */
+function removeNode(node: XmlNodeBase): void {
+  node.parent?.removeChild(node);
+}
+
+/**
+ * Replaces a node in its parent element with other nodes
+ * @param node The node to replace
+ * @param nodes The replacement nodes, which may include the node itself
+ */
+function replaceNode(node: XmlNodeBase, nodes: XmlNodeBase[]): void {
+  const parent = node.parent;
+  if (!parent) return;
+
+  // Nodes listed before the node itself go before it, and the rest after
+  let reference: XmlNodeBase | null = null;
+  for (const replacement of nodes) {
+    if (replacement === node) {
+      reference = node;
+    } else if (reference) {
+      reference = parent.insertAfter(replacement, reference);
+    } else {
+      parent.insertBefore(replacement, node);
+    }
+  }
+
+  if (!nodes.includes(node)) parent.removeChild(node);
+}
+
+/**
+ * Creates a sax parser for the given options
+ * @param options The parsing options
+ * @returns The parser
+ */
+function createParser(options: XmlDocumentOptions = {}): SAXParser {
+  return sax.parser(options.strict ?? true, {
+    xmlns: !!options.xmlns,
+    lowercase: !!options.lowercase,
+  });
+}
+
+/**
+ * Lowercases a tag's name and attribute names
+ * @param tag The tag to lowercase
+ * @returns A lowercased copy, leaving the parser's own tag untouched
+ */
+function lowercaseTag(tag: XmlTag): XmlTag {
+  const attributes: Record<string, string> = {};
+  for (const name of Object.keys(tag.attributes)) {
+    attributes[name.toLowerCase()] = tag.attributes[name];
+  }
+  return { ...tag, name: tag.name.toLowerCase(), attributes };
+}
+
+/**
+ * Handles a parser's events, building a tree with a stack of delegates that
+ * belongs to this parse alone
+ * @param parser The parser to handle
+ * @param root The delegate receiving events outside of any element it creates
+ * @param source The complete source, when parsing a string
+ * @param options The parsing options
+ * @param original The source before any whitespace was trimmed from it,
+ * which node ranges refer to
+ * @returns The delegate stack, with the one receiving events at the front
+ */
+function addParserEvents(
+  parser: SAXParser,
+  root: XmlDelegate,
+  source?: string,
+  options: XmlDocumentOptions = {},
+  original = source,
+): XmlDelegate[] {
+  const delegates: XmlDelegate[] = [root];
+  // Where the text the parser reads starts in the original source
+  const offset =
+    source !== undefined && original !== undefined
+      ? original.indexOf(source)
+      : 0;
+  // The lines trimmed from the start of the original source, which sax's
+  // line and column don't count
+  const trimmed = (original?.slice(0, offset) ?? "").split("\n");
+  const recorder =
+    source !== undefined && options.preserveFormatting
+      ? new FormatRecorder(parser, source)
+      : null;
+  const ranges =
+    source !== undefined &&
+    original !== undefined &&
+    options.positions !== false
+      ? new RangeRecorder(parser, original, offset)
+      : null;
+  const fail = (message: string): never => {
+    throw toParseError(new Error(message), parser, original, offset);
+  };
+  let dtd: XmlDtd | null = null;
+  // The text node most recently added, which CDATA or the text after a
+  // dropped comment can be merged into
+  let lastText: XmlNodeBase | void;
+  // The node made from the CDATA section being parsed
+  let cdataNode: XmlNodeBase | void;
+  // Where the last markup the parser read ended in the source, which is
+  // where any text after it starts
+  let markupEnd = 0;
+
+  // Adds text to the current element, returning the node it went into
+  const addText = (text: string): XmlNodeBase | void => {
+    if (options.whitespace === "normalize") {
+      text = text.replace(/\s+/g, " ");
+    } else if (options.whitespace === "drop" && !text.trim()) {
+      return;
+    }
+
+    const element = delegates[0];
+    if (
+      (options.cdata === false || options.comments === false) &&
+      element instanceof XmlElement &&
+      lastText instanceof XmlTextNode &&
+      element.lastChild === lastText
+    ) {
+      lastText.text += text;
+      element.val += text;
+      // The merged text no longer matches any one stretch of the source
+      formats.delete(lastText);
+      return lastText;
+    }
+
+    return (lastText = element._text(text));
+  };
+
+  parser.onopentag = (tag: Tag | QualifiedTag) => {
+    let xmlTag = toXmlTag(tag);
+    // sax only lowercases names itself when parsing leniently
+    if (options.lowercase && parser.strict) xmlTag = lowercaseTag(xmlTag);
+    if (dtd) applyAttributeDefaults(xmlTag, dtd);
+    const startTag = source?.slice(
+      parser.startTagPosition - 1,
+      parser.position,
+    );
+    const normalized = normalizeAttributes(
+      xmlTag,
+      dtd,
+      startTag === undefined
+        ? undefined
+        : () => writtenAttributes(startTag, xmlTag.attributes),
+    );
+    if (options.normalizeAttributes) {
+      Object.assign(xmlTag.attributes, normalized);
+    }
+    const delegate = delegates[0]._opentag(xmlTag, parser);
+    if (delegate) delegates.unshift(delegate);
+    markupEnd = parser.position;
+
+    // The element that just opened is now at the front of the stack
+    const element = delegates[0];
+    if (
+      !options.normalizeAttributes &&
+      element instanceof XmlElement &&
+      Object.keys(normalized).length
+    ) {
+      setNormalizedAttributes(element, normalized);
+    }
+    if (options.positions === false && element instanceof XmlElement) {
+      element.line = element.column = null;
+      element.position = element.startTagPosition = null;
+    } else if (element instanceof XmlElement) {
+      // Measure against the original source, as ranges are
+      element.line = parser.line + trimmed.length - 1;
+      element.column =
+        parser.line === 0
+          ? trimmed[trimmed.length - 1].length + parser.column
+          : parser.column;
+      element.position = parser.position + offset;
+      element.startTagPosition = parser.startTagPosition + offset;
+    }
+    recorder?.openTag(element as XmlElement);
+    if (element instanceof XmlElement) ranges?.openTag(element);
+  };
+  parser.onclosetag = () => {
+    const element = delegates[0];
+    element._closetag();
+    // Every delegate but the root was pushed by an open tag
+    if (delegates.length > 1) delegates.shift();
+    markupEnd = parser.position;
+    recorder?.closeTag(element as XmlElement);
+    if (element instanceof XmlElement) ranges?.closeTag(element);
+  };
+  parser.ontext = (text: string) => {
+    const previous = lastText;
+    const node = addText(text);
+    if (node !== previous) recorder?.text(node);
+    ranges?.text(node);
+
+    if (
+      source !== undefined &&
+      node instanceof XmlTextNode &&
+      node.text === text &&
+      text.includes("\r")
+    ) {
+      // sax reports text once it reaches the start of the next construct, or
+      // the end of the source
+      let stop = parser.startTagPosition - 1;
+      if (stop < markupEnd) stop = parser.position;
+      const written = source.slice(markupEnd, stop);
+      setNormalizedText(node, text, normalizeWhitespace(text, written, false));
+    }
+  };
+  parser.oncdata = (cdata: string) => {
+    cdataNode =
+      options.cdata === false ? addText(cdata) : delegates[0]._cdata(cdata);
+    // CDATA is always literal
+    if (cdataNode instanceof XmlCDataNode && cdata.includes("\r")) {
+      setNormalizedText(
+        cdataNode,
+        cdata,
+        normalizeWhitespace(cdata, undefined, false),
+      );
+    }
+  };
+  parser.onclosecdata = () => {
+    markupEnd = parser.position;
+    recorder?.construct();
+    ranges?.cdata(cdataNode);
+  };
+  parser.oncomment = (comment: string) => {
+    const node =
+      options.comments === false ? undefined : delegates[0]._comment(comment);
+    // sax reports comments before reading their closing ">"
+    markupEnd = parser.position + 1;
+    recorder?.comment();
+    ranges?.comment(node);
+  };
+  parser.ondoctype = (doctype: string) => {
+    let parsed: XmlDtd;
+    try {
+      parsed = parseDtd(doctype);
+    } catch (error) {
+      return fail((error as Error).message);
+    }
+    dtd = parsed;
+    registerEntities(
+      parser,
+      parsed,
+      options.maxEntityExpansions ?? DEFAULT_MAX_ENTITY_EXPANSIONS,
+      options.maxEntityExpansionLength ?? DEFAULT_MAX_ENTITY_EXPANSION_LENGTH,
+      fail,
+    );
+
+    const doc = delegates[0] as XmlDocument;
+    if (doc._doctype) doc._doctype(doctype, parsed);
+    markupEnd = parser.position;
+    recorder?.doctype(doc);
+    ranges?.doctype();
+  };
+  parser.onprocessinginstruction = ({ name, body }) => {
+    const node = delegates[0]._processinginstruction(name, body);
+    markupEnd = parser.position;
+    // Only the document's XML declaration doesn't become a node
+    recorder?.instruction(node ?? (delegates[0] as XmlDocument).declaration);
+    ranges?.instruction(node);
+  };
+  parser.onerror = (err: Error) =>
+    delegates[0]._error(toParseError(err, parser, original, offset));
+
+  return delegates;
+}
+
+/**
+ * Visits a node and its descendants for walk()
+ * @param node The node to visit
+ * @param visitor The callbacks to call
+ * @returns "stop" if a callback ended the walk
+ */
+function walkNode(node: XmlNodeBase, visitor: XmlVisitor): "stop" | undefined {
+  const callbacks = visitor[node.type as keyof XmlVisitor] as
+    | XmlVisitorHooks<XmlNodeBase>
+    | XmlVisitorHooks<XmlNodeBase>["enter"];
+  const hooks =
+    typeof callbacks === "function" ? { enter: callbacks } : callbacks;
+
+  let signal = visitor.enter?.(node);
+  if (signal !== "stop") signal = hooks?.enter?.(node) || signal;
+  if (signal === "stop") return "stop";
+
+  if (signal !== "skip" && node instanceof XmlElement) {
+    for (const child of [...node.children]) {
+      if (walkNode(child, visitor) === "stop") return "stop";
+    }
+  }
+
+  if (hooks?.leave?.(node) === "stop" || visitor.leave?.(node) === "stop") {
+    return "stop";
+  }
+  return undefined;
+}
+
+/**
+ * Iterates over the nodes inside an element. Each element's children are
+ * read when the walk reaches them, so the tree can change along the way.
+ * @param element The element to start from
+ * @param options The order to visit the nodes in
+ * @returns A generator of the descendant nodes
+ */
+function* descendantNodes(
+  element: XmlElement,
+  options: XmlTraversalOptions,
+): Generator<XmlNodeBase> {
+  if (options.order === "breadth-first") {
+    const queue = [element];
+    for (let i = 0; i < queue.length; i++) {
+      for (const child of queue[i].children) {
+        yield child;
+        if (child instanceof XmlElement) queue.push(child);
+      }
+    }
+    return;
+  }
+
+  const stack = [...element.children].reverse();
+  while (stack.length) {
+    const node = stack.pop()!;
+    yield node;
+    if (node instanceof XmlElement) {
+      for (let i = node.children.length - 1; i >= 0; i--) {
+        stack.push(node.children[i]);
+      }
+    }
+  }
+}
+
+/**
+ * Gets the elements containing a node
+ * @param node The node to start from
+ * @returns The node's ancestors, nearest first
+ */
+function ancestors(node: XmlNodeBase): XmlElement[] {
+  const result: XmlElement[] = [];
+  for (let parent = node.parent; parent; parent = parent.parent) {
+    result.push(parent);
+  }
+  return result;
+}
+
+/**
+ * Finds the document at the top of a node's tree
+ * @param node The node to start from
+ * @returns The document, or null if the tree doesn't belong to one
+ */
+function ownerDocument(node: XmlNodeBase): XmlDocument | null {
+  let top = node;
+  while (top.parent) top = top.parent;
+  return top instanceof XmlDocument ? top : null;
+}
+
+/**
+ * Reads chunks from any supported stream source
+ * @param source The source to read
+ * @returns An async iterable of the source's chunks
+ */
+async function* readChunks(
+  source: XmlStreamSource,
+): AsyncGenerator<string | Uint8Array> {
+  if (!("getReader" in source)) {
+    yield* source;
+    return;
+  }
+
+  const reader = source.getReader();
+  let done = false;
+
+  try {
+    while (!done) {
+      const result = await reader.read();
+      done = result.done;
+      if (result.value !== undefined) yield result.value;
+    }
+  } finally {
+    // Stop the stream if our consumer stopped early
+    if (!done) await reader.cancel();
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Converts a sax tag to an XmlTag, flattening the attribute objects sax
+ * reports in namespace mode
+ * @param tag The tag from the parser
+ * @returns The equivalent XmlTag
+ */
+function toXmlTag(tag: Tag | QualifiedTag): XmlTag {
+  if (!("ns" in tag)) return tag;
+
+  const attributes: Record<string, string> = {};
+  for (const name in tag.attributes) {
+    if (Object.prototype.hasOwnProperty.call(tag.attributes, name)) {
+      attributes[name] = tag.attributes[name].value;
+    }
+  }
+
+  return { name: tag.name, attributes, uri: tag.uri, ns: tag.ns };
+}
+
+/**
+ * Checks whether an element has the given namespace URI and local name
+ * @param element The element to check
+ * @param name The namespace URI and local name to match
+ * @returns True if the element matches
+ */
+function matchesNS(element: XmlElement, name: XmlQualifiedName): boolean {
+  return (
+    element.localName === name.local &&
+    (element.namespaceURI ?? "") === name.uri
+  );
+}
+
+/**
+ * Parses the pseudo-attributes of an XML declaration
+ * @param data The declaration's content, like 'version="1.0" encoding="UTF-8"'
+ * @returns The parsed declaration
+ */
+function parseDeclaration(data: string): XmlDeclaration {
+  const values: Record<string, string> = {};
+
+  for (const match of data.matchAll(/([\w-]+)\s*=\s*(["'])(.*?)\2/g)) {
+    values[match[1]] = match[3];
+  }
+
+  return {
+    version: values.version ?? "1.0",
+    encoding: values.encoding ?? null,
+    standalone: values.standalone ? values.standalone === "yes" : null,
+  };
+}
+
+/**
+ * Formats an XML declaration
+ * @param declaration The declaration to format
+ * @returns The declaration as a string, like '<?xml version="1.0"?>'
+ */
+function formatDeclaration(declaration: XmlDeclaration): string {
+  let s = `<?xml version="${declaration.version}"`;
+
+  if (declaration.encoding !== null) {
+    s += ` encoding="${declaration.encoding}"`;
+  }
+
+  if (declaration.standalone !== null) {
+    s += ` standalone="${declaration.standalone ? "yes" : "no"}"`;
+  }
+
+  return s + "?>";
+}
+
+/**
+ * Reads the attribute values written in a start tag
+ * @param raw The start tag's source, like `<a x='1' >`
+ * @param attributes The element's attributes as parsed
+ * @returns The source of each attribute's value, without its quotes
+ */
+function writtenAttributes(
+  raw: string,
+  attributes: Record<string, string>,
+): Record<string, string> {
+  const written: Record<string, string> = {};
+  for (const attribute of parseStartTag(raw, attributes).attributes) {
+    written[attribute.name] = attribute.raw;
+  }
+  return written;
+}
+
+/**
+ * Records the spelling of a start tag
+ * @param raw The start tag's source, like `<a x='1' >`
+ * @param attributes The element's attributes as parsed
+ * @returns The start tag's format
+ */
+function parseStartTag(
+  raw: string,
+  attributes: Record<string, string>,
+): TagFormat {
+  const selfClosing = raw.endsWith("/>");
+  const format: TagFormat = {
+    attributes: [],
+    defaults: { ...attributes },
+    tail: "",
+    selfClosing,
+    endTail: "",
+  };
+  const pattern = /(\s+)([^\s=/>]+)(\s*=\s*)(?:"([^"]*)"|'([^']*)')/y;
+
+  // Start right after the tag name
+  let index = raw.search(/[\s/>]/);
+  let match: RegExpExecArray | null;
+  pattern.lastIndex = index;
+
+  while ((match = pattern.exec(raw))) {
+    const [, before, name, equals, double, single] = match;
+    format.attributes.push({
+      name,
+      before,
+      equals,
+      quote: double === undefined ? "'" : '"',
+      raw: double ?? single,
+      value: attributes[name],
+    });
+    delete format.defaults[name];
+    index = pattern.lastIndex;
+  }
+
+  format.tail = raw.slice(index, selfClosing ? -2 : -1);
+  return format;
+}
+
+/**
+ * Writes a node the way it was written in the source, falling back to the
+ * most compact form for anything that has changed since it was parsed
+ * @param node The node to write
+ * @returns The node's XML
+ */
+function preservedString(node: XmlNodeBase): string {
+  switch (node.type) {
+    case "element": {
+      const element = node as XmlElement;
+      const format = formats.get(element) as TagFormat | undefined;
+      const written = new Set<string>();
+      let s = `<${element.name}`;
+
+      // Attributes from the source keep their place and spelling
+      for (const attribute of format?.attributes ?? []) {
+        const { name, quote } = attribute;
+        if (!Object.prototype.hasOwnProperty.call(element.attr, name)) continue;
+
+        const value = element.attr[name];
+        const raw =
+          value === attribute.value
+            ? attribute.raw
+            : escapeAttribute(value, quote);
+        s += `${attribute.before}${name}${attribute.equals}${quote}${raw}${quote}`;
+        written.add(name);
+      }
+
+      for (const name in element.attr) {
+        if (
+          Object.prototype.hasOwnProperty.call(element.attr, name) &&
+          !written.has(name) &&
+          format?.defaults[name] !== element.attr[name]
+        ) {
+          s += ` ${name}="${escapeAttribute(element.attr[name], '"')}"`;
+        }
+      }
+
+      s += format?.tail ?? "";
+
+      if (!element.children.length && (format?.selfClosing ?? true)) {
+        return `${s}/>`;
+      }
+
+      s += ">";
+      for (const child of element.children) s += preservedString(child);
+      return `${s}</${element.name}${format?.endTail ?? ""}>`;
+    }
+    case "text": {
+      const text = (node as XmlTextNode).text;
+      return rawString(formats.get(node) as RawFormat | undefined, text, () =>
+        text.replace(/[&<>]/g, (c) => entities[c]),
+      );
+    }
+    case "cdata":
+      return `<![CDATA[${(node as XmlCDataNode).cdata}]]>`;
+    case "comment":
+      return `<!--${(node as XmlCommentNode).comment}-->`;
+    default:
+      return rawString(
+        formats.get(node) as RawFormat | undefined,
+        node.toString(),
+      );
+  }
+}
+
+/**
+ * Gets the source of a node if its value hasn't changed since it was parsed
+ * @param format The node's recorded format, if any
+ * @param value The node's current value
+ * @param write Writes the current value, if that isn't the value itself
+ * @returns The node's XML
+ */
+function rawString(
+  format: RawFormat | undefined,
+  value: string,
+  write = () => value,
+): string {
+  return format?.value === value ? format.raw : write();
+}
+
+const entities: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&apos;",
+  "\t": "&#9;",
+  "\n": "&#10;",
+  "\r": "&#13;",
+};
+
+/**
+ * Escapes an attribute value for the given quote character, keeping
+ * whitespace characters that would otherwise be normalized away
+ * @param value The attribute value
+ * @param quote The quote character around the value
+ * @returns The escaped value
+ */
+function escapeAttribute(value: string, quote: string): string {
+  return value
+    .replace(/[&<\t\n\r]/g, (c) => entities[c])
+    .replaceAll(quote, entities[quote]);
+}
+
+/**
+ * Serializes an element piece by piece, pretty-printing it unless it keeps
+ * its source formatting
+ * @param element The element to serialize
+ * @param indent The indentation to use
+ * @param options Formatting options
+ * @returns The pieces of the serialized element
+ */
+function* elementPieces(
+  element: XmlElement,
+  indent: string,
+  options?: XmlStringOptions,
+): Generator<string> {
+  if (options?.preserveFormatting ?? formats.has(element)) {
+    yield indent + preservedString(element);
+    return;
+  }
+
+  let s = `${indent}<${element.name}`;
+  const { step, linebreak } = layout(options);
+  const quote = options?.quote ?? '"';
+
+  const names = Object.keys(element.attr);
+  if (options?.sortAttributes) names.sort();
+  const attributes = names.map(
+    (name) => `${name}=${quote}${escapeXML(element.attr[name])}${quote}`,
+  );
+
+  // Wrap attributes onto lines of their own if the tag would be too long
+  const inline = attributes.map((attribute) => ` ${attribute}`).join("");
+  if (
+    linebreak &&
+    options?.maxWidth !== undefined &&
+    (s + inline).length + 1 > options.maxWidth
+  ) {
+    for (const attribute of attributes) {
+      s += `${linebreak}${indent}${step}${attribute}`;
+    }
+  } else {
+    s += inline;
+  }
+
+  if (element.children.length === 1 && element.children[0].type !== "element") {
+    s += `>${element.children[0].toString(options)}</${element.name}>`;
+  } else if (element.children.length) {
+    yield `${s}>${linebreak}`;
+    s = "";
+
+    const childIndent = indent + step;
+
+    for (const child of element.children) {
+      if (child instanceof XmlElement) {
+        yield* elementPieces(child, childIndent, options);
+      } else {
+        yield child.toStringWithIndent(childIndent, options);
+      }
+      yield linebreak;
+    }
+
+    s += `${indent}</${element.name}>`;
+  } else if (options?.emptyElements === "expanded") {
+    s += `></${element.name}>`;
+  } else if (options?.html) {
+    const whiteList = [
+      "area",
+      "base",
+      "br",
+      "col",
+      "embed",
+      "frame",
+      "hr",
+      "img",
+      "input",
+      "keygen",
+      "link",
+      "menuitem",
+      "meta",
+      "param",
+      "source",
+      "track",
+      "wbr",
+    ];
+
+    if (whiteList.includes(element.name)) {
+      s += options.emptyElements === "spaced" ? " />" : "/>";
+    } else {
+      s += `></${element.name}>`;
+    }
+  } else {
+    s += options?.emptyElements === "spaced" ? " />" : "/>";
+  }
+
+  yield s;
+}
+
+/**
+ * Gets the whitespace to lay out pretty-printed XML with
+ * @param options Formatting options
+ * @returns The indentation for each level of nesting, and the line ending
+ */
+function layout(options?: XmlStringOptions): {
+  step: string;
+  linebreak: string;
+} {
+  if (options?.compressed) return { step: "", linebreak: "" };
+
+  const indent = options?.indent ?? 2;
+  return {
+    step: typeof indent === "number" ? " ".repeat(indent) : indent,
+    linebreak: options?.newline ?? "\n",
+  };
+}
+
+/**
+ * Adds a line ending to the end of the output, if the options ask for one
+ * @param pieces The pieces of the output
+ * @param options Formatting options
+ * @returns The pieces of the output
+ */
+function* withTrailingNewline(
+  pieces: Iterable<string>,
+  options?: XmlStringOptions,
+): Generator<string> {
+  let tail = "";
+  for (const piece of pieces) {
+    yield piece;
+    if (piece) tail = piece;
+  }
+
+  const newline = options?.newline ?? "\n";
+  if (options?.trailingNewline && !tail.endsWith(newline)) yield newline;
+}
+
+function join(pieces: Iterable<string>): string {
+  let s = "";
+  for (const piece of pieces) s += piece;
+  return s;
 }
 
 /**
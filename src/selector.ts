@@ -0,0 +1,507 @@
+import type { XmlElement } from "./index.js";
+
+type Combinator = " " | ">" | "+" | "~";
+
+interface AttributeSelector {
+  name: string;
+  operator?: "=" | "^=" | "$=" | "*=" | "~=" | "|=";
+  value?: string;
+  ignoreCase: boolean;
+}
+
+type PseudoClass =
+  | { kind: "first-child" | "last-child" | "only-child" | "empty" }
+  | { kind: "nth-child" | "nth-last-child"; a: number; b: number }
+  | { kind: "not" | "has"; selectors: ComplexSelector[] };
+
+interface CompoundSelector {
+  /** The element name to match, or undefined for any element */
+  name?: string;
+  attributes: AttributeSelector[];
+  pseudos: PseudoClass[];
+}
+
+// A complex selector like "a > b c", stored left to right. Each part carries
+// the combinator to its left; the first part only has one in relative
+// selectors (the argument to :has()).
+type ComplexSelector = {
+  combinator?: Combinator;
+  compound: CompoundSelector;
+}[];
+
+//
+// Parser
+//
+
+class SelectorParser {
+  private index = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): ComplexSelector[] {
+    const selectors = this.selectorList(false);
+    if (this.index < this.source.length) throw this.unexpected();
+    return selectors;
+  }
+
+  private peek(): string {
+    return this.source[this.index] ?? "";
+  }
+
+  private error(message: string): Error {
+    return new Error(`Invalid selector "${this.source}": ${message}`);
+  }
+
+  private unexpected(): Error {
+    return this.index < this.source.length
+      ? this.error(`unexpected "${this.peek()}" at position ${this.index}`)
+      : this.error("unexpected end of selector");
+  }
+
+  private skipWhitespace(): boolean {
+    const start = this.index;
+    while (/\s/.test(this.peek())) this.index++;
+    return this.index > start;
+  }
+
+  private expect(char: string): void {
+    if (this.peek() !== char) throw this.unexpected();
+    this.index++;
+  }
+
+  private selectorList(relative: boolean): ComplexSelector[] {
+    const selectors = [this.complexSelector(relative)];
+
+    while (this.peek() === ",") {
+      this.index++;
+      selectors.push(this.complexSelector(relative));
+    }
+
+    return selectors;
+  }
+
+  private complexSelector(relative: boolean): ComplexSelector {
+    this.skipWhitespace();
+
+    const parts: ComplexSelector = [];
+    let combinator: Combinator | undefined;
+
+    if (relative) {
+      combinator = this.combinator() ?? " ";
+    }
+
+    for (;;) {
+      parts.push({ combinator, compound: this.compoundSelector() });
+
+      const whitespace = this.skipWhitespace();
+      const next = this.peek();
+      if (!next || next === "," || next === ")") break;
+
+      combinator = this.combinator() ?? (whitespace ? " " : undefined);
+      if (!combinator) throw this.unexpected();
+    }
+
+    return parts;
+  }
+
+  private combinator(): Combinator | undefined {
+    const char = this.peek();
+    if (char === ">" || char === "+" || char === "~") {
+      this.index++;
+      this.skipWhitespace();
+      return char;
+    }
+    return undefined;
+  }
+
+  private compoundSelector(): CompoundSelector {
+    const compound: CompoundSelector = { attributes: [], pseudos: [] };
+    const start = this.index;
+
+    if (this.peek() === "*") {
+      this.index++;
+    } else if (this.startsIdentifier()) {
+      compound.name = this.identifier();
+    }
+
+    for (;;) {
+      const char = this.peek();
+
+      if (char === "#") {
+        this.index++;
+        compound.attributes.push({
+          name: "id",
+          operator: "=",
+          value: this.identifier(),
+          ignoreCase: false,
+        });
+      } else if (char === ".") {
+        this.index++;
+        compound.attributes.push({
+          name: "class",
+          operator: "~=",
+          value: this.identifier(),
+          ignoreCase: false,
+        });
+      } else if (char === "[") {
+        this.index++;
+        compound.attributes.push(this.attributeSelector());
+      } else if (char === ":") {
+        this.index++;
+        compound.pseudos.push(this.pseudoClass());
+      } else {
+        break;
+      }
+    }
+
+    if (this.index === start) throw this.unexpected();
+    return compound;
+  }
+
+  private startsIdentifier(): boolean {
+    const char = this.peek();
+    return /[A-Za-z_\\\u0080-\uFFFF]/.test(char) || char === "-";
+  }
+
+  // Identifiers allow backslash escapes, so "soap\:Envelope" matches the
+  // element named "soap:Envelope".
+  private identifier(): string {
+    let name = "";
+
+    while (this.index < this.source.length) {
+      const char = this.peek();
+      if (char === "\\") {
+        name += this.source[this.index + 1] ?? "";
+        this.index += 2;
+      } else if (/[\w\-\u0080-\uFFFF]/.test(char)) {
+        name += char;
+        this.index++;
+      } else {
+        break;
+      }
+    }
+
+    if (!name) throw this.unexpected();
+    return name;
+  }
+
+  private attributeSelector(): AttributeSelector {
+    this.skipWhitespace();
+    const selector: AttributeSelector = {
+      name: this.identifier(),
+      ignoreCase: false,
+    };
+    this.skipWhitespace();
+
+    const operator = /^[\^$*~|]?=/.exec(this.source.slice(this.index));
+    if (operator) {
+      this.index += operator[0].length;
+      this.skipWhitespace();
+      selector.operator = operator[0] as AttributeSelector["operator"];
+      selector.value = this.attributeValue();
+      this.skipWhitespace();
+
+      if (/[iI]/.test(this.peek())) {
+        selector.ignoreCase = true;
+        this.index++;
+        this.skipWhitespace();
+      }
+    }
+
+    this.expect("]");
+    return selector;
+  }
+
+  private attributeValue(): string {
+    const quote = this.peek();
+    if (quote !== '"' && quote !== "'") return this.identifier();
+
+    let value = "";
+    this.index++;
+
+    while (this.peek() !== quote) {
+      if (this.index >= this.source.length) throw this.unexpected();
+      if (this.peek() === "\\") this.index++;
+      value += this.peek();
+      this.index++;
+    }
+
+    this.index++;
+    return value;
+  }
+
+  private pseudoClass(): PseudoClass {
+    const name = this.identifier().toLowerCase();
+
+    switch (name) {
+      case "first-child":
+      case "last-child":
+      case "only-child":
+      case "empty":
+        return { kind: name };
+      case "nth-child":
+      case "nth-last-child": {
+        this.expect("(");
+        const end = this.source.indexOf(")", this.index);
+        if (end === -1) throw this.unexpected();
+        const [a, b] = this.nth(this.source.slice(this.index, end));
+        this.index = end + 1;
+        return { kind: name, a, b };
+      }
+      case "not":
+      case "has": {
+        this.expect("(");
+        const selectors = this.selectorList(name === "has");
+        this.skipWhitespace();
+        this.expect(")");
+        return { kind: name, selectors };
+      }
+      default:
+        throw this.error(`unsupported pseudo-class ":${name}"`);
+    }
+  }
+
+  // Parses the An+B microsyntax used by :nth-child()
+  private nth(expression: string): [number, number] {
+    const value = expression.trim().toLowerCase().replace(/\s+/g, "");
+    if (value === "odd") return [2, 1];
+    if (value === "even") return [2, 0];
+
+    const match = /^(?:([+-]?\d*)n)?([+-]?\d+)?$/.exec(value);
+    if (!value || !match) {
+      throw this.error(`invalid :nth-child() argument "${expression}"`);
+    }
+
+    const [, a, b] = match;
+    const step =
+      a === undefined ? 0 : a === "" || a === "+" ? 1 : a === "-" ? -1 : +a;
+    return [step, b ? +b : 0];
+  }
+}
+
+//
+// Matching
+//
+
+class Matcher {
+  constructor(readonly scope: XmlElement) {}
+
+  /** Returns all elements below the scope, in document order */
+  descendants(): XmlElement[] {
+    const result: XmlElement[] = [];
+    collectDescendants(this.scope, result);
+    return result;
+  }
+
+  matchesAny(element: XmlElement, selectors: ComplexSelector[]): boolean {
+    return selectors.some((selector) =>
+      this.matches(element, selector, selector.length - 1),
+    );
+  }
+
+  private matches(
+    element: XmlElement,
+    selector: ComplexSelector,
+    index: number,
+    anchor?: XmlElement,
+  ): boolean {
+    const { combinator, compound } = selector[index];
+    if (!this.matchesCompound(element, compound)) return false;
+
+    const test =
+      index === 0
+        ? (candidate: XmlElement) => candidate === anchor
+        : (candidate: XmlElement) =>
+            this.matches(candidate, selector, index - 1, anchor);
+
+    // The left-most part of a non-relative selector has nothing to satisfy
+    if (!combinator) return true;
+
+    switch (combinator) {
+      case ">": {
+        const parent = element.parent;
+        return !!parent && test(parent);
+      }
+      case " ": {
+        for (let p = element.parent; p; p = p.parent) {
+          if (test(p)) return true;
+        }
+        return false;
+      }
+      case "+": {
+        const previous = this.previousSiblings(element)[0];
+        return !!previous && test(previous);
+      }
+      case "~":
+        return this.previousSiblings(element).some(test);
+    }
+  }
+
+  private matchesCompound(
+    element: XmlElement,
+    compound: CompoundSelector,
+  ): boolean {
+    if (compound.name !== undefined && element.name !== compound.name) {
+      return false;
+    }
+
+    return (
+      compound.attributes.every((selector) =>
+        matchesAttribute(element, selector),
+      ) &&
+      compound.pseudos.every((pseudo) => this.matchesPseudo(element, pseudo))
+    );
+  }
+
+  private matchesPseudo(element: XmlElement, pseudo: PseudoClass): boolean {
+    switch (pseudo.kind) {
+      case "first-child":
+        return this.siblings(element)[0] === element;
+      case "last-child":
+        return this.siblings(element).at(-1) === element;
+      case "only-child":
+        return this.siblings(element).length === 1;
+      case "empty":
+        return element.children.every(
+          (child) =>
+            child.type === "comment" || child.type === "processinginstruction",
+        );
+      case "nth-child":
+      case "nth-last-child": {
+        const siblings = this.siblings(element);
+        const index = siblings.indexOf(element);
+        const position =
+          pseudo.kind === "nth-child" ? index + 1 : siblings.length - index;
+        return matchesNth(position, pseudo.a, pseudo.b);
+      }
+      case "not":
+        return !this.matchesAny(element, pseudo.selectors);
+      case "has":
+        return pseudo.selectors.some((selector) => this.has(element, selector));
+    }
+  }
+
+  // Whether any element related to the anchor by a relative selector matches
+  private has(anchor: XmlElement, selector: ComplexSelector): boolean {
+    const leading = selector[0].combinator;
+    const candidates: XmlElement[] = [];
+
+    if (leading === "+" || leading === "~") {
+      // Sibling selectors can reach later siblings and their descendants
+      for (const sibling of this.followingSiblings(anchor)) {
+        candidates.push(sibling);
+        collectDescendants(sibling, candidates);
+      }
+    } else {
+      collectDescendants(anchor, candidates);
+    }
+
+    return candidates.some((candidate) =>
+      this.matches(candidate, selector, selector.length - 1, anchor),
+    );
+  }
+
+  private siblings(element: XmlElement): XmlElement[] {
+    const parent = element.parent;
+    return parent ? childElements(parent) : [element];
+  }
+
+  /** Previous element siblings, nearest first */
+  private previousSiblings(element: XmlElement): XmlElement[] {
+    const siblings = this.siblings(element);
+    return siblings.slice(0, siblings.indexOf(element)).reverse();
+  }
+
+  private followingSiblings(element: XmlElement): XmlElement[] {
+    const siblings = this.siblings(element);
+    return siblings.slice(siblings.indexOf(element) + 1);
+  }
+}
+
+function childElements(element: XmlElement): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement => child.type === "element",
+  );
+}
+
+function collectDescendants(element: XmlElement, result: XmlElement[]): void {
+  for (const child of childElements(element)) {
+    result.push(child);
+    collectDescendants(child, result);
+  }
+}
+
+function matchesAttribute(
+  element: XmlElement,
+  selector: AttributeSelector,
+): boolean {
+  if (!Object.prototype.hasOwnProperty.call(element.attr, selector.name)) {
+    return false;
+  }
+  if (!selector.operator) return true;
+
+  let actual = element.attr[selector.name];
+  let expected = selector.value!;
+
+  if (selector.ignoreCase) {
+    actual = actual.toLowerCase();
+    expected = expected.toLowerCase();
+  }
+
+  switch (selector.operator) {
+    case "=":
+      return actual === expected;
+    case "^=":
+      return expected !== "" && actual.startsWith(expected);
+    case "$=":
+      return expected !== "" && actual.endsWith(expected);
+    case "*=":
+      return expected !== "" && actual.includes(expected);
+    case "~=":
+      return actual.split(/\s+/).includes(expected);
+    case "|=":
+      return actual === expected || actual.startsWith(`${expected}-`);
+  }
+}
+
+function matchesNth(position: number, a: number, b: number): boolean {
+  if (a === 0) return position === b;
+  const n = (position - b) / a;
+  return Number.isInteger(n) && n >= 0;
+}
+
+/**
+ * Finds all elements below the given element that match a CSS selector
+ * @param selector The CSS selector (or comma-separated selector list)
+ * @param scope The element to search beneath
+ * @returns Matching elements in document order
+ */
+export function querySelectorAll(
+  selector: string,
+  scope: XmlElement,
+): XmlElement[] {
+  const selectors = new SelectorParser(selector).parse();
+  const matcher = new Matcher(scope);
+
+  return matcher
+    .descendants()
+    .filter((element) => matcher.matchesAny(element, selectors));
+}
+
+/**
+ * Finds the first element below the given element that matches a CSS selector
+ * @param selector The CSS selector (or comma-separated selector list)
+ * @param scope The element to search beneath
+ * @returns The first matching element in document order, or undefined
+ */
+export function querySelector(
+  selector: string,
+  scope: XmlElement,
+): XmlElement | undefined {
+  const selectors = new SelectorParser(selector).parse();
+  const matcher = new Matcher(scope);
+
+  return matcher
+    .descendants()
+    .find((element) => matcher.matchesAny(element, selectors));
+}
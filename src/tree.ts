@@ -0,0 +1,51 @@
+import {
+  XmlCDataNode,
+  XmlCommentNode,
+  XmlElement,
+  XmlProcessingInstructionNode,
+  XmlTextNode,
+} from "./index.js";
+import type { XmlNodeBase } from "./index.js";
+
+/** Copies a node and its descendants, for adding to another tree */
+export function copy(node: XmlNodeBase): XmlNodeBase {
+  switch (node.type) {
+    case "element": {
+      const element = node as XmlElement;
+      const result = new XmlElement(
+        {
+          name: element.name,
+          attributes: { ...element.attr },
+          uri: element.namespaceURI ?? undefined,
+          ns: element.namespaces ?? undefined,
+        },
+        null,
+      );
+      for (const child of element.children) result.appendChild(copy(child));
+      return result;
+    }
+    case "text":
+      return new XmlTextNode((node as XmlTextNode).text);
+    case "cdata":
+      return new XmlCDataNode((node as XmlCDataNode).cdata);
+    case "comment":
+      return new XmlCommentNode((node as XmlCommentNode).comment);
+    default: {
+      const { target, data } = node as XmlProcessingInstructionNode;
+      return new XmlProcessingInstructionNode(target, data);
+    }
+  }
+}
+
+/** Finds the namespace bound to a prefix by the xmlns attributes in scope */
+export function namespaceFor(
+  element: XmlElement | undefined,
+  prefix: string,
+): string | undefined {
+  const attribute = prefix ? `xmlns:${prefix}` : "xmlns";
+  for (let current = element; current; current = current.parent ?? undefined) {
+    const uri = current.attr[attribute];
+    if (uri !== undefined) return uri;
+  }
+  return undefined;
+}
@@ -0,0 +1,393 @@
+import {
+  validCData,
+  validComment,
+  validInstruction,
+  validName,
+} from "./builder.js";
+import type { XmlBuilderValue } from "./builder.js";
+import { XmlElement } from "./index.js";
+import type { XmlDeclaration, XmlNodeBase, XmlStringOptions } from "./index.js";
+
+/**
+ * Somewhere to write XML text: a Node.js Writable stream, a web
+ * WritableStream, or a function called with each chunk (which can return a
+ * promise to slow the writer down; anything else it returns is ignored)
+ */
+export type XmlWriterTarget =
+  | NodeTarget
+  | WebTarget
+  | ((chunk: string) => unknown);
+
+type NodeTarget = {
+  write(chunk: string): boolean;
+  end(): unknown;
+  once(
+    event: "drain" | "finish" | "error",
+    listener: (error?: unknown) => void,
+  ): unknown;
+  removeListener(
+    event: "drain" | "finish" | "error",
+    listener: (error?: unknown) => void,
+  ): unknown;
+};
+
+type WebTarget = {
+  getWriter(): {
+    write(chunk: string): Promise<void>;
+    close(): Promise<void>;
+    releaseLock(): void;
+    readonly ready: Promise<unknown>;
+  };
+};
+
+// How much text to collect before handing it to the target
+const CHUNK_SIZE = 16384;
+
+/**
+ * Writes XML directly to a stream, one node at a time, for documents too
+ * large to build as a tree. Output is compact (no indentation), and text and
+ * attribute values are escaped as toString() escapes them.
+ *
+ * Writing methods collect text in memory and return immediately; call
+ * `flush()` now and then (like after each record) to hand it to the target
+ * and wait for the target to catch up.
+ * @example
+ * ```ts
+ * import { createWriteStream } from "node:fs";
+ * import { XmlWriter } from "xmldoc";
+ *
+ * const writer = new XmlWriter(createWriteStream("feed.xml"));
+ * writer.declaration().startElement("feed");
+ * for (const row of rows) {
+ *   writer.startElement("entry").attribute("id", row.id).text(row.title);
+ *   writer.endElement();
+ *   await writer.flush();
+ * }
+ * await writer.end();
+ * ```
+ */
+export class XmlWriter {
+  private readonly output: Output;
+  private buffer = "";
+  private readonly openElements: string[] = [];
+  // Whether the current start tag still takes attributes
+  private inStartTag = false;
+  private started = false;
+  private ended = false;
+
+  /**
+   * Creates a new writer
+   * @param target Where to write the XML
+   */
+  constructor(target: XmlWriterTarget) {
+    this.output = new Output(target);
+  }
+
+  /**
+   * Writes an XML declaration, which must come first
+   * @param declaration The version, encoding and standalone status to
+   * declare (defaults to version 1.0 and UTF-8)
+   * @returns This writer
+   * @throws {Error} If anything has already been written
+   */
+  declaration(declaration: Partial<XmlDeclaration> = {}): this {
+    if (this.started) {
+      throw new Error("The XML declaration must be written first");
+    }
+    const {
+      version = "1.0",
+      encoding = "UTF-8",
+      standalone = null,
+    } = declaration;
+
+    let s = `<?xml version="${version}"`;
+    if (encoding !== null) s += ` encoding="${encoding}"`;
+    if (standalone !== null) s += ` standalone="${standalone ? "yes" : "no"}"`;
+    return this.write(`${s}?>`);
+  }
+
+  /**
+   * Starts an element. Its attributes can be written until anything else is.
+   * @param name The element name
+   * @returns This writer
+   * @throws {Error} If the name is not a valid XML name
+   */
+  startElement(name: string): this {
+    this.write(`<${validName(name)}`);
+    this.openElements.push(name);
+    this.inStartTag = true;
+    return this;
+  }
+
+  /**
+   * Writes an attribute of the element just started
+   * @param name The attribute name
+   * @param value The attribute value (escaped on output)
+   * @returns This writer
+   * @throws {Error} If the name is invalid or the element's content has
+   * already been started
+   */
+  attribute(name: string, value: XmlBuilderValue): this {
+    if (!this.inStartTag) {
+      throw new Error("Attributes must be written right after startElement()");
+    }
+    this.buffer += ` ${validName(name)}="${escapeXML(String(value))}"`;
+    return this;
+  }
+
+  /**
+   * Writes text
+   * @param text The text content (escaped on output)
+   * @returns This writer
+   */
+  text(text: XmlBuilderValue): this {
+    return this.write(escapeXML(String(text)));
+  }
+
+  /**
+   * Writes a CDATA section
+   * @param cdata The CDATA content
+   * @returns This writer
+   * @throws {Error} If the content contains "]]>"
+   */
+  cdata(cdata: XmlBuilderValue): this {
+    return this.write(`<![CDATA[${validCData(String(cdata))}]]>`);
+  }
+
+  /**
+   * Writes a comment
+   * @param comment The comment content
+   * @returns This writer
+   * @throws {Error} If the content contains "--" or ends with "-"
+   */
+  comment(comment: XmlBuilderValue): this {
+    return this.write(`<!--${validComment(String(comment))}-->`);
+  }
+
+  /**
+   * Writes a processing instruction
+   * @param target The instruction's target, like "xml-stylesheet"
+   * @param data The rest of the instruction
+   * @returns This writer
+   * @throws {Error} If the target is invalid or the data contains "?>"
+   */
+  processingInstruction(target: string, data: XmlBuilderValue = ""): this {
+    const content = validInstruction(target, String(data));
+    return this.write(`<?${target}${content ? ` ${content}` : ""}?>`);
+  }
+
+  /**
+   * Writes an existing node, like an element from a parsed document
+   * @param node The node to write
+   * @param options Formatting options (compact by default)
+   * @returns This writer
+   */
+  node(
+    node: XmlNodeBase,
+    options: XmlStringOptions = { compressed: true },
+  ): this {
+    const chunks =
+      node instanceof XmlElement
+        ? node.toChunks(options)
+        : [node.toString(options)];
+    for (const chunk of chunks) this.write(chunk);
+    return this;
+  }
+
+  /**
+   * Ends the element most recently started, as an empty element tag if
+   * nothing was written inside it
+   * @returns This writer
+   * @throws {Error} If there is no element to end
+   */
+  endElement(): this {
+    const name = this.openElements.pop();
+    if (name === undefined) throw new Error("There is no element to end");
+
+    if (this.inStartTag) {
+      this.buffer += "/>";
+      this.inStartTag = false;
+    } else {
+      this.buffer += `</${name}>`;
+    }
+    return this;
+  }
+
+  /**
+   * Hands everything written so far to the target, and waits until the
+   * target is ready for more
+   * @returns A promise that resolves when the target is ready
+   */
+  async flush(): Promise<void> {
+    this.send();
+    await this.output.drain();
+  }
+
+  /**
+   * Ends any elements still open, flushes, and ends the target (unless it's
+   * a function)
+   * @returns A promise that resolves when everything has been written
+   */
+  async end(): Promise<void> {
+    while (this.openElements.length) this.endElement();
+    this.ended = true;
+    await this.flush();
+    await this.output.close();
+  }
+
+  /** Adds text to the buffer, closing the current start tag first */
+  private write(s: string): this {
+    if (this.ended) throw new Error("The writer has already been ended");
+    if (this.inStartTag) {
+      this.buffer += ">";
+      this.inStartTag = false;
+    }
+    this.buffer += s;
+    this.started = true;
+    if (this.buffer.length >= CHUNK_SIZE) this.send();
+    return this;
+  }
+
+  private send(): void {
+    if (!this.buffer) return;
+    this.output.write(this.buffer);
+    this.buffer = "";
+  }
+}
+
+/**
+ * Writes chunks of text to a target, waiting for the target to catch up
+ * whenever it asks to, and then ends the target
+ * @param target Where to write the text
+ * @param chunks The text to write
+ */
+export async function writeChunks(
+  target: XmlWriterTarget,
+  chunks: Iterable<string>,
+): Promise<void> {
+  const output = new Output(target);
+  for (const chunk of chunks) {
+    output.write(chunk);
+    await output.drain();
+  }
+  await output.close();
+}
+
+/**
+ * Collects small pieces of text into chunks of a reasonable size
+ * @param pieces The pieces of text
+ * @returns The chunks
+ */
+export function* batch(pieces: Iterable<string>): Generator<string> {
+  let chunk = "";
+  for (const piece of pieces) {
+    chunk += piece;
+    if (chunk.length >= CHUNK_SIZE) {
+      yield chunk;
+      chunk = "";
+    }
+  }
+  if (chunk) yield chunk;
+}
+
+/**
+ * Escapes XML special characters
+ * @param value The string to escape
+ * @returns The escaped string
+ */
+export function escapeXML(value: string): string {
+  return value
+    .toString()
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/'/g, "&apos;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Writes to any supported target, keeping track of when it has asked the
+ * writer to wait
+ */
+class Output {
+  // The writer locking a web stream
+  private readonly writer: ReturnType<WebTarget["getWriter"]> | null;
+  // Writes the target hasn't finished yet, and stream events to wait for
+  private pending: Promise<unknown>[] = [];
+
+  constructor(private readonly target: XmlWriterTarget) {
+    this.writer =
+      typeof target !== "function" && "getWriter" in target
+        ? target.getWriter()
+        : null;
+  }
+
+  write(chunk: string): void {
+    const target = this.target;
+
+    if (this.writer) {
+      this.track(this.writer.write(chunk));
+      this.track(this.writer.ready);
+    } else if (typeof target === "function") {
+      this.track(target(chunk));
+    } else if ("write" in target && !target.write(chunk)) {
+      this.track(nextEvent(target, "drain"));
+    }
+  }
+
+  /** Waits until the target is ready for more */
+  async drain(): Promise<void> {
+    const pending = this.pending;
+    this.pending = [];
+    await Promise.all(pending);
+  }
+
+  async close(): Promise<void> {
+    await this.drain();
+
+    const target = this.target;
+    if (this.writer) {
+      await this.writer.close();
+      this.writer.releaseLock();
+    } else if (typeof target !== "function" && "end" in target) {
+      const finished = nextEvent(target, "finish");
+      target.end();
+      await finished;
+    }
+  }
+
+  private track(result: unknown): void {
+    // A function target can return anything, but only promises are waited for
+    if (typeof (result as Promise<unknown> | undefined)?.then !== "function") {
+      return;
+    }
+    // Failures are reported by the next drain()
+    const promise = Promise.resolve(result);
+    promise.catch(() => {});
+    this.pending.push(promise);
+  }
+}
+
+/**
+ * Waits for a Node.js stream to emit an event, or to fail first. Both
+ * listeners are removed once either is called.
+ * @param target The stream
+ * @param event The event to wait for
+ */
+function nextEvent(
+  target: NodeTarget,
+  event: "drain" | "finish",
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const done = () => {
+      target.removeListener("error", fail);
+      resolve();
+    };
+    const fail = (error?: unknown) => {
+      target.removeListener(event, done);
+      reject(error);
+    };
+    target.once(event, done);
+    target.once("error", fail);
+  });
+}
@@ -0,0 +1,1333 @@
+import type {
+  XmlCDataNode,
+  XmlCommentNode,
+  XmlElement,
+  XmlProcessingInstructionNode,
+  XmlTextNode,
+} from "./index.js";
+
+/**
+ * An attribute as seen by an XPath expression. xmldoc stores attributes as a
+ * plain object on each element, so these are created on demand by queries
+ * that use the attribute axis (like `@id`).
+ */
+export interface XPathAttribute {
+  readonly type: "attribute";
+  /** The attribute name, like "id" for id="..." */
+  name: string;
+  /** The attribute value */
+  value: string;
+  /** The element the attribute belongs to */
+  ownerElement: XmlElement;
+}
+
+/** Any node that can be returned by an XPath query */
+export type XPathNode =
+  | XmlElement
+  | XmlTextNode
+  | XmlCDataNode
+  | XmlCommentNode
+  | XmlProcessingInstructionNode
+  | XPathAttribute;
+
+/** The result of evaluating an XPath expression */
+export type XPathResult = XPathNode[] | string | number | boolean;
+
+/**
+ * Options for evaluating XPath expressions
+ */
+export interface XPathOptions {
+  /** Values for `$name` variable references in the expression */
+  variables?: Record<string, XPathResult>;
+  /**
+   * Namespace URIs for the prefixes used in name tests. A prefixed name test
+   * like "soap:Body" whose prefix is listed here matches by namespace URI and
+   * local name (in documents parsed with the `xmlns` option); all other name
+   * tests match the qualified name literally.
+   */
+  namespaces?: Record<string, string>;
+}
+
+// The root node sits above the top-most element, so that "/" and "/root" mean
+// what they do in XPath. It never escapes into results.
+interface RootNode {
+  readonly type: "root";
+  element: XmlElement;
+}
+
+type Node = XPathNode | RootNode;
+type Value = Node[] | string | number | boolean;
+
+type Axis =
+  | "ancestor"
+  | "ancestor-or-self"
+  | "attribute"
+  | "child"
+  | "descendant"
+  | "descendant-or-self"
+  | "following"
+  | "following-sibling"
+  | "namespace"
+  | "parent"
+  | "preceding"
+  | "preceding-sibling"
+  | "self";
+
+const axes = new Set<string>([
+  "ancestor",
+  "ancestor-or-self",
+  "attribute",
+  "child",
+  "descendant",
+  "descendant-or-self",
+  "following",
+  "following-sibling",
+  "namespace",
+  "parent",
+  "preceding",
+  "preceding-sibling",
+  "self",
+]);
+
+const nodeTypes = new Set([
+  "comment",
+  "text",
+  "processing-instruction",
+  "node",
+]);
+
+type NodeTest =
+  | { kind: "name"; name: string }
+  | { kind: "type"; type: string; target?: string };
+
+interface Step {
+  axis: Axis;
+  test: NodeTest;
+  predicates: Expr[];
+}
+
+type Expr =
+  | { kind: "binary"; op: string; left: Expr; right: Expr }
+  | { kind: "negate"; operand: Expr }
+  | { kind: "filter"; primary: Expr; predicates: Expr[] }
+  | { kind: "path"; absolute: boolean; filter?: Expr; steps: Step[] }
+  | { kind: "literal"; value: string }
+  | { kind: "number"; value: number }
+  | { kind: "variable"; name: string }
+  | { kind: "call"; name: string; args: Expr[] };
+
+//
+// Lexer
+//
+
+interface Token {
+  kind: "number" | "literal" | "variable" | "name" | "operator" | "punct";
+  value: string;
+}
+
+const nameStart = "A-Za-z_\\u00C0-\\u02FF\\u0370-\\u1FFF\\u200C-\\uFFFD";
+const nameChar = `${nameStart}\\-.0-9\\u00B7\\u0300-\\u036F`;
+const ncName = `[${nameStart}][${nameChar}]*`;
+
+const tokenPatterns: [Token["kind"], RegExp][] = [
+  ["number", /\d+(?:\.\d*)?|\.\d+/y],
+  ["literal", /"[^"]*"|'[^']*'/y],
+  ["variable", new RegExp(`\\$${ncName}(?::${ncName})?`, "y")],
+  ["name", new RegExp(`${ncName}(?::(?:${ncName}|\\*))?|\\*`, "y")],
+  ["operator", /\/\/|\/|\||\+|-|=|!=|<=|<|>=|>/y],
+  ["punct", /\.\.|::|[()[\].@,]/y],
+];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const whitespace = /\s+/y;
+    whitespace.lastIndex = index;
+    if (whitespace.test(source)) {
+      index = whitespace.lastIndex;
+      continue;
+    }
+
+    let token: Token | undefined;
+    for (const [kind, pattern] of tokenPatterns) {
+      pattern.lastIndex = index;
+      const match = pattern.exec(source);
+      if (match) {
+        token = { kind, value: match[0] };
+        index = pattern.lastIndex;
+        break;
+      }
+    }
+
+    if (!token) {
+      throw new Error(
+        `Invalid XPath expression "${source}": unexpected character "${source[index]}"`,
+      );
+    }
+
+    // Per the spec, "*" and names like "div" are operators unless they appear
+    // somewhere an operator couldn't.
+    if (token.kind === "name") {
+      const previous = tokens[tokens.length - 1];
+      const operatorAllowed =
+        previous &&
+        previous.kind !== "operator" &&
+        !(
+          previous.kind === "punct" &&
+          ["@", "::", "(", "[", ","].includes(previous.value)
+        );
+
+      if (
+        operatorAllowed &&
+        ["*", "and", "or", "mod", "div"].includes(token.value)
+      ) {
+        token.kind = "operator";
+      }
+    }
+
+    if (token.kind === "literal") token.value = token.value.slice(1, -1);
+    if (token.kind === "variable") token.value = token.value.slice(1);
+
+    tokens.push(token);
+  }
+
+  return tokens;
+}
+
+//
+// Parser
+//
+
+class Parser {
+  private index = 0;
+
+  constructor(
+    private readonly source: string,
+    private readonly tokens: Token[],
+  ) {}
+
+  parse(): Expr {
+    const expr = this.orExpr();
+    if (this.index < this.tokens.length) throw this.unexpected();
+    return expr;
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.index + offset];
+  }
+
+  private is(kind: Token["kind"], value?: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return (
+      !!token &&
+      token.kind === kind &&
+      (value === undefined || token.value === value)
+    );
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index++];
+    if (!token) throw this.unexpected();
+    return token;
+  }
+
+  private expect(kind: Token["kind"], value: string): void {
+    if (!this.is(kind, value)) throw this.unexpected();
+    this.index++;
+  }
+
+  private unexpected(): Error {
+    const token = this.peek();
+    const found = token ? `"${token.value}"` : "end of expression";
+    return new Error(
+      `Invalid XPath expression "${this.source}": unexpected ${found}`,
+    );
+  }
+
+  private binary(operators: string[], operand: () => Expr): Expr {
+    let left = operand();
+    while (
+      this.peek()?.kind === "operator" &&
+      operators.includes(this.peek()!.value)
+    ) {
+      const op = this.next().value;
+      left = { kind: "binary", op, left, right: operand() };
+    }
+    return left;
+  }
+
+  private orExpr(): Expr {
+    return this.binary(["or"], () => this.andExpr());
+  }
+
+  private andExpr(): Expr {
+    return this.binary(["and"], () => this.equalityExpr());
+  }
+
+  private equalityExpr(): Expr {
+    return this.binary(["=", "!="], () => this.relationalExpr());
+  }
+
+  private relationalExpr(): Expr {
+    return this.binary(["<", "<=", ">", ">="], () => this.additiveExpr());
+  }
+
+  private additiveExpr(): Expr {
+    return this.binary(["+", "-"], () => this.multiplicativeExpr());
+  }
+
+  private multiplicativeExpr(): Expr {
+    return this.binary(["*", "div", "mod"], () => this.unaryExpr());
+  }
+
+  private unaryExpr(): Expr {
+    if (this.is("operator", "-")) {
+      this.index++;
+      return { kind: "negate", operand: this.unaryExpr() };
+    }
+    return this.unionExpr();
+  }
+
+  private unionExpr(): Expr {
+    return this.binary(["|"], () => this.pathExpr());
+  }
+
+  private pathExpr(): Expr {
+    const token = this.peek();
+    if (!token) throw this.unexpected();
+
+    const startsFilter =
+      token.kind === "number" ||
+      token.kind === "literal" ||
+      token.kind === "variable" ||
+      (token.kind === "punct" && token.value === "(") ||
+      (token.kind === "name" &&
+        this.is("punct", "(", 1) &&
+        !nodeTypes.has(token.value));
+
+    if (!startsFilter) return this.locationPath();
+
+    const primary = this.primaryExpr();
+    const predicates = this.predicates();
+    const filter: Expr = predicates.length
+      ? { kind: "filter", primary, predicates }
+      : primary;
+
+    if (this.is("operator", "/") || this.is("operator", "//")) {
+      const steps = this.is("operator", "//") ? [descendantOrSelf()] : [];
+      this.index++;
+      steps.push(...this.relativeLocationPath());
+      return { kind: "path", absolute: false, filter, steps };
+    }
+
+    return filter;
+  }
+
+  private primaryExpr(): Expr {
+    const token = this.next();
+
+    switch (token.kind) {
+      case "number":
+        return { kind: "number", value: Number(token.value) };
+      case "literal":
+        return { kind: "literal", value: token.value };
+      case "variable":
+        return { kind: "variable", name: token.value };
+      case "punct": {
+        const expr = this.orExpr();
+        this.expect("punct", ")");
+        return expr;
+      }
+      default: {
+        this.expect("punct", "(");
+        const args: Expr[] = [];
+        if (!this.is("punct", ")")) {
+          args.push(this.orExpr());
+          while (this.is("punct", ",")) {
+            this.index++;
+            args.push(this.orExpr());
+          }
+        }
+        this.expect("punct", ")");
+        return { kind: "call", name: token.value, args };
+      }
+    }
+  }
+
+  private predicates(): Expr[] {
+    const predicates: Expr[] = [];
+    while (this.is("punct", "[")) {
+      this.index++;
+      predicates.push(this.orExpr());
+      this.expect("punct", "]");
+    }
+    return predicates;
+  }
+
+  private locationPath(): Expr {
+    if (this.is("operator", "/")) {
+      this.index++;
+      const steps = this.startsStep() ? this.relativeLocationPath() : [];
+      return { kind: "path", absolute: true, steps };
+    }
+
+    if (this.is("operator", "//")) {
+      this.index++;
+      const steps = [descendantOrSelf(), ...this.relativeLocationPath()];
+      return { kind: "path", absolute: true, steps };
+    }
+
+    return {
+      kind: "path",
+      absolute: false,
+      steps: this.relativeLocationPath(),
+    };
+  }
+
+  private startsStep(): boolean {
+    const token = this.peek();
+    return (
+      !!token &&
+      (token.kind === "name" ||
+        (token.kind === "punct" && [".", "..", "@"].includes(token.value)))
+    );
+  }
+
+  private relativeLocationPath(): Step[] {
+    const steps = [this.step()];
+
+    while (this.is("operator", "/") || this.is("operator", "//")) {
+      if (this.next().value === "//") steps.push(descendantOrSelf());
+      steps.push(this.step());
+    }
+
+    return steps;
+  }
+
+  private step(): Step {
+    if (this.is("punct", ".")) {
+      this.index++;
+      return {
+        axis: "self",
+        test: { kind: "type", type: "node" },
+        predicates: [],
+      };
+    }
+
+    if (this.is("punct", "..")) {
+      this.index++;
+      return {
+        axis: "parent",
+        test: { kind: "type", type: "node" },
+        predicates: [],
+      };
+    }
+
+    let axis: Axis = "child";
+
+    if (this.is("punct", "@")) {
+      this.index++;
+      axis = "attribute";
+    } else if (this.is("name") && this.is("punct", "::", 1)) {
+      const name = this.next().value;
+      if (!axes.has(name)) {
+        throw new Error(
+          `Invalid XPath expression "${this.source}": unknown axis "${name}"`,
+        );
+      }
+      axis = name as Axis;
+      this.index++;
+    }
+
+    if (!this.is("name")) throw this.unexpected();
+    const name = this.next().value;
+    let test: NodeTest;
+
+    if (nodeTypes.has(name) && this.is("punct", "(")) {
+      this.index++;
+      test = { kind: "type", type: name };
+      if (name === "processing-instruction" && this.is("literal")) {
+        test.target = this.next().value;
+      }
+      this.expect("punct", ")");
+    } else {
+      test = { kind: "name", name };
+    }
+
+    return { axis, test, predicates: this.predicates() };
+  }
+}
+
+function descendantOrSelf(): Step {
+  return {
+    axis: "descendant-or-self",
+    test: { kind: "type", type: "node" },
+    predicates: [],
+  };
+}
+
+//
+// Evaluator
+//
+
+interface Context {
+  node: Node;
+  position: number;
+  size: number;
+}
+
+class Evaluation {
+  readonly root: RootNode;
+  private readonly parents = new Map<Node, Node>();
+  private readonly order = new Map<Node, number>();
+  private readonly attributes = new Map<XmlElement, XPathAttribute[]>();
+
+  variables: Record<string, Value>;
+  private readonly namespaces: Record<string, string>;
+  // The node XSLT's current() returns, while a stylesheet is being applied
+  current: Node | null = null;
+
+  constructor(top: XmlElement, options?: XPathOptions) {
+    this.variables = options?.variables ?? {};
+    this.namespaces = options?.namespaces ?? {};
+    this.root = { type: "root", element: top };
+    this.order.set(this.root, 0);
+    this.index(top, this.root);
+  }
+
+  // Records parents and document order for every node under the root.
+  private index(element: XmlElement, parent: Node): void {
+    const stack: [Node, Node][] = [[element, parent]];
+
+    while (stack.length) {
+      const [node, parent] = stack.pop()!;
+      this.parents.set(node, parent);
+      this.order.set(node, this.order.size);
+
+      const children = childNodes(node);
+      for (let i = children.length - 1; i >= 0; i--) {
+        stack.push([children[i], node]);
+      }
+    }
+  }
+
+  run(expr: Expr, node: Node): Value {
+    return this.evaluate(expr, { node, position: 1, size: 1 });
+  }
+
+  parentOf(node: Node): Node | undefined {
+    if (node.type === "attribute") return node.ownerElement;
+    return this.parents.get(node);
+  }
+
+  attributesOf(element: XmlElement): XPathAttribute[] {
+    let attributes = this.attributes.get(element);
+
+    if (!attributes) {
+      attributes = [];
+      for (const name in element.attr) {
+        if (Object.prototype.hasOwnProperty.call(element.attr, name)) {
+          attributes.push({
+            type: "attribute",
+            name,
+            value: element.attr[name],
+            ownerElement: element,
+          });
+        }
+      }
+      this.attributes.set(element, attributes);
+    }
+
+    return attributes;
+  }
+
+  /** Sorts nodes into document order, removing duplicates */
+  sort(nodes: Iterable<Node>): Node[] {
+    const unique = [...new Set(nodes)];
+    const key = (node: Node): [number, number] =>
+      node.type === "attribute"
+        ? [
+            this.order.get(node.ownerElement) ?? -1,
+            this.attributesOf(node.ownerElement).indexOf(node),
+          ]
+        : [this.order.get(node) ?? -1, -1];
+
+    return unique.sort((a, b) => {
+      const [aOrder, aAttr] = key(a);
+      const [bOrder, bAttr] = key(b);
+      return aOrder - bOrder || aAttr - bAttr;
+    });
+  }
+
+  evaluate(expr: Expr, context: Context): Value {
+    switch (expr.kind) {
+      case "literal":
+      case "number":
+        return expr.value;
+      case "variable":
+        return this.variable(expr.name);
+      case "negate":
+        return -toNumber(this.evaluate(expr.operand, context));
+      case "binary":
+        return this.binary(expr.op, expr.left, expr.right, context);
+      case "call":
+        return this.call(expr.name, expr.args, context);
+      case "filter": {
+        const nodes = this.nodeSet(expr.primary, context);
+        return this.filter(nodes, expr.predicates);
+      }
+      case "path":
+        return this.path(expr, context);
+    }
+  }
+
+  private variable(name: string): Value {
+    if (!Object.prototype.hasOwnProperty.call(this.variables, name)) {
+      throw new Error(`Undefined XPath variable "$${name}"`);
+    }
+    return this.variables[name];
+  }
+
+  nodeSet(expr: Expr, context: Context): Node[] {
+    const value = this.evaluate(expr, context);
+    if (!Array.isArray(value)) {
+      throw new Error("XPath expression does not evaluate to a node-set");
+    }
+    return value;
+  }
+
+  private binary(op: string, left: Expr, right: Expr, context: Context): Value {
+    switch (op) {
+      case "or":
+        return (
+          toBoolean(this.evaluate(left, context)) ||
+          toBoolean(this.evaluate(right, context))
+        );
+      case "and":
+        return (
+          toBoolean(this.evaluate(left, context)) &&
+          toBoolean(this.evaluate(right, context))
+        );
+      case "|":
+        return this.sort([
+          ...this.nodeSet(left, context),
+          ...this.nodeSet(right, context),
+        ]);
+    }
+
+    const a = this.evaluate(left, context);
+    const b = this.evaluate(right, context);
+
+    switch (op) {
+      case "+":
+        return toNumber(a) + toNumber(b);
+      case "-":
+        return toNumber(a) - toNumber(b);
+      case "*":
+        return toNumber(a) * toNumber(b);
+      case "div":
+        return toNumber(a) / toNumber(b);
+      case "mod":
+        return toNumber(a) % toNumber(b);
+      default:
+        return compare(op, a, b);
+    }
+  }
+
+  private filter(nodes: Node[], predicates: Expr[]): Node[] {
+    for (const predicate of predicates) {
+      nodes = nodes.filter((node, i) => {
+        const context = { node, position: i + 1, size: nodes.length };
+        const result = this.evaluate(predicate, context);
+        return typeof result === "number"
+          ? result === context.position
+          : toBoolean(result);
+      });
+    }
+    return nodes;
+  }
+
+  private path(
+    expr: Extract<Expr, { kind: "path" }>,
+    context: Context,
+  ): Node[] {
+    let nodes: Node[] = expr.absolute
+      ? [this.root]
+      : expr.filter
+        ? this.nodeSet(expr.filter, context)
+        : [context.node];
+
+    for (const step of expr.steps) {
+      const selected: Node[] = [];
+
+      for (const node of nodes) {
+        const candidates = this.axis(step.axis, node).filter((candidate) =>
+          matches(step.test, step.axis, candidate, this.namespaces),
+        );
+        selected.push(...this.filter(candidates, step.predicates));
+      }
+
+      nodes = this.sort(selected);
+    }
+
+    return nodes;
+  }
+
+  /** Returns the nodes along an axis, in axis order (reverse axes reversed) */
+  private axis(axis: Axis, node: Node): Node[] {
+    switch (axis) {
+      case "self":
+        return [node];
+      case "child":
+        return childNodes(node);
+      case "attribute":
+        return node.type === "element" ? this.attributesOf(node) : [];
+      case "namespace":
+        return [];
+      case "parent": {
+        const parent = this.parentOf(node);
+        return parent ? [parent] : [];
+      }
+      case "ancestor":
+      case "ancestor-or-self": {
+        const result = axis === "ancestor-or-self" ? [node] : [];
+        for (let p = this.parentOf(node); p; p = this.parentOf(p)) {
+          result.push(p);
+        }
+        return result;
+      }
+      case "descendant":
+      case "descendant-or-self": {
+        const result = axis === "descendant-or-self" ? [node] : [];
+        collectDescendants(node, result);
+        return result;
+      }
+      case "following-sibling":
+      case "preceding-sibling": {
+        if (node.type === "attribute") return [];
+        const parent = this.parentOf(node);
+        if (!parent) return [];
+        const siblings = childNodes(parent);
+        const index = siblings.indexOf(node);
+        return axis === "following-sibling"
+          ? siblings.slice(index + 1)
+          : siblings.slice(0, index).reverse();
+      }
+      case "following": {
+        const result: Node[] = [];
+        let current: Node | undefined =
+          node.type === "attribute" ? node.ownerElement : node;
+        // Attributes are followed by their element's content
+        if (node.type === "attribute") collectDescendants(current, result);
+        for (; current; current = this.parentOf(current)) {
+          for (const sibling of this.axis("following-sibling", current)) {
+            result.push(sibling);
+            collectDescendants(sibling, result);
+          }
+        }
+        return result;
+      }
+      case "preceding": {
+        const result: Node[] = [];
+        let current: Node | undefined =
+          node.type === "attribute" ? node.ownerElement : node;
+        for (; current; current = this.parentOf(current)) {
+          for (const sibling of this.axis("preceding-sibling", current)) {
+            const subtree: Node[] = [sibling];
+            collectDescendants(sibling, subtree);
+            result.push(...subtree.reverse());
+          }
+        }
+        return result;
+      }
+    }
+  }
+
+  private call(name: string, args: Expr[], context: Context): Value {
+    const fn = functions[name];
+    if (!fn) throw new Error(`Unknown XPath function "${name}()"`);
+
+    const [min, max] = fn.arity;
+    if (args.length < min || args.length > max) {
+      throw new Error(
+        `Wrong number of arguments to XPath function "${name}()"`,
+      );
+    }
+
+    return fn.evaluate.call(this, context, args);
+  }
+
+  /** Evaluates the single optional node-set argument used by name(), etc. */
+  nodeArgument(args: Expr[], context: Context): Node | undefined {
+    if (!args.length) return context.node;
+    return this.nodeSet(args[0], context)[0];
+  }
+
+  /** Evaluates an optional string argument that defaults to the context node */
+  stringArgument(args: Expr[], context: Context): string {
+    return args.length
+      ? toString(this.evaluate(args[0], context))
+      : stringValue(context.node);
+  }
+}
+
+function childNodes(node: Node): Node[] {
+  if (node.type === "root") return [node.element];
+  if (node.type === "element") return node.children as Node[];
+  return [];
+}
+
+function collectDescendants(node: Node, result: Node[]): void {
+  for (const child of childNodes(node)) {
+    result.push(child);
+    collectDescendants(child, result);
+  }
+}
+
+function matches(
+  test: NodeTest,
+  axis: Axis,
+  node: Node,
+  namespaces: Record<string, string>,
+): boolean {
+  if (test.kind === "type") {
+    switch (test.type) {
+      case "node":
+        return true;
+      case "text":
+        return node.type === "text" || node.type === "cdata";
+      case "comment":
+        return node.type === "comment";
+      case "processing-instruction":
+        return (
+          node.type === "processinginstruction" &&
+          (test.target === undefined || node.target === test.target)
+        );
+      default:
+        return false;
+    }
+  }
+
+  // A name test only matches the principal node type of its axis
+  const principal = axis === "attribute" ? "attribute" : "element";
+  if (node.type !== principal) return false;
+  if (test.name === "*") return true;
+
+  const name = (node as XmlElement | XPathAttribute).name;
+  const colon = test.name.indexOf(":");
+
+  const prefix = test.name.slice(0, colon);
+
+  if (
+    colon !== -1 &&
+    Object.prototype.hasOwnProperty.call(namespaces, prefix)
+  ) {
+    const local = test.name.slice(colon + 1);
+    return (
+      namespaceURI(node) === namespaces[prefix] &&
+      (local === "*" || localName(name) === local)
+    );
+  }
+
+  if (test.name.endsWith(":*")) return name.startsWith(test.name.slice(0, -1));
+  return name === test.name;
+}
+
+function namespaceURI(node: Node | undefined): string {
+  if (node?.type === "element") return node.namespaceURI ?? "";
+
+  // Unprefixed attributes are never in a namespace
+  if (node?.type === "attribute") {
+    const colon = node.name.indexOf(":");
+    const prefix = node.name.slice(0, colon);
+    if (colon === -1 || prefix === "xmlns") return "";
+    return node.ownerElement.lookupNamespaceURI(prefix) ?? "";
+  }
+
+  return "";
+}
+
+//
+// Type conversions
+//
+
+function stringValue(node: Node): string {
+  switch (node.type) {
+    case "attribute":
+      return node.value;
+    case "text":
+      return node.text;
+    case "cdata":
+      return node.cdata;
+    case "comment":
+      return node.comment;
+    case "processinginstruction":
+      return node.data;
+    case "root":
+      return stringValue(node.element);
+    case "element": {
+      let value = "";
+      for (const child of node.children) {
+        if (child.type === "text") value += (child as XmlTextNode).text;
+        else if (child.type === "cdata") value += (child as XmlCDataNode).cdata;
+        else if (child.type === "element")
+          value += stringValue(child as XmlElement);
+      }
+      return value;
+    }
+  }
+}
+
+function toString(value: Value): string {
+  if (Array.isArray(value)) return value.length ? stringValue(value[0]) : "";
+  if (typeof value === "number") return numberToString(value);
+  return String(value);
+}
+
+function toNumber(value: Value): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  const string = toString(value).trim();
+  return /^-?(?:\d+(?:\.\d*)?|\.\d+)$/.test(string) ? Number(string) : NaN;
+}
+
+function toBoolean(value: Value): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === "number") return value !== 0 && !Number.isNaN(value);
+  if (typeof value === "string") return value.length > 0;
+  return value;
+}
+
+// XPath numbers never use exponent notation.
+function numberToString(n: number): string {
+  if (Number.isNaN(n)) return "NaN";
+  if (!Number.isFinite(n)) return n > 0 ? "Infinity" : "-Infinity";
+  if (n === 0) return "0";
+
+  const string = String(n);
+  if (!string.includes("e")) return string;
+
+  const [mantissa, exponent] = string.split("e");
+  const negative = mantissa.startsWith("-");
+  const unsigned = negative ? mantissa.slice(1) : mantissa;
+  const digits = unsigned.replace(".", "");
+  const dot = unsigned.includes(".") ? unsigned.indexOf(".") : unsigned.length;
+  const point = dot + Number(exponent);
+
+  let result: string;
+  if (point <= 0) {
+    result = `0.${"0".repeat(-point)}${digits}`;
+  } else if (point >= digits.length) {
+    result = digits + "0".repeat(point - digits.length);
+  } else {
+    result = `${digits.slice(0, point)}.${digits.slice(point)}`;
+  }
+
+  return negative ? `-${result}` : result;
+}
+
+function compareAtoms(op: string, a: Value, b: Value): boolean {
+  if (op === "=" || op === "!=") {
+    let equal: boolean;
+    if (typeof a === "boolean" || typeof b === "boolean") {
+      equal = toBoolean(a) === toBoolean(b);
+    } else if (typeof a === "number" || typeof b === "number") {
+      equal = toNumber(a) === toNumber(b);
+    } else {
+      equal = toString(a) === toString(b);
+    }
+    return op === "=" ? equal : !equal;
+  }
+
+  const x = toNumber(a);
+  const y = toNumber(b);
+
+  switch (op) {
+    case "<":
+      return x < y;
+    case "<=":
+      return x <= y;
+    case ">":
+      return x > y;
+    default:
+      return x >= y;
+  }
+}
+
+function compare(op: string, a: Value, b: Value): boolean {
+  const aNodes = Array.isArray(a);
+  const bNodes = Array.isArray(b);
+
+  if (aNodes && bNodes) {
+    const bStrings = b.map(stringValue);
+    return a.some((x) => {
+      const xString = stringValue(x);
+      return bStrings.some((y) => compareAtoms(op, xString, y));
+    });
+  }
+
+  if (aNodes || bNodes) {
+    const nodes = (aNodes ? a : b) as Node[];
+    const other = aNodes ? b : a;
+
+    if (typeof other === "boolean") {
+      return aNodes
+        ? compareAtoms(op, toBoolean(nodes), other)
+        : compareAtoms(op, other, toBoolean(nodes));
+    }
+
+    return nodes.some((node) => {
+      const atom =
+        typeof other === "number"
+          ? toNumber(stringValue(node))
+          : stringValue(node);
+      return aNodes
+        ? compareAtoms(op, atom, other)
+        : compareAtoms(op, other, atom);
+    });
+  }
+
+  return compareAtoms(op, a, b);
+}
+
+//
+// Function library
+//
+
+interface XPathFunction {
+  arity: [number, number];
+  evaluate(this: Evaluation, context: Context, args: Expr[]): Value;
+}
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(":") + 1);
+}
+
+function nodeName(node: Node | undefined): string {
+  if (node?.type === "processinginstruction") return node.target;
+  return node && (node.type === "element" || node.type === "attribute")
+    ? node.name
+    : "";
+}
+
+const functions: Record<string, XPathFunction> = {
+  // Node-set functions
+  last: {
+    arity: [0, 0],
+    evaluate: (context) => context.size,
+  },
+  position: {
+    arity: [0, 0],
+    evaluate: (context) => context.position,
+  },
+  current: {
+    arity: [0, 0],
+    evaluate() {
+      if (!this.current) throw new Error('Unknown XPath function "current()"');
+      return [this.current];
+    },
+  },
+  count: {
+    arity: [1, 1],
+    evaluate(context, args) {
+      return this.nodeSet(args[0], context).length;
+    },
+  },
+  id: {
+    arity: [1, 1],
+    evaluate(context, args) {
+      const value = this.evaluate(args[0], context);
+      const ids = new Set(
+        (Array.isArray(value) ? value.map(stringValue) : [toString(value)])
+          .join(" ")
+          .split(/\s+/)
+          .filter(Boolean),
+      );
+      const result: Node[] = [];
+      collectDescendants(this.root, result);
+      return result.filter(
+        (node) => node.type === "element" && ids.has(node.attr.id),
+      );
+    },
+  },
+  "local-name": {
+    arity: [0, 1],
+    evaluate(context, args) {
+      return localName(nodeName(this.nodeArgument(args, context)));
+    },
+  },
+  "namespace-uri": {
+    arity: [0, 1],
+    evaluate(context, args) {
+      return namespaceURI(this.nodeArgument(args, context));
+    },
+  },
+  name: {
+    arity: [0, 1],
+    evaluate(context, args) {
+      return nodeName(this.nodeArgument(args, context));
+    },
+  },
+
+  // String functions
+  string: {
+    arity: [0, 1],
+    evaluate(context, args) {
+      return this.stringArgument(args, context);
+    },
+  },
+  concat: {
+    arity: [2, Infinity],
+    evaluate(context, args) {
+      return args.map((arg) => toString(this.evaluate(arg, context))).join("");
+    },
+  },
+  "starts-with": {
+    arity: [2, 2],
+    evaluate(context, [a, b]) {
+      return toString(this.evaluate(a, context)).startsWith(
+        toString(this.evaluate(b, context)),
+      );
+    },
+  },
+  contains: {
+    arity: [2, 2],
+    evaluate(context, [a, b]) {
+      return toString(this.evaluate(a, context)).includes(
+        toString(this.evaluate(b, context)),
+      );
+    },
+  },
+  "substring-before": {
+    arity: [2, 2],
+    evaluate(context, [a, b]) {
+      const string = toString(this.evaluate(a, context));
+      const index = string.indexOf(toString(this.evaluate(b, context)));
+      return index === -1 ? "" : string.slice(0, index);
+    },
+  },
+  "substring-after": {
+    arity: [2, 2],
+    evaluate(context, [a, b]) {
+      const string = toString(this.evaluate(a, context));
+      const search = toString(this.evaluate(b, context));
+      const index = string.indexOf(search);
+      return index === -1 ? "" : string.slice(index + search.length);
+    },
+  },
+  substring: {
+    arity: [2, 3],
+    evaluate(context, [a, b, c]) {
+      const chars = Array.from(toString(this.evaluate(a, context)));
+      const start = round(toNumber(this.evaluate(b, context)));
+      const end = c
+        ? start + round(toNumber(this.evaluate(c, context)))
+        : Infinity;
+      // Comparisons (rather than slicing) give the spec's NaN/Infinity behavior
+      return chars.filter((_, i) => i + 1 >= start && i + 1 < end).join("");
+    },
+  },
+  "string-length": {
+    arity: [0, 1],
+    evaluate(context, args) {
+      return Array.from(this.stringArgument(args, context)).length;
+    },
+  },
+  "normalize-space": {
+    arity: [0, 1],
+    evaluate(context, args) {
+      return this.stringArgument(args, context).trim().replace(/\s+/g, " ");
+    },
+  },
+  translate: {
+    arity: [3, 3],
+    evaluate(context, [a, b, c]) {
+      const from = Array.from(toString(this.evaluate(b, context)));
+      const to = Array.from(toString(this.evaluate(c, context)));
+      return Array.from(toString(this.evaluate(a, context)))
+        .map((char) => {
+          const index = from.indexOf(char);
+          return index === -1 ? char : (to[index] ?? "");
+        })
+        .join("");
+    },
+  },
+
+  // Boolean functions
+  boolean: {
+    arity: [1, 1],
+    evaluate(context, args) {
+      return toBoolean(this.evaluate(args[0], context));
+    },
+  },
+  not: {
+    arity: [1, 1],
+    evaluate(context, args) {
+      return !toBoolean(this.evaluate(args[0], context));
+    },
+  },
+  true: {
+    arity: [0, 0],
+    evaluate: () => true,
+  },
+  false: {
+    arity: [0, 0],
+    evaluate: () => false,
+  },
+  lang: {
+    arity: [1, 1],
+    evaluate(context, args) {
+      const lang = toString(this.evaluate(args[0], context)).toLowerCase();
+      for (
+        let node: Node | undefined = context.node;
+        node;
+        node = this.parentOf(node)
+      ) {
+        if (node.type === "element" && "xml:lang" in node.attr) {
+          const value = node.attr["xml:lang"].toLowerCase();
+          return value === lang || value.startsWith(`${lang}-`);
+        }
+      }
+      return false;
+    },
+  },
+
+  // Number functions
+  number: {
+    arity: [0, 1],
+    evaluate(context, args) {
+      return toNumber(
+        args.length ? this.evaluate(args[0], context) : [context.node],
+      );
+    },
+  },
+  sum: {
+    arity: [1, 1],
+    evaluate(context, args) {
+      return this.nodeSet(args[0], context).reduce(
+        (sum, node) => sum + toNumber(stringValue(node)),
+        0,
+      );
+    },
+  },
+  floor: {
+    arity: [1, 1],
+    evaluate(context, args) {
+      return Math.floor(toNumber(this.evaluate(args[0], context)));
+    },
+  },
+  ceiling: {
+    arity: [1, 1],
+    evaluate(context, args) {
+      return Math.ceil(toNumber(this.evaluate(args[0], context)));
+    },
+  },
+  round: {
+    arity: [1, 1],
+    evaluate(context, args) {
+      return round(toNumber(this.evaluate(args[0], context)));
+    },
+  },
+};
+
+function round(n: number): number {
+  return Number.isFinite(n) ? Math.floor(n + 0.5) : n;
+}
+
+//
+// Public entry point
+//
+
+/**
+ * Evaluates an XPath 1.0 expression with the given element as context node.
+ * Absolute paths like "/catalog/book" start from the top of the element's
+ * tree.
+ * @param expression The XPath expression
+ * @param context The context element
+ * @param options Optional variable and namespace bindings
+ * @returns The expression result; node-sets are returned in document order
+ */
+export function evaluateXPath(
+  expression: string,
+  context: XmlElement,
+  options?: XPathOptions,
+): XPathResult {
+  const expr = new Parser(expression, tokenize(expression)).parse();
+  let top = context;
+  while (top.parent) top = top.parent;
+
+  const evaluation = new Evaluation(top, options);
+  const result = evaluation.run(expr, context);
+
+  if (!Array.isArray(result)) return result;
+
+  // The root node is reported as the top-most element
+  return [
+    ...new Set(
+      result.map((node) => (node.type === "root" ? node.element : node)),
+    ),
+  ];
+}
+
+//
+// Support for XSLT
+//
+
+export type { Expr as XPathExpression, Node as XPathContextNode };
+export type { Value as XPathValue };
+export { stringValue, toBoolean, toNumber, toString as valueToString };
+
+/**
+ * Parses an expression once, so it can be evaluated many times
+ * @param expression The XPath expression
+ * @returns The parsed expression
+ * @throws {Error} If the expression is invalid
+ */
+export function parseXPath(expression: string): Expr {
+  return new Parser(expression, tokenize(expression)).parse();
+}
+
+/**
+ * Evaluates parsed expressions against the nodes of one tree, keeping the
+ * tree's index between evaluations
+ */
+export class XPathEvaluator {
+  private readonly evaluation: Evaluation;
+
+  constructor(top: XmlElement) {
+    this.evaluation = new Evaluation(top);
+  }
+
+  get root(): Node {
+    return this.evaluation.root;
+  }
+
+  /**
+   * Evaluates an expression
+   * @param expr The parsed expression
+   * @param context The context node, position and size
+   * @param variables Values for variable references
+   * @param current The node current() returns (the context node by default)
+   * @returns The result; node-sets are in document order
+   */
+  evaluate(
+    expr: Expr,
+    context: Context,
+    variables: Record<string, Value>,
+    current: Node = context.node,
+  ): Value {
+    this.evaluation.variables = variables;
+    this.evaluation.current = current;
+    return this.evaluation.evaluate(expr, context);
+  }
+
+  parentOf(node: Node): Node | undefined {
+    return this.evaluation.parentOf(node);
+  }
+
+  sort(nodes: Iterable<Node>): Node[] {
+    return this.evaluation.sort(nodes);
+  }
+}
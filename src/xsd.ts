@@ -0,0 +1,1154 @@
+import type { XmlElement, XmlTextNode } from "./index.js";
+import { namespaceFor } from "./tree.js";
+
+const XSD_NAMESPACE = "http://www.w3.org/2001/XMLSchema";
+
+/**
+ * A way an element or attribute doesn't conform to a schema
+ */
+export interface XsdViolation {
+  /** Path to the element or attribute, like "/order/item[2]/@qty" */
+  path: string;
+  /** What's wrong, like 'Missing required attribute "id"' */
+  message: string;
+  /** Line number of the element (like XmlElement.line) */
+  line: number | null;
+  /** Column number of the element (like XmlElement.column) */
+  column: number | null;
+}
+
+type WhiteSpace = "preserve" | "replace" | "collapse";
+
+interface SimpleType {
+  kind: "simple";
+  // Used in messages, like "xs:int"
+  name: string;
+  whiteSpace: WhiteSpace;
+  // Whether range facets compare values as numbers
+  numeric: boolean;
+  // Returns what's wrong with a normalized value, or undefined if it's valid
+  check: (value: string) => string | undefined;
+}
+
+interface ComplexType {
+  kind: "complex";
+  attributes: AttributeDeclaration[];
+  anyAttribute: boolean;
+  mixed: boolean;
+  // The allowed child elements, or null for none
+  content: Particle | null;
+  // The type of the text content, for types with simple content
+  simpleContent: SimpleType | null;
+}
+
+type XsdType = SimpleType | ComplexType;
+
+interface ElementDeclaration {
+  name: string;
+  type: XsdType;
+  fixed: string | null;
+}
+
+interface AttributeDeclaration {
+  name: string;
+  type: SimpleType;
+  required: boolean;
+  prohibited: boolean;
+  fixed: string | null;
+}
+
+type Particle = { min: number; max: number } & (
+  | { kind: "element"; declaration: ElementDeclaration }
+  | { kind: "sequence" | "choice" | "all"; items: Particle[] }
+  | { kind: "any" }
+);
+
+/**
+ * A schema loaded from an XSD document, for validating documents against it.
+ *
+ * Supports global and local element declarations, named and anonymous
+ * complex and simple types, `sequence`, `choice` and `all` groups with
+ * `minOccurs`/`maxOccurs`, `group` and `attributeGroup` references, simple
+ * and complex content extensions, attribute declarations with `use` and
+ * `fixed`, and simple type restrictions with the `pattern`, `enumeration`,
+ * `length`, `minLength`, `maxLength`, `minInclusive`, `maxInclusive`,
+ * `minExclusive` and `maxExclusive` facets. Elements are matched by local
+ * name, without checking namespaces.
+ *
+ * @example
+ * ```ts
+ * const schema = new XsdSchema(new XmlDocument(xsd));
+ * for (const violation of schema.validate(new XmlDocument(xml))) {
+ *   console.log(`${violation.path}: ${violation.message}`);
+ * }
+ * ```
+ */
+export class XsdSchema {
+  // Global declarations from the schema document, by name
+  private readonly definitions = {
+    element: new Map<string, XmlElement>(),
+    attribute: new Map<string, XmlElement>(),
+    complexType: new Map<string, XmlElement>(),
+    simpleType: new Map<string, XmlElement>(),
+    group: new Map<string, XmlElement>(),
+    attributeGroup: new Map<string, XmlElement>(),
+  };
+  // Resolved global elements and named types, filled in as they're first
+  // referenced so that recursive types can refer to themselves
+  private readonly elements = new Map<string, ElementDeclaration>();
+  private readonly types = new Map<string, XsdType>();
+
+  /**
+   * Loads a schema
+   * @param schema The parsed XSD document
+   * @throws {Error} If the schema refers to undeclared types or uses
+   * unsupported features
+   */
+  constructor(schema: XmlElement) {
+    if (schema.localName !== "schema") {
+      throw new Error(`Expected an <xs:schema> element, not <${schema.name}>`);
+    }
+
+    for (const child of schemaChildren(schema)) {
+      const definitions =
+        this.definitions[child.localName as keyof typeof this.definitions];
+      if (!definitions) {
+        throw new Error(`Unsupported schema element <${child.name}>`);
+      }
+      if (child.attr.name) definitions.set(child.attr.name, child);
+    }
+
+    // Resolve everything up front, so that problems with the schema itself
+    // are reported here rather than while validating
+    for (const name of this.definitions.element.keys()) this.element(name);
+    for (const name of this.definitions.complexType.keys()) this.type(name);
+    for (const name of this.definitions.simpleType.keys()) this.type(name);
+  }
+
+  /**
+   * Validates a document against the schema
+   * @param document The document (or element) to validate
+   * @returns Every violation found, in document order, or an empty array if
+   * the document is valid
+   */
+  validate(document: XmlElement): XsdViolation[] {
+    const violations: XsdViolation[] = [];
+    const path = `/${document.name}`;
+    const declaration = this.definitions.element.has(document.localName)
+      ? this.element(document.localName)
+      : undefined;
+
+    if (declaration) {
+      validateElement(document, declaration, path, violations);
+    } else {
+      report(
+        violations,
+        path,
+        `No declaration for element <${document.name}>`,
+        document,
+      );
+    }
+
+    return violations;
+  }
+
+  private element(name: string): ElementDeclaration {
+    const existing = this.elements.get(name);
+    if (existing) return existing;
+
+    const definition = this.definitions.element.get(name);
+    if (!definition) throw new Error(`Unknown element "${name}"`);
+
+    // Registered before its type is resolved, for recursive references
+    const declaration: ElementDeclaration = {
+      name,
+      type: anyType,
+      fixed: definition.attr.fixed ?? null,
+    };
+    this.elements.set(name, declaration);
+    declaration.type = this.declaredType(definition);
+    return declaration;
+  }
+
+  private type(reference: string, scope?: XmlElement): XsdType {
+    const colon = reference.indexOf(":");
+    const local = reference.slice(colon + 1);
+    const prefix = colon === -1 ? "" : reference.slice(0, colon);
+
+    const builtin = builtins[local];
+    const named =
+      this.definitions.complexType.get(local) ??
+      this.definitions.simpleType.get(local);
+    if (builtin && (!named || namespaceFor(scope, prefix) === XSD_NAMESPACE)) {
+      return builtin;
+    }
+    if (!named) throw new Error(`Unknown type "${reference}"`);
+
+    const existing = this.types.get(local);
+    if (existing) return existing;
+
+    if (named.localName === "simpleType") {
+      const type = this.simpleType(named, local);
+      this.types.set(local, type);
+      return type;
+    }
+
+    // Registered before it's filled in, for recursive references
+    const type = emptyComplexType();
+    this.types.set(local, type);
+    this.fillComplexType(type, named);
+    return type;
+  }
+
+  private simpleTypeRef(reference: string, scope: XmlElement): SimpleType {
+    const type = this.type(reference, scope);
+    if (type.kind !== "simple") {
+      throw new Error(`Expected a simple type, but "${reference}" is complex`);
+    }
+    return type;
+  }
+
+  /** Resolves the type of an element or attribute declaration */
+  private declaredType(definition: XmlElement): XsdType {
+    const reference = definition.attr.type;
+    if (reference) return this.type(reference, definition);
+
+    const anonymous = schemaChildren(definition).find(
+      (child) =>
+        child.localName === "complexType" || child.localName === "simpleType",
+    );
+    if (!anonymous) return anyType;
+    if (anonymous.localName === "simpleType") {
+      return this.simpleType(
+        anonymous,
+        `anonymous type of "${definition.attr.name}"`,
+      );
+    }
+
+    const type = emptyComplexType();
+    this.fillComplexType(type, anonymous);
+    return type;
+  }
+
+  private simpleType(definition: XmlElement, name: string): SimpleType {
+    const restriction = childNamed(definition, "restriction");
+    if (!restriction) {
+      throw new Error(
+        `Unsupported simple type "${name}": only restrictions are supported`,
+      );
+    }
+    return this.restriction(restriction, name);
+  }
+
+  /** Builds a simple type from a <restriction> and its facets */
+  private restriction(restriction: XmlElement, name: string): SimpleType {
+    const inline = childNamed(restriction, "simpleType");
+    const base = restriction.attr.base
+      ? this.simpleTypeRef(restriction.attr.base, restriction)
+      : inline
+        ? this.simpleType(inline, name)
+        : builtins.anySimpleType;
+    return restrict(base, name, schemaChildren(restriction));
+  }
+
+  private fillComplexType(type: ComplexType, definition: XmlElement): void {
+    type.mixed = definition.attr.mixed === "true";
+
+    const simpleContent = childNamed(definition, "simpleContent");
+    const complexContent = childNamed(definition, "complexContent");
+
+    if (simpleContent) {
+      const derivation = schemaChildren(simpleContent)[0];
+      const base = this.type(derivation.attr.base ?? "", derivation);
+      const baseContent = base.kind === "simple" ? base : base.simpleContent;
+      if (!baseContent) {
+        throw new Error(
+          `Simple content must derive from a simple type, not "${derivation.attr.base}"`,
+        );
+      }
+      if (base.kind === "complex") {
+        type.attributes = [...base.attributes];
+        type.anyAttribute = base.anyAttribute;
+      }
+      type.simpleContent =
+        derivation.localName === "restriction"
+          ? restrict(baseContent, baseContent.name, schemaChildren(derivation))
+          : baseContent;
+      this.addAttributes(type, derivation);
+    } else if (complexContent) {
+      const derivation = schemaChildren(complexContent)[0];
+      const base = this.type(derivation.attr.base ?? "", derivation);
+      if (base.kind !== "complex") {
+        throw new Error(
+          `Complex content must derive from a complex type, not "${derivation.attr.base}"`,
+        );
+      }
+      type.mixed ||= complexContent.attr.mixed === "true" || base.mixed;
+      type.attributes = [...base.attributes];
+      type.anyAttribute = base.anyAttribute;
+
+      const content = this.particleIn(derivation);
+      // Extensions add to the end of the base content, restrictions replace it
+      if (derivation.localName === "extension" && base.content) {
+        type.content = content
+          ? { kind: "sequence", items: [base.content, content], min: 1, max: 1 }
+          : base.content;
+      } else {
+        type.content = content;
+      }
+      this.addAttributes(type, derivation);
+    } else {
+      type.content = this.particleIn(definition);
+      this.addAttributes(type, definition);
+    }
+  }
+
+  /** Finds the model group of a complex type or derivation, if it has one */
+  private particleIn(parent: XmlElement): Particle | null {
+    const group = schemaChildren(parent).find((child) =>
+      ["sequence", "choice", "all", "group"].includes(child.localName),
+    );
+    return group ? this.particle(group) : null;
+  }
+
+  private particle(definition: XmlElement): Particle {
+    const min = parseOccurs(definition.attr.minOccurs, 1);
+    const max = parseOccurs(definition.attr.maxOccurs, 1);
+
+    switch (definition.localName) {
+      case "element": {
+        const declaration = definition.attr.ref
+          ? this.element(localPart(definition.attr.ref))
+          : {
+              name: definition.attr.name,
+              type: this.declaredType(definition),
+              fixed: definition.attr.fixed ?? null,
+            };
+        return { kind: "element", declaration, min, max };
+      }
+      case "sequence":
+      case "choice":
+      case "all": {
+        const items = schemaChildren(definition).map((child) =>
+          this.particle(child),
+        );
+        return { kind: definition.localName, items, min, max };
+      }
+      case "group": {
+        const name = localPart(definition.attr.ref ?? "");
+        const group = this.definitions.group.get(name);
+        if (!group) throw new Error(`Unknown group "${definition.attr.ref}"`);
+        const content = this.particleIn(group);
+        if (!content) throw new Error(`Group "${name}" is empty`);
+        return { ...content, min, max };
+      }
+      case "any":
+        return { kind: "any", min, max };
+      default:
+        throw new Error(`Unsupported schema element <${definition.name}>`);
+    }
+  }
+
+  private addAttributes(type: ComplexType, parent: XmlElement): void {
+    for (const child of schemaChildren(parent)) {
+      if (child.localName === "attribute") {
+        const attribute = this.attribute(child);
+        type.attributes = type.attributes.filter(
+          (existing) => existing.name !== attribute.name,
+        );
+        type.attributes.push(attribute);
+      } else if (child.localName === "attributeGroup") {
+        const name = localPart(child.attr.ref ?? "");
+        const group = this.definitions.attributeGroup.get(name);
+        if (!group) {
+          throw new Error(`Unknown attribute group "${child.attr.ref}"`);
+        }
+        this.addAttributes(type, group);
+      } else if (child.localName === "anyAttribute") {
+        type.anyAttribute = true;
+      }
+    }
+  }
+
+  private attribute(definition: XmlElement): AttributeDeclaration {
+    let declaration = definition;
+    if (definition.attr.ref) {
+      const name = localPart(definition.attr.ref);
+      const global = this.definitions.attribute.get(name);
+      if (!global) {
+        throw new Error(`Unknown attribute "${definition.attr.ref}"`);
+      }
+      declaration = global;
+    }
+
+    const type = this.declaredType(declaration);
+    if (type.kind !== "simple") {
+      throw new Error(
+        `Attribute "${declaration.attr.name}" must have a simple type`,
+      );
+    }
+
+    return {
+      name: declaration.attr.name,
+      type,
+      required: definition.attr.use === "required",
+      prohibited: definition.attr.use === "prohibited",
+      fixed: definition.attr.fixed ?? declaration.attr.fixed ?? null,
+    };
+  }
+}
+
+function validateElement(
+  element: XmlElement,
+  declaration: ElementDeclaration,
+  path: string,
+  violations: XsdViolation[],
+): void {
+  const { type } = declaration;
+  const elements = element.children.filter(
+    (child): child is XmlElement => child.type === "element",
+  );
+
+  validateAttributes(element, type, path, violations);
+
+  if (type.kind === "simple" || type.simpleContent) {
+    if (elements.length) {
+      report(
+        violations,
+        path,
+        `Element <${element.name}> can't contain elements`,
+        element,
+      );
+      return;
+    }
+
+    const simple = type.kind === "simple" ? type : type.simpleContent!;
+    const value = normalize(element.val, simple.whiteSpace);
+    const problem = simple.check(value) ?? checkFixed(value, declaration.fixed);
+    if (problem) {
+      report(
+        violations,
+        path,
+        `Invalid value for element <${element.name}>: ${problem}`,
+        element,
+      );
+    }
+    return;
+  }
+
+  if (!type.mixed && hasText(element)) {
+    report(
+      violations,
+      path,
+      `Element <${element.name}> can't contain text`,
+      element,
+    );
+  }
+
+  const paths = childPaths(elements, path);
+
+  // A problem with one of the children is reported when we get to that child,
+  // to keep the violations in document order
+  let problem: { message: string; element?: XmlElement } | undefined;
+  if (!type.content) {
+    if (elements.length && type !== anyType) {
+      problem = {
+        message: `Unexpected element <${elements[0].name}>, <${element.name}> must be empty`,
+        element: elements[0],
+      };
+    }
+  } else {
+    problem = new ContentMatcher(elements).check(type.content);
+  }
+  if (problem && !problem.element) {
+    report(violations, path, problem.message, element);
+  }
+
+  // Each child is validated against the declaration with its name, which the
+  // schema rules guarantee is the same wherever it appears in the content
+  const declarations = new Map<string, ElementDeclaration>();
+  if (type.content) collectDeclarations(type.content, declarations);
+
+  for (const child of elements) {
+    const childPath = paths.get(child)!;
+    if (child === problem?.element) {
+      report(violations, childPath, problem.message, child);
+    }
+
+    const childDeclaration = declarations.get(child.localName);
+    if (childDeclaration) {
+      validateElement(child, childDeclaration, childPath, violations);
+    }
+  }
+}
+
+function validateAttributes(
+  element: XmlElement,
+  type: XsdType,
+  path: string,
+  violations: XsdViolation[],
+): void {
+  const declared = type.kind === "complex" ? type.attributes : [];
+
+  for (const attribute of declared) {
+    const present = Object.prototype.hasOwnProperty.call(
+      element.attr,
+      attribute.name,
+    );
+    const attributePath = `${path}/@${attribute.name}`;
+
+    if (!present) {
+      if (attribute.required) {
+        report(
+          violations,
+          path,
+          `Missing required attribute "${attribute.name}"`,
+          element,
+        );
+      }
+      continue;
+    }
+
+    if (attribute.prohibited) {
+      report(
+        violations,
+        attributePath,
+        `Attribute "${attribute.name}" isn't allowed`,
+        element,
+      );
+      continue;
+    }
+
+    const value = normalize(
+      element.attr[attribute.name],
+      attribute.type.whiteSpace,
+    );
+    const problem =
+      attribute.type.check(value) ?? checkFixed(value, attribute.fixed);
+    if (problem) {
+      report(
+        violations,
+        attributePath,
+        `Invalid value for attribute "${attribute.name}": ${problem}`,
+        element,
+      );
+    }
+  }
+
+  if (type.kind === "complex" && type.anyAttribute) return;
+
+  for (const name of Object.keys(element.attr)) {
+    // Namespace declarations and schema instance attributes are always allowed
+    if (name === "xmlns" || /^(xmlns|xsi):/.test(name)) continue;
+    if (declared.some((attribute) => attribute.name === name)) continue;
+
+    report(
+      violations,
+      `${path}/@${name}`,
+      `Unexpected attribute "${name}"`,
+      element,
+    );
+  }
+}
+
+/**
+ * A point partway through matching a content model: how many occurrences of a
+ * particle have been matched, and which item of a group the current
+ * occurrence has got to, within the state of the enclosing group
+ */
+interface MatchState {
+  particle: Particle;
+  count: number;
+  // The item being matched in a sequence or choice
+  index: number;
+  // Which items of an <all> group have been used, as a string of 0s and 1s
+  used: string;
+  parent: MatchState | undefined;
+  // Identifies equivalent states, so that each is only followed once
+  key: string;
+}
+
+/** The states that can match the next element, and whether the model can end */
+interface MatchStep {
+  ready: MatchState[];
+  complete: boolean;
+  seen: Set<string>;
+}
+
+/**
+ * Matches a list of child elements against a content model by following
+ * every state the model can be in from one element to the next, so that it
+ * can explain where and why they don't match
+ */
+class ContentMatcher {
+  private readonly ids = new Map<Particle, number>();
+
+  constructor(private readonly elements: XmlElement[]) {}
+
+  /** Returns what's wrong with the elements, or undefined if they match */
+  check(
+    particle: Particle,
+  ): { message: string; element?: XmlElement } | undefined {
+    let step = this.step();
+    this.between(this.state(particle, 0, 0, "", undefined), step);
+
+    for (const element of this.elements) {
+      const next = this.step();
+      for (const state of step.ready) {
+        if (
+          state.particle.kind === "any" ||
+          (state.particle.kind === "element" &&
+            state.particle.declaration.name === element.localName)
+        ) {
+          this.between(this.next(state), next);
+        }
+      }
+
+      if (!next.ready.length && !next.complete) {
+        const expected = this.expected(step);
+        return {
+          message: expected
+            ? `Unexpected element <${element.name}>, expected ${expected}`
+            : `Unexpected element <${element.name}>`,
+          element,
+        };
+      }
+      step = next;
+    }
+
+    if (!step.complete) {
+      return { message: `Missing element ${this.expected(step)}` };
+    }
+  }
+
+  /**
+   * Follows a state that has just matched an occurrence of its particle (or
+   * is about to match the first) to every state that can match the next
+   * element
+   * @param state The state to follow
+   * @param step The step to add the states to
+   */
+  private between(state: MatchState, step: MatchStep): void {
+    if (step.seen.has(state.key)) return;
+    step.seen.add(state.key);
+
+    if (state.count < state.particle.max) this.start(state, step);
+    if (state.count >= state.particle.min) this.exit(state, step);
+  }
+
+  /** Starts another occurrence of a state's particle */
+  private start(state: MatchState, step: MatchStep): void {
+    const { particle } = state;
+    switch (particle.kind) {
+      case "element":
+      case "any":
+        step.ready.push(state);
+        return;
+      case "sequence":
+        if (particle.items.length) {
+          this.between(this.child(state, particle.items, 0), step);
+        } else {
+          this.between(this.next(state), step);
+        }
+        return;
+      case "choice":
+        for (let index = 0; index < particle.items.length; index++) {
+          this.between(this.child(state, particle.items, index), step);
+        }
+        return;
+      case "all":
+        this.allItems(state, step);
+        return;
+    }
+  }
+
+  /** Moves on from a state whose particle has matched enough occurrences */
+  private exit(state: MatchState, step: MatchStep): void {
+    const { parent } = state;
+    if (!parent) {
+      step.complete = true;
+      return;
+    }
+
+    switch (parent.particle.kind) {
+      case "sequence":
+        if (parent.index + 1 < parent.particle.items.length) {
+          this.between(
+            this.child(parent, parent.particle.items, parent.index + 1),
+            step,
+          );
+        } else {
+          this.between(this.next(parent), step);
+        }
+        return;
+      case "choice":
+        this.between(this.next(parent), step);
+        return;
+      case "all":
+        this.allItems(parent, step);
+        return;
+    }
+  }
+
+  /**
+   * Continues an <all> group, whose elements can appear in any order, with
+   * any of its unused items, or ends the occurrence once the required items
+   * have been used
+   */
+  private allItems(state: MatchState, step: MatchStep): void {
+    if (state.particle.kind !== "all") return;
+    const { items } = state.particle;
+
+    for (let index = 0; index < items.length; index++) {
+      // Items are only started here, so that skipping the optional ones
+      // doesn't lead to every combination of them
+      if (state.used[index] !== "1") {
+        this.start(this.child(state, items, index), step);
+      }
+    }
+    if (
+      items.every((item, index) => item.min === 0 || state.used[index] === "1")
+    ) {
+      this.between(this.next(state), step);
+    }
+  }
+
+  /**
+   * Returns the state for the first occurrence of an item in a group
+   * @param state The state of the group
+   * @param items The group's items
+   * @param index The index of the item
+   * @returns The state of the item, within the group's state
+   */
+  private child(
+    state: MatchState,
+    items: Particle[],
+    index: number,
+  ): MatchState {
+    const used =
+      state.particle.kind === "all"
+        ? items
+            .map((_, item) =>
+              item === index ? "1" : (state.used[item] ?? "0"),
+            )
+            .join("")
+        : "";
+    const parent = this.state(
+      state.particle,
+      state.count,
+      index,
+      used,
+      state.parent,
+    );
+    return this.state(items[index], 0, 0, "", parent);
+  }
+
+  /** Returns the state after another occurrence of a state's particle */
+  private next(state: MatchState): MatchState {
+    return this.state(state.particle, state.count + 1, 0, "", state.parent);
+  }
+
+  private state(
+    particle: Particle,
+    count: number,
+    index: number,
+    used: string,
+    parent: MatchState | undefined,
+  ): MatchState {
+    let id = this.ids.get(particle);
+    if (id === undefined) this.ids.set(particle, (id = this.ids.size));
+
+    // Past the minimum, the number of occurrences of an unbounded particle
+    // makes no difference to what can follow
+    if (particle.max === Infinity) count = Math.min(count, particle.min);
+
+    const key = `${parent?.key ?? ""}/${id}.${count}.${index}.${used}`;
+    return { particle, count, index, used, parent, key };
+  }
+
+  private step(): MatchStep {
+    return { ready: [], complete: false, seen: new Set() };
+  }
+
+  /** Lists the elements that the states in a step can match */
+  private expected(step: MatchStep): string {
+    const names = new Set<string>();
+    for (const { particle } of step.ready) {
+      if (particle.kind === "element")
+        names.add(`<${particle.declaration.name}>`);
+      else if (particle.kind === "any") names.add("any element");
+    }
+    return [...names].join(" or ");
+  }
+}
+
+function collectDeclarations(
+  particle: Particle,
+  declarations: Map<string, ElementDeclaration>,
+): void {
+  if (particle.kind === "element") {
+    if (!declarations.has(particle.declaration.name)) {
+      declarations.set(particle.declaration.name, particle.declaration);
+    }
+  } else if (particle.kind !== "any") {
+    for (const item of particle.items) collectDeclarations(item, declarations);
+  }
+}
+
+/** Applies the facets in a restriction to a base type */
+function restrict(
+  base: SimpleType,
+  name: string,
+  facets: XmlElement[],
+): SimpleType {
+  const enumeration: string[] = [];
+  const patterns: { source: string; regex: RegExp }[] = [];
+  const checks: ((value: string) => string | undefined)[] = [];
+  let whiteSpace = base.whiteSpace;
+
+  const compare = (value: string, limit: string) =>
+    base.numeric ? Number(value) - Number(limit) : value.localeCompare(limit);
+
+  for (const facet of facets) {
+    const limit = facet.attr.value ?? "";
+    const length = Number(limit);
+
+    switch (facet.localName) {
+      case "enumeration":
+        enumeration.push(normalize(limit, base.whiteSpace));
+        break;
+      case "pattern":
+        patterns.push({ source: limit, regex: compilePattern(limit) });
+        break;
+      case "length":
+        checks.push((value) =>
+          [...value].length !== length
+            ? `"${value}" must be exactly ${length} characters long`
+            : undefined,
+        );
+        break;
+      case "minLength":
+        checks.push((value) =>
+          [...value].length < length
+            ? `"${value}" must be at least ${length} characters long`
+            : undefined,
+        );
+        break;
+      case "maxLength":
+        checks.push((value) =>
+          [...value].length > length
+            ? `"${value}" must be at most ${length} characters long`
+            : undefined,
+        );
+        break;
+      case "minInclusive":
+        checks.push((value) =>
+          compare(value, limit) < 0
+            ? `"${value}" must be at least ${limit}`
+            : undefined,
+        );
+        break;
+      case "maxInclusive":
+        checks.push((value) =>
+          compare(value, limit) > 0
+            ? `"${value}" must be at most ${limit}`
+            : undefined,
+        );
+        break;
+      case "minExclusive":
+        checks.push((value) =>
+          compare(value, limit) <= 0
+            ? `"${value}" must be greater than ${limit}`
+            : undefined,
+        );
+        break;
+      case "maxExclusive":
+        checks.push((value) =>
+          compare(value, limit) >= 0
+            ? `"${value}" must be less than ${limit}`
+            : undefined,
+        );
+        break;
+      case "whiteSpace":
+        whiteSpace = limit as WhiteSpace;
+        break;
+      case "attribute":
+      case "attributeGroup":
+      case "anyAttribute":
+      case "simpleType":
+        // Handled by the enclosing declaration
+        break;
+      default:
+        throw new Error(`Unsupported facet <${facet.name}>`);
+    }
+  }
+
+  return {
+    kind: "simple",
+    name,
+    whiteSpace,
+    numeric: base.numeric,
+    check(value) {
+      const problem = base.check(value);
+      if (problem) return problem;
+
+      if (enumeration.length && !enumeration.includes(value)) {
+        const allowed = enumeration.map((item) => `"${item}"`).join(", ");
+        return `"${value}" is not one of ${allowed}`;
+      }
+      // Patterns in the same restriction are alternatives
+      if (patterns.length && !patterns.some(({ regex }) => regex.test(value))) {
+        return `"${value}" doesn't match the pattern "${patterns[0].source}"`;
+      }
+      for (const check of checks) {
+        const problem = check(value);
+        if (problem) return problem;
+      }
+      return undefined;
+    },
+  };
+}
+
+/** Compiles an XSD pattern, which always matches the whole value */
+function compilePattern(pattern: string): RegExp {
+  try {
+    return new RegExp(`^(?:${pattern})$`, "u");
+  } catch {
+    // Unicode mode rejects some escapes that XSD patterns allow, like "\-"
+    try {
+      return new RegExp(`^(?:${pattern})$`);
+    } catch {
+      throw new Error(`Unsupported pattern "${pattern}"`);
+    }
+  }
+}
+
+/** Defines a built-in simple type */
+function builtin(
+  name: string,
+  pattern: RegExp | null,
+  options: {
+    whiteSpace?: WhiteSpace;
+    numeric?: boolean;
+    min?: bigint;
+    max?: bigint;
+    valid?: (value: string) => boolean;
+  } = {},
+): SimpleType {
+  const { min, max, valid } = options;
+  return {
+    kind: "simple",
+    name: `xs:${name}`,
+    whiteSpace: options.whiteSpace ?? "collapse",
+    numeric: !!options.numeric,
+    check(value) {
+      if ((pattern && !pattern.test(value)) || (valid && !valid(value))) {
+        return `"${value}" is not a valid xs:${name}`;
+      }
+      if (min !== undefined || max !== undefined) {
+        const number = BigInt(value);
+        if (
+          (min !== undefined && number < min) ||
+          (max !== undefined && number > max)
+        ) {
+          return `"${value}" is out of range for xs:${name}`;
+        }
+      }
+      return undefined;
+    },
+  };
+}
+
+const integer = /^[+-]?\d+$/;
+const decimal = /^[+-]?(\d+(\.\d*)?|\.\d+)$/;
+const float = /^([+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?|-?INF|NaN)$/;
+const timezone = "(Z|[+-]\\d{2}:\\d{2})?";
+const date = "-?\\d{4,}-\\d{2}-\\d{2}";
+const time = "\\d{2}:\\d{2}:\\d{2}(\\.\\d+)?";
+const name = /^[A-Za-z_:À-￿][\w.:\-·À-￿]*$/;
+const ncname = /^[A-Za-z_À-￿][\w.\-·À-￿]*$/;
+
+/** Integer types with their ranges */
+function integerType(name: string, min?: bigint, max?: bigint): SimpleType {
+  return builtin(name, integer, { numeric: true, min, max });
+}
+
+/** Checks that the fields of a date, time or dateTime are in range */
+function validDateTime(value: string): boolean {
+  const date = /^-?(\d{4,})-(\d{2})-(\d{2})/.exec(value);
+  if (date) {
+    const [year, month, day] = date.slice(1).map(Number);
+    const leap = year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0);
+    const days = [31, leap ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+    if (month < 1 || month > 12 || day < 1 || day > days[month - 1]) {
+      return false;
+    }
+  }
+
+  const time = /(?:^|T)(\d{2}):(\d{2}):(\d{2}(?:\.\d+)?)/.exec(value);
+  if (time) {
+    const [hours, minutes, seconds] = time.slice(1).map(Number);
+    // 24:00:00 is allowed as the end of the day
+    const midnight = hours === 24 && minutes === 0 && seconds === 0;
+    if (!midnight && (hours > 23 || minutes > 59 || seconds >= 60)) {
+      return false;
+    }
+  }
+
+  const zone = /[+-](\d{2}):(\d{2})$/.exec(value);
+  return !zone || Number(zone[1]) * 60 + Number(zone[2]) <= 14 * 60;
+}
+
+const builtins: Record<string, SimpleType> = {
+  anySimpleType: builtin("anySimpleType", null, { whiteSpace: "preserve" }),
+  string: builtin("string", null, { whiteSpace: "preserve" }),
+  normalizedString: builtin("normalizedString", null, {
+    whiteSpace: "replace",
+  }),
+  token: builtin("token", null),
+  language: builtin("language", /^[a-zA-Z]{1,8}(-[a-zA-Z0-9]{1,8})*$/),
+  Name: builtin("Name", name),
+  NCName: builtin("NCName", ncname),
+  ID: builtin("ID", ncname),
+  IDREF: builtin("IDREF", ncname),
+  NMTOKEN: builtin("NMTOKEN", /^[\w.:\-·À-￿]+$/),
+  QName: builtin("QName", /^([A-Za-z_][\w.\-]*:)?[A-Za-z_][\w.\-]*$/),
+  anyURI: builtin("anyURI", null),
+  boolean: builtin("boolean", /^(true|false|1|0)$/),
+  decimal: builtin("decimal", decimal, { numeric: true }),
+  float: builtin("float", float, { numeric: true }),
+  double: builtin("double", float, { numeric: true }),
+  integer: integerType("integer"),
+  nonNegativeInteger: integerType("nonNegativeInteger", 0n),
+  positiveInteger: integerType("positiveInteger", 1n),
+  nonPositiveInteger: integerType("nonPositiveInteger", undefined, 0n),
+  negativeInteger: integerType("negativeInteger", undefined, -1n),
+  long: integerType("long", -(2n ** 63n), 2n ** 63n - 1n),
+  int: integerType("int", -(2n ** 31n), 2n ** 31n - 1n),
+  short: integerType("short", -(2n ** 15n), 2n ** 15n - 1n),
+  byte: integerType("byte", -(2n ** 7n), 2n ** 7n - 1n),
+  unsignedLong: integerType("unsignedLong", 0n, 2n ** 64n - 1n),
+  unsignedInt: integerType("unsignedInt", 0n, 2n ** 32n - 1n),
+  unsignedShort: integerType("unsignedShort", 0n, 2n ** 16n - 1n),
+  unsignedByte: integerType("unsignedByte", 0n, 2n ** 8n - 1n),
+  date: builtin("date", new RegExp(`^${date}${timezone}$`), {
+    valid: validDateTime,
+  }),
+  time: builtin("time", new RegExp(`^${time}${timezone}$`), {
+    valid: validDateTime,
+  }),
+  dateTime: builtin("dateTime", new RegExp(`^${date}T${time}${timezone}$`), {
+    valid: validDateTime,
+  }),
+  gYear: builtin("gYear", new RegExp(`^-?\\d{4,}${timezone}$`)),
+  duration: builtin(
+    "duration",
+    /^-?P(?=\d|T\d)(\d+Y)?(\d+M)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/,
+  ),
+};
+
+// Elements without a type accept any attributes and content
+const anyType: ComplexType = {
+  kind: "complex",
+  attributes: [],
+  anyAttribute: true,
+  mixed: true,
+  content: null,
+  simpleContent: null,
+};
+
+function emptyComplexType(): ComplexType {
+  return {
+    kind: "complex",
+    attributes: [],
+    anyAttribute: false,
+    mixed: false,
+    content: null,
+    simpleContent: null,
+  };
+}
+
+function normalize(value: string, whiteSpace: WhiteSpace): string {
+  if (whiteSpace === "preserve") return value;
+  const replaced = value.replace(/[\t\n\r]/g, " ");
+  return whiteSpace === "replace"
+    ? replaced
+    : replaced.replace(/ +/g, " ").trim();
+}
+
+function checkFixed(value: string, fixed: string | null): string | undefined {
+  if (fixed === null || value === fixed) return undefined;
+  return `"${value}" must be "${fixed}"`;
+}
+
+function hasText(element: XmlElement): boolean {
+  return element.children.some(
+    (child) =>
+      (child.type === "text" && (child as XmlTextNode).text.trim() !== "") ||
+      child.type === "cdata",
+  );
+}
+
+/** Child elements of a schema element, skipping annotations */
+function schemaChildren(element: XmlElement): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement =>
+      child.type === "element" &&
+      (child as XmlElement).localName !== "annotation",
+  );
+}
+
+function childNamed(element: XmlElement, name: string): XmlElement | undefined {
+  return schemaChildren(element).find((child) => child.localName === name);
+}
+
+function localPart(name: string): string {
+  return name.slice(name.indexOf(":") + 1);
+}
+
+function parseOccurs(value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback;
+  if (value === "unbounded") return Infinity;
+  return parseInt(value, 10);
+}
+
+/**
+ * Builds the path to each of an element's children, like "/order/item[2]",
+ * numbering the children that share their name with a sibling
+ * @param elements The child elements, in order
+ * @param parentPath The path to their parent
+ * @returns The path to each child
+ */
+function childPaths(
+  elements: XmlElement[],
+  parentPath: string,
+): Map<XmlElement, string> {
+  const counts = new Map<string, number>();
+  for (const element of elements) {
+    counts.set(element.name, (counts.get(element.name) ?? 0) + 1);
+  }
+
+  const seen = new Map<string, number>();
+  const paths = new Map<XmlElement, string>();
+  for (const element of elements) {
+    const index = (seen.get(element.name) ?? 0) + 1;
+    seen.set(element.name, index);
+    const suffix = counts.get(element.name)! > 1 ? `[${index}]` : "";
+    paths.set(element, `${parentPath}/${element.name}${suffix}`);
+  }
+  return paths;
+}
+
+function report(
+  violations: XsdViolation[],
+  path: string,
+  message: string,
+  element: XmlElement,
+): void {
+  violations.push({
+    path,
+    message,
+    line: element.line,
+    column: element.column,
+  });
+}
@@ -0,0 +1,1070 @@
+import { validName } from "./builder.js";
+import {
+  XmlCommentNode,
+  XmlDocument,
+  XmlElement,
+  XmlProcessingInstructionNode,
+  XmlTextNode,
+} from "./index.js";
+import type { XmlNodeBase } from "./index.js";
+import { copy, namespaceFor } from "./tree.js";
+import {
+  XPathEvaluator,
+  parseXPath,
+  stringValue,
+  toBoolean,
+  toNumber,
+  valueToString,
+} from "./xpath.js";
+import type {
+  XPathContextNode,
+  XPathExpression,
+  XPathResult,
+  XPathValue,
+} from "./xpath.js";
+
+const XSLT_NAMESPACE = "http://www.w3.org/1999/XSL/Transform";
+
+/**
+ * Options for applying a stylesheet
+ */
+export interface XsltOptions {
+  /** Values for the stylesheet's top-level `<xsl:param>` elements */
+  params?: Record<string, XPathResult>;
+}
+
+type PathExpression = Extract<XPathExpression, { kind: "path" }>;
+
+// A piece of an attribute value template: literal text or an expression
+type AttributeValue = (string | XPathExpression)[];
+
+interface Sort {
+  select: XPathExpression;
+  number: boolean;
+  descending: boolean;
+}
+
+// A variable, parameter or parameter value, given by either an expression or
+// a template body
+interface Binding {
+  name: string;
+  select: XPathExpression | null;
+  body: Instruction[];
+}
+
+type Instruction =
+  | {
+      kind: "apply-templates";
+      select: XPathExpression | null;
+      mode: string | null;
+      sorts: Sort[];
+      params: Binding[];
+    }
+  | { kind: "call-template"; name: string; params: Binding[] }
+  | {
+      kind: "for-each";
+      select: XPathExpression;
+      sorts: Sort[];
+      body: Instruction[];
+    }
+  | { kind: "value-of" | "copy-of"; select: XPathExpression }
+  | { kind: "copy" | "comment"; body: Instruction[] }
+  | {
+      kind: "element" | "attribute" | "processing-instruction";
+      name: AttributeValue;
+      body: Instruction[];
+    }
+  | { kind: "if"; test: XPathExpression; body: Instruction[] }
+  | {
+      kind: "choose";
+      branches: { test: XPathExpression | null; body: Instruction[] }[];
+    }
+  | { kind: "variable"; binding: Binding }
+  | { kind: "text"; text: string }
+  | {
+      kind: "literal";
+      name: string;
+      attributes: [string, AttributeValue][];
+      // Namespaces the element's name and attributes need declared
+      namespaces: [string, string][];
+      body: Instruction[];
+    };
+
+interface Template {
+  params: Binding[];
+  body: Instruction[];
+}
+
+// One alternative of a template's match pattern
+interface Rule {
+  pattern: PathExpression;
+  mode: string | null;
+  priority: number;
+  template: Template;
+}
+
+// Everything compiled from a stylesheet
+interface Program {
+  rules: Rule[];
+  named: Map<string, Template>;
+  // Top-level variables and parameters, in stylesheet order
+  globals: (Binding & { param: boolean })[];
+  strip: string[];
+  preserve: string[];
+}
+
+// The child nodes of the context node, for <xsl:apply-templates> without a
+// select attribute and the built-in template rules
+const CHILDREN = parseXPath("node()");
+
+// Elements that hold a result tree fragment, like the value of a variable
+// defined by its content
+const fragments = new WeakSet<XmlElement>();
+
+/**
+ * An XSLT 1.0 stylesheet, for transforming documents into new ones.
+ *
+ * Supports template rules with match patterns, priorities and modes, named
+ * templates, `apply-templates`, `call-template`, `value-of`, `for-each`,
+ * `sort`, `if`, `choose`, `copy`, `copy-of`, `variable`, `param` and
+ * `with-param`, attribute value templates, literal result elements,
+ * `element`, `attribute`, `text`, `comment`, `processing-instruction`,
+ * `strip-space` and `preserve-space`. `<xsl:output>` is accepted but
+ * ignored; serialize the result with toString() options instead. Name tests
+ * match qualified names literally, as evaluateXPath() does without
+ * namespace bindings.
+ *
+ * @example
+ * ```ts
+ * const stylesheet = new XsltStylesheet(new XmlDocument(xsl));
+ * const html = stylesheet.transform(new XmlDocument(xml));
+ * console.log(html.toString());
+ * ```
+ */
+export class XsltStylesheet {
+  private readonly program: Program;
+
+  /**
+   * Loads a stylesheet
+   * @param stylesheet The parsed XSLT document, or a literal result element
+   * used as a simplified stylesheet
+   * @throws {Error} If the stylesheet is invalid or uses unsupported
+   * features
+   */
+  constructor(stylesheet: XmlElement) {
+    this.program = compileStylesheet(stylesheet);
+  }
+
+  /**
+   * Applies the stylesheet to a document
+   * @param document The document to transform. Processing starts at the
+   * root node of its tree, or at the element itself if it's inside a larger
+   * tree.
+   * @param options Optional values for the stylesheet's parameters
+   * @returns The result document
+   * @throws {Error} If the stylesheet fails, or the result doesn't have
+   * exactly one root element
+   */
+  transform(document: XmlElement, options?: XsltOptions): XmlDocument {
+    return new Transformation(this.program, document, options?.params).run();
+  }
+}
+
+//
+// Compiling
+//
+
+function compileStylesheet(stylesheet: XmlElement): Program {
+  const program: Program = {
+    rules: [],
+    named: new Map(),
+    globals: [],
+    strip: [],
+    preserve: [],
+  };
+
+  if (!isInstruction(stylesheet)) {
+    // A simplified stylesheet is a single template for the root node
+    program.rules.push({
+      pattern: pattern("/")[0],
+      mode: null,
+      priority: 0.5,
+      template: { params: [], body: [compileLiteral(stylesheet)] },
+    });
+    return program;
+  }
+  if (
+    stylesheet.localName !== "stylesheet" &&
+    stylesheet.localName !== "transform"
+  ) {
+    throw new Error(
+      `Expected an <xsl:stylesheet> element, not <${stylesheet.name}>`,
+    );
+  }
+
+  for (const child of stylesheet.children) {
+    // Top-level elements from other namespaces are extensions to ignore
+    if (!(child instanceof XmlElement) || !isInstruction(child)) continue;
+
+    switch (child.localName) {
+      case "template":
+        compileTemplate(child, program);
+        break;
+      case "variable":
+      case "param":
+        program.globals.push({
+          ...compileBinding(child),
+          param: child.localName === "param",
+        });
+        break;
+      case "strip-space":
+      case "preserve-space":
+        program[child.localName === "strip-space" ? "strip" : "preserve"].push(
+          ...required(child, "elements").trim().split(/\s+/),
+        );
+        break;
+      case "output":
+        break;
+      default:
+        throw new Error(`Unsupported XSLT element <${child.name}>`);
+    }
+  }
+
+  return program;
+}
+
+function compileTemplate(element: XmlElement, program: Program): void {
+  const { match, name, mode = null, priority } = element.attr;
+  if (match === undefined && name === undefined) {
+    throw new Error('<xsl:template> needs a "match" or "name" attribute');
+  }
+
+  // Parameters come before the rest of the template
+  const params: Binding[] = [];
+  const content = element.children.filter((child) => {
+    if (!isXslt(child, "param")) return true;
+    params.push(compileBinding(child as XmlElement));
+    return false;
+  });
+  const template = { params, body: compileBody(content) };
+
+  if (name !== undefined) program.named.set(name, template);
+  if (match !== undefined) {
+    for (const alternative of pattern(match)) {
+      program.rules.push({
+        pattern: alternative,
+        mode,
+        priority:
+          priority === undefined ? defaultPriority(alternative) : +priority,
+        template,
+      });
+    }
+  }
+}
+
+function compileBody(nodes: XmlNodeBase[]): Instruction[] {
+  const body: Instruction[] = [];
+
+  for (const node of nodes) {
+    if (node.type === "text" || node.type === "cdata") {
+      // Whitespace-only text in a stylesheet is only for layout
+      const text = stringValue(node as XmlTextNode);
+      if (text.trim()) body.push({ kind: "text", text });
+    } else if (node instanceof XmlElement) {
+      body.push(
+        isInstruction(node) ? compileInstruction(node) : compileLiteral(node),
+      );
+    }
+  }
+
+  return body;
+}
+
+function compileInstruction(element: XmlElement): Instruction {
+  const content = () => compileBody(element.children);
+
+  switch (element.localName) {
+    case "apply-templates":
+      return {
+        kind: "apply-templates",
+        select:
+          element.attr.select === undefined
+            ? null
+            : parseXPath(element.attr.select),
+        mode: element.attr.mode ?? null,
+        sorts: compileSorts(element),
+        params: compileParams(element),
+      };
+    case "call-template":
+      return {
+        kind: "call-template",
+        name: required(element, "name"),
+        params: compileParams(element),
+      };
+    case "for-each":
+      return {
+        kind: "for-each",
+        select: parseXPath(required(element, "select")),
+        sorts: compileSorts(element),
+        body: compileBody(
+          element.children.filter((child) => !isXslt(child, "sort")),
+        ),
+      };
+    case "value-of":
+    case "copy-of":
+      return {
+        kind: element.localName,
+        select: parseXPath(required(element, "select")),
+      };
+    case "copy":
+    case "comment":
+      return { kind: element.localName, body: content() };
+    case "element":
+    case "attribute":
+    case "processing-instruction":
+      return {
+        kind: element.localName,
+        name: attributeValue(required(element, "name")),
+        body: content(),
+      };
+    case "if":
+      return {
+        kind: "if",
+        test: parseXPath(required(element, "test")),
+        body: content(),
+      };
+    case "choose":
+      return {
+        kind: "choose",
+        branches: element.children
+          .filter(
+            (child) => isXslt(child, "when") || isXslt(child, "otherwise"),
+          )
+          .map((child) => {
+            const branch = child as XmlElement;
+            return {
+              test:
+                branch.localName === "when"
+                  ? parseXPath(required(branch, "test"))
+                  : null,
+              body: compileBody(branch.children),
+            };
+          }),
+      };
+    case "variable":
+    case "param":
+      return { kind: "variable", binding: compileBinding(element) };
+    case "text":
+      return { kind: "text", text: stringValue(element) };
+    default:
+      throw new Error(`Unsupported XSLT element <${element.name}>`);
+  }
+}
+
+function compileLiteral(element: XmlElement): Instruction {
+  const attributes: [string, AttributeValue][] = [];
+  const namespaces = new Map<string, string>();
+  const declare = (name: string) => {
+    const prefix = name.includes(":") ? name.slice(0, name.indexOf(":")) : "";
+    if (prefix === "xml" || prefix === "xmlns") return;
+    namespaces.set(prefix, namespaceFor(element, prefix) ?? "");
+  };
+
+  declare(element.name);
+  for (const [name, value] of Object.entries(element.attr)) {
+    const prefix = name.slice(0, name.indexOf(":"));
+    // Leave out the XSLT namespace and attributes from it
+    if (value === XSLT_NAMESPACE && (name === "xmlns" || prefix === "xmlns")) {
+      continue;
+    }
+    if (prefix && namespaceFor(element, prefix) === XSLT_NAMESPACE) continue;
+
+    attributes.push([name, attributeValue(value)]);
+    if (prefix) declare(name);
+  }
+
+  return {
+    kind: "literal",
+    name: element.name,
+    attributes,
+    namespaces: [...namespaces],
+    body: compileBody(element.children),
+  };
+}
+
+function compileBinding(element: XmlElement): Binding {
+  const { select } = element.attr;
+  return {
+    name: required(element, "name"),
+    select: select === undefined ? null : parseXPath(select),
+    body: compileBody(element.children),
+  };
+}
+
+function compileParams(element: XmlElement): Binding[] {
+  return element.children
+    .filter((child) => isXslt(child, "with-param"))
+    .map((child) => compileBinding(child as XmlElement));
+}
+
+function compileSorts(element: XmlElement): Sort[] {
+  return element.children
+    .filter((child) => isXslt(child, "sort"))
+    .map((child) => {
+      const {
+        select = ".",
+        order,
+        "data-type": type,
+      } = (child as XmlElement).attr;
+      return {
+        select: parseXPath(select),
+        number: type === "number",
+        descending: order === "descending",
+      };
+    });
+}
+
+/**
+ * Parses an attribute value template like "item-{@id}", where "{{" and "}}"
+ * stand for literal braces
+ */
+function attributeValue(value: string): AttributeValue {
+  const parts: AttributeValue = [];
+  let text = "";
+
+  for (let i = 0; i < value.length; i++) {
+    const c = value[i];
+    if ((c === "{" || c === "}") && value[i + 1] === c) {
+      text += c;
+      i++;
+    } else if (c === "{") {
+      const end = value.indexOf("}", i);
+      if (end === -1) {
+        throw new Error(`Missing "}" in attribute value "${value}"`);
+      }
+      if (text) parts.push(text);
+      text = "";
+      parts.push(parseXPath(value.slice(i + 1, end)));
+      i = end;
+    } else if (c === "}") {
+      throw new Error(`Unexpected "}" in attribute value "${value}"`);
+    } else {
+      text += c;
+    }
+  }
+
+  if (text) parts.push(text);
+  return parts;
+}
+
+/** Splits a match pattern into its alternatives, checking each one */
+function pattern(source: string): PathExpression[] {
+  const alternatives: PathExpression[] = [];
+  const split = (expr: XPathExpression) => {
+    if (expr.kind === "binary" && expr.op === "|") {
+      split(expr.left);
+      split(expr.right);
+    } else if (
+      expr.kind === "path" &&
+      !expr.filter &&
+      expr.steps.every(
+        (step) =>
+          step.axis === "child" ||
+          step.axis === "attribute" ||
+          (step.axis === "descendant-or-self" && !step.predicates.length),
+      )
+    ) {
+      alternatives.push(expr);
+    } else {
+      throw new Error(`Unsupported XSLT pattern "${source}"`);
+    }
+  };
+
+  split(parseXPath(source));
+  return alternatives;
+}
+
+/** The priority XSLT gives a pattern that doesn't declare one */
+function defaultPriority(pattern: PathExpression): number {
+  const [step] = pattern.steps;
+  if (
+    pattern.absolute ||
+    pattern.steps.length !== 1 ||
+    step.predicates.length
+  ) {
+    return 0.5;
+  }
+
+  const { test } = step;
+  if (test.kind === "type") return test.target === undefined ? -0.5 : 0;
+  if (test.name === "*") return -0.5;
+  return test.name.endsWith(":*") ? -0.25 : 0;
+}
+
+function isInstruction(element: XmlElement): boolean {
+  return namespaceFor(element, element.prefix ?? "") === XSLT_NAMESPACE;
+}
+
+function isXslt(node: XmlNodeBase, localName: string): boolean {
+  return (
+    node instanceof XmlElement &&
+    node.localName === localName &&
+    isInstruction(node)
+  );
+}
+
+function required(element: XmlElement, name: string): string {
+  const value = element.attr[name];
+  if (value === undefined) {
+    throw new Error(`<${element.name}> needs a "${name}" attribute`);
+  }
+  return value;
+}
+
+//
+// Transforming
+//
+
+// Where an instruction runs: the context node, its position among the nodes
+// being processed, and the variables in scope
+interface Scope {
+  node: XPathContextNode;
+  position: number;
+  size: number;
+  variables: Record<string, XPathValue>;
+}
+
+class Transformation {
+  private readonly evaluator: XPathEvaluator;
+  private readonly start: XPathContextNode;
+  private readonly globals: Record<string, XPathValue> = {};
+  // The nodes each pattern selects from each node it's been evaluated from
+  private readonly matches = new Map<
+    PathExpression,
+    Map<XPathContextNode, Set<XPathContextNode>>
+  >();
+
+  constructor(
+    private readonly program: Program,
+    document: XmlElement,
+    params: Record<string, XPathResult> = {},
+  ) {
+    let top = document;
+    while (top.parent) top = top.parent;
+
+    // Whitespace is stripped from a copy, leaving the document alone
+    let start = document;
+    if (program.strip.length) {
+      const path: number[] = [];
+      for (let node = document; node.parent; node = node.parent) {
+        path.unshift(node.parent.children.indexOf(node));
+      }
+      top = copy(top) as XmlElement;
+      start = top;
+      for (const index of path) {
+        start = start.children[index] as XmlElement;
+      }
+      this.strip(top);
+    }
+
+    this.evaluator = new XPathEvaluator(top);
+    this.start = start === top ? this.evaluator.root : start;
+
+    const scope = this.scope(this.evaluator.root);
+    for (const binding of program.globals) {
+      this.globals[binding.name] =
+        binding.param &&
+        Object.prototype.hasOwnProperty.call(params, binding.name)
+          ? params[binding.name]
+          : this.bind(binding, scope);
+    }
+  }
+
+  run(): XmlDocument {
+    const output = fragment();
+    this.applyTemplates([this.start], null, [], this.scope(this.start), output);
+    return resultDocument(output);
+  }
+
+  private scope(node: XPathContextNode): Scope {
+    return { node, position: 1, size: 1, variables: this.globals };
+  }
+
+  /** Instantiates a template body, adding what it makes to the output */
+  private instantiate(
+    body: Instruction[],
+    scope: Scope,
+    output: XmlElement,
+  ): void {
+    for (const instruction of body) {
+      switch (instruction.kind) {
+        case "apply-templates": {
+          const nodes = instruction.select
+            ? this.nodes(instruction.select, scope)
+            : this.nodes(CHILDREN, scope);
+          this.applyTemplates(
+            this.sort(nodes, instruction.sorts, scope),
+            instruction.mode,
+            instruction.params,
+            scope,
+            output,
+          );
+          break;
+        }
+        case "call-template": {
+          const template = this.program.named.get(instruction.name);
+          if (!template) {
+            throw new Error(`Unknown template "${instruction.name}"`);
+          }
+          this.call(template, instruction.params, scope, scope, output);
+          break;
+        }
+        case "for-each": {
+          const nodes = this.sort(
+            this.nodes(instruction.select, scope),
+            instruction.sorts,
+            scope,
+          );
+          nodes.forEach((node, i) => {
+            this.instantiate(
+              instruction.body,
+              { ...scope, node, position: i + 1, size: nodes.length },
+              output,
+            );
+          });
+          break;
+        }
+        case "value-of":
+          appendText(
+            output,
+            valueToString(this.evaluate(instruction.select, scope)),
+          );
+          break;
+        case "copy-of": {
+          const value = this.evaluate(instruction.select, scope);
+          if (Array.isArray(value)) {
+            for (const node of value) copyInto(node, output);
+          } else {
+            appendText(output, valueToString(value));
+          }
+          break;
+        }
+        case "copy":
+          this.copy(instruction.body, scope, output);
+          break;
+        case "if":
+          if (toBoolean(this.evaluate(instruction.test, scope))) {
+            this.instantiate(instruction.body, scope, output);
+          }
+          break;
+        case "choose": {
+          const branch = instruction.branches.find(
+            ({ test }) => !test || toBoolean(this.evaluate(test, scope)),
+          );
+          if (branch) this.instantiate(branch.body, scope, output);
+          break;
+        }
+        case "variable":
+          // The variable is in scope for the instructions that follow it
+          scope = {
+            ...scope,
+            variables: {
+              ...scope.variables,
+              [instruction.binding.name]: this.bind(instruction.binding, scope),
+            },
+          };
+          break;
+        case "text":
+          appendText(output, instruction.text);
+          break;
+        case "literal": {
+          const element = output.appendChild(
+            new XmlElement({ name: instruction.name, attributes: {} }, null),
+          );
+          for (const [prefix, uri] of instruction.namespaces) {
+            declareNamespace(element, prefix, uri);
+          }
+          for (const [name, value] of instruction.attributes) {
+            element.setAttribute(name, this.attributeValue(value, scope));
+          }
+          this.instantiate(instruction.body, scope, element);
+          break;
+        }
+        case "element": {
+          const name = validName(this.attributeValue(instruction.name, scope));
+          const element = output.appendChild(
+            new XmlElement({ name, attributes: {} }, null),
+          );
+          this.instantiate(instruction.body, scope, element);
+          break;
+        }
+        case "attribute":
+          setAttribute(
+            output,
+            validName(this.attributeValue(instruction.name, scope)),
+            this.text(instruction.body, scope),
+          );
+          break;
+        case "comment":
+          output.appendChild(
+            new XmlCommentNode(this.text(instruction.body, scope)),
+          );
+          break;
+        case "processing-instruction":
+          output.appendChild(
+            new XmlProcessingInstructionNode(
+              validName(this.attributeValue(instruction.name, scope)),
+              this.text(instruction.body, scope),
+            ),
+          );
+          break;
+      }
+    }
+  }
+
+  /**
+   * Processes each node with the best template rule for it, or the built-in
+   * rule if none match
+   */
+  private applyTemplates(
+    nodes: XPathContextNode[],
+    mode: string | null,
+    params: Binding[],
+    scope: Scope,
+    output: XmlElement,
+  ): void {
+    nodes.forEach((node, i) => {
+      const target = this.scope(node);
+      target.position = i + 1;
+      target.size = nodes.length;
+
+      const rule = this.ruleFor(node, mode);
+      if (rule) {
+        this.call(rule.template, params, scope, target, output);
+      } else if (node.type === "root" || node.type === "element") {
+        this.applyTemplates(
+          this.nodes(CHILDREN, target),
+          mode,
+          [],
+          target,
+          output,
+        );
+      } else if (
+        node.type !== "comment" &&
+        node.type !== "processinginstruction"
+      ) {
+        appendText(output, stringValue(node));
+      }
+    });
+  }
+
+  /**
+   * Instantiates a template, with parameters given by the caller
+   * @param template The template
+   * @param params The caller's <xsl:with-param> values
+   * @param caller Where the parameter values are evaluated
+   * @param scope Where the template runs
+   * @param output Where the result goes
+   */
+  private call(
+    template: Template,
+    params: Binding[],
+    caller: Scope,
+    scope: Scope,
+    output: XmlElement,
+  ): void {
+    const values = new Map(
+      params.map((param) => [param.name, this.bind(param, caller)]),
+    );
+
+    scope = { ...scope, variables: { ...this.globals } };
+    for (const param of template.params) {
+      scope.variables[param.name] = values.has(param.name)
+        ? values.get(param.name)!
+        : this.bind(param, scope);
+    }
+    this.instantiate(template.body, scope, output);
+  }
+
+  /** Finds the rule for a node with the highest priority, or the last one */
+  private ruleFor(node: XPathContextNode, mode: string | null): Rule | null {
+    let best: Rule | null = null;
+    for (const rule of this.program.rules) {
+      if (
+        rule.mode === mode &&
+        (!best || rule.priority >= best.priority) &&
+        this.matchesPattern(node, rule.pattern)
+      ) {
+        best = rule;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Checks whether a node matches a pattern, which it does if evaluating
+   * the pattern from the node or one of its ancestors selects it
+   */
+  private matchesPattern(
+    node: XPathContextNode,
+    pattern: PathExpression,
+  ): boolean {
+    const contexts: XPathContextNode[] = [];
+    if (pattern.absolute) {
+      contexts.push(this.evaluator.root);
+    } else if (
+      pattern.steps.some((step) => step.axis === "descendant-or-self")
+    ) {
+      for (
+        let ancestor = this.evaluator.parentOf(node);
+        ancestor;
+        ancestor = this.evaluator.parentOf(ancestor)
+      ) {
+        contexts.push(ancestor);
+      }
+    } else {
+      // Each step goes down one level, so only one ancestor can match
+      let ancestor: XPathContextNode | undefined = node;
+      for (let i = 0; i < pattern.steps.length && ancestor; i++) {
+        ancestor = this.evaluator.parentOf(ancestor);
+      }
+      if (ancestor) contexts.push(ancestor);
+    }
+
+    let cache = this.matches.get(pattern);
+    if (!cache) this.matches.set(pattern, (cache = new Map()));
+
+    return contexts.some((context) => {
+      let selected = cache.get(context);
+      if (!selected) {
+        selected = new Set(this.nodes(pattern, this.scope(context)));
+        cache.set(context, selected);
+      }
+      return selected.has(node);
+    });
+  }
+
+  /** Runs <xsl:copy>, shallow-copying the context node */
+  private copy(body: Instruction[], scope: Scope, output: XmlElement): void {
+    const { node } = scope;
+
+    if (node.type === "root") {
+      this.instantiate(body, scope, output);
+    } else if (node.type === "element") {
+      const element = output.appendChild(
+        new XmlElement({ name: node.name, attributes: {} }, null),
+      );
+      copyNamespaces(node, element);
+      this.instantiate(body, scope, element);
+    } else {
+      copyInto(node, output);
+    }
+  }
+
+  private sort(
+    nodes: XPathContextNode[],
+    sorts: Sort[],
+    scope: Scope,
+  ): XPathContextNode[] {
+    if (!sorts.length) return nodes;
+
+    const keys = nodes.map((node, i) =>
+      sorts.map(({ select, number }) => {
+        const value = this.evaluate(select, {
+          ...scope,
+          node,
+          position: i + 1,
+          size: nodes.length,
+        });
+        return number ? toNumber(value) : valueToString(value);
+      }),
+    );
+    const indexes = nodes.map((_, i) => i);
+    indexes.sort((a, b) => {
+      for (let k = 0; k < sorts.length; k++) {
+        const order = compareKeys(keys[a][k], keys[b][k]);
+        if (order) return sorts[k].descending ? -order : order;
+      }
+      return 0;
+    });
+
+    return indexes.map((i) => nodes[i]);
+  }
+
+  private bind(binding: Binding, scope: Scope): XPathValue {
+    if (binding.select) return this.evaluate(binding.select, scope);
+    if (!binding.body.length) return "";
+
+    const output = fragment();
+    this.instantiate(binding.body, scope, output);
+    return [output];
+  }
+
+  /** Instantiates a body for its text, like the value of <xsl:attribute> */
+  private text(body: Instruction[], scope: Scope): string {
+    const output = fragment();
+    this.instantiate(body, scope, output);
+    return stringValue(output);
+  }
+
+  private attributeValue(value: AttributeValue, scope: Scope): string {
+    return value
+      .map((part) =>
+        typeof part === "string"
+          ? part
+          : valueToString(this.evaluate(part, scope)),
+      )
+      .join("");
+  }
+
+  private nodes(expr: XPathExpression, scope: Scope): XPathContextNode[] {
+    const value = this.evaluate(expr, scope);
+    if (!Array.isArray(value)) {
+      throw new Error("XPath expression does not evaluate to a node-set");
+    }
+    return value;
+  }
+
+  private evaluate(expr: XPathExpression, scope: Scope): XPathValue {
+    return this.evaluator.evaluate(expr, scope, scope.variables);
+  }
+
+  /** Removes whitespace-only text from the elements <xsl:strip-space> names */
+  private strip(element: XmlElement): void {
+    const { strip, preserve } = this.program;
+    const matches = (names: string[]) =>
+      names.some(
+        (name) =>
+          name === "*" ||
+          name === element.name ||
+          (name.endsWith(":*") && element.prefix === name.slice(0, -2)),
+      );
+
+    const stripping = matches(strip) && !matches(preserve);
+
+    for (const child of [...element.children]) {
+      if (child instanceof XmlElement) {
+        this.strip(child);
+      } else if (
+        stripping &&
+        child.type === "text" &&
+        !(child as XmlTextNode).text.trim()
+      ) {
+        child.remove();
+      }
+    }
+  }
+}
+
+function fragment(): XmlElement {
+  const element = new XmlElement({ name: "", attributes: {} }, null);
+  fragments.add(element);
+  return element;
+}
+
+/** Turns the top-level result into a document */
+function resultDocument(output: XmlElement): XmlDocument {
+  const nodes = output.children;
+  const roots = nodes.filter(
+    (node): node is XmlElement => node instanceof XmlElement,
+  );
+  if (roots.length !== 1) {
+    throw new Error(
+      `The transformation must produce one root element, not ${roots.length}`,
+    );
+  }
+  if (
+    nodes.some(
+      (node) => node.type === "text" && stringValue(node as XmlTextNode).trim(),
+    )
+  ) {
+    throw new Error(
+      "The transformation produced text outside the root element",
+    );
+  }
+
+  const [root] = roots;
+  const index = nodes.indexOf(root);
+  const document = XmlDocument.create(root.name).doc();
+  Object.assign(document.attr, root.attr);
+  for (const child of [...root.children]) document.appendChild(child);
+  // Comments and processing instructions can go around the root element
+  const outside = (nodes: XmlNodeBase[]) =>
+    nodes.filter((node) => node.type !== "text").map(copy);
+  document.prolog = outside(nodes.slice(0, index));
+  document.epilog = outside(nodes.slice(index + 1));
+  document._linkOutside();
+
+  document.normalize();
+  return document;
+}
+
+/** Adds a copy of a node from the source or a result tree fragment */
+function copyInto(node: XPathContextNode, output: XmlElement): void {
+  switch (node.type) {
+    case "root":
+      copyInto(node.element, output);
+      break;
+    case "attribute":
+      setAttribute(output, node.name, node.value);
+      break;
+    case "element":
+      if (fragments.has(node)) {
+        for (const child of node.children) output.appendChild(copy(child));
+      } else {
+        copyNamespaces(node, output.appendChild(copy(node) as XmlElement));
+      }
+      break;
+    default:
+      output.appendChild(copy(node));
+  }
+}
+
+/** Declares the namespaces in scope for a source element on its copy */
+function copyNamespaces(source: XmlElement, target: XmlElement): void {
+  const seen = new Set<string>();
+  for (
+    let element: XmlElement | null = source;
+    element;
+    element = element.parent
+  ) {
+    for (const [name, uri] of Object.entries(element.attr)) {
+      if (!/^xmlns(:|$)/.test(name) || seen.has(name)) continue;
+      seen.add(name);
+      declareNamespace(target, name.slice(6), uri);
+    }
+  }
+}
+
+/** Declares a namespace on a result element, unless it's already in scope */
+function declareNamespace(
+  element: XmlElement,
+  prefix: string,
+  uri: string,
+): void {
+  if ((namespaceFor(element, prefix) ?? "") !== uri) {
+    element.setAttribute(prefix ? `xmlns:${prefix}` : "xmlns", uri);
+  }
+}
+
+function setAttribute(output: XmlElement, name: string, value: string): void {
+  if (fragments.has(output)) {
+    throw new Error(`Cannot add attribute "${name}" outside of an element`);
+  }
+  output.setAttribute(name, value);
+}
+
+function appendText(output: XmlElement, text: string): void {
+  if (text) output.appendChild(new XmlTextNode(text));
+}
+
+function compareKeys(a: string | number, b: string | number): number {
+  if (typeof a === "string" || typeof b === "string") {
+    return String(a).localeCompare(String(b));
+  }
+  // NaN sorts before every number
+  if (Number.isNaN(a) || Number.isNaN(b)) {
+    return Number(Number.isNaN(b)) - Number(Number.isNaN(a));
+  }
+  return a - b;
+}
@@ -0,0 +1,101 @@
+import { describe, test } from "node:test";
+import assert from "node:assert";
+import {
+  XmlBuilder,
+  XmlCDataNode,
+  XmlCommentNode,
+  XmlDocument,
+  XmlElement,
+  XmlTextNode,
+} from "xmldoc";
+
+describe("XmlDocument.create", () => {
+  test("builds a real node tree", () => {
+    const doc = XmlDocument.create("root", { version: 2 })
+      .ele("child", { id: "1" })
+      .txt("value")
+      .up()
+      .ele("data")
+      .dat("<raw>")
+      .up()
+      .com("note")
+      .doc();
+
+    assert.ok(doc instanceof XmlDocument);
+    assert.strictEqual(doc.name, "root");
+    assert.deepStrictEqual(doc.attr, { version: "2" });
+    assert.strictEqual(doc.children.length, 3);
+
+    const child = doc.childNamed("child")!;
+    assert.ok(child instanceof XmlElement);
+    assert.strictEqual(child.val, "value");
+    assert.strictEqual(child.parent, doc);
+    assert.strictEqual(child.ownerDocument, doc);
+    assert.ok(child.firstChild instanceof XmlTextNode);
+    assert.ok(doc.childNamed("data")?.firstChild instanceof XmlCDataNode);
+    assert.ok(doc.lastChild instanceof XmlCommentNode);
+  });
+
+  test("serializes with escaping", () => {
+    const xml = XmlDocument.create("report")
+      .ele("entry", { title: 'Q1 "final"' })
+      .txt("Revenue & <costs>")
+      .up()
+      .ele("empty")
+      .up()
+      .end({ compressed: true });
+
+    assert.strictEqual(
+      xml,
+      '<report><entry title="Q1 &quot;final&quot;">Revenue &amp; &lt;costs&gt;</entry><empty/></report>',
+    );
+    assert.strictEqual(
+      new XmlDocument(xml).valueWithPath("entry"),
+      "Revenue & <costs>",
+    );
+  });
+
+  test("serializes from any depth with indentation", () => {
+    const builder = XmlDocument.create("a").ele("b").ele("c").txt(1);
+    assert.strictEqual(builder.end(), "<a>\n  <b>\n    <c>1</c>\n  </b>\n</a>");
+    assert.strictEqual(builder.element.toString(), "<c>1</c>");
+  });
+
+  test("sets attributes one at a time or in bulk", () => {
+    const doc = XmlDocument.create("item")
+      .att("id", 7)
+      .att({ active: true, name: "x" })
+      .doc();
+    assert.deepStrictEqual(doc.attr, { id: "7", active: "true", name: "x" });
+  });
+
+  test("has no parse position information", () => {
+    new XmlDocument("<parsed><child/></parsed>");
+    const doc = XmlDocument.create("root").ele("child").doc();
+    assert.strictEqual(doc.line, null);
+    assert.strictEqual(doc.childNamed("child")?.line, null);
+    assert.strictEqual(doc.childNamed("child")?.position, null);
+  });
+
+  test("builds into existing elements", () => {
+    const doc = new XmlDocument("<list><item>1</item></list>");
+    new XmlBuilder(doc).ele("item").txt(2);
+    assert.deepStrictEqual(
+      doc.childrenNamed("item").map((item) => item.val),
+      ["1", "2"],
+    );
+  });
+
+  test("rejects malformed names and content", () => {
+    assert.throws(() => XmlDocument.create("1root"), /Invalid XML name/);
+    assert.throws(() => XmlDocument.create("a b"), /Invalid XML name/);
+    const builder = XmlDocument.create("root");
+    assert.throws(() => builder.ele("<x>"), /Invalid XML name/);
+    assert.throws(() => builder.att("a=b", 1), /Invalid XML name/);
+    assert.throws(() => builder.dat("a]]>b"), /CDATA/);
+    assert.throws(() => builder.com("a--b"), /Comment/);
+    assert.throws(() => (builder as XmlBuilder<unknown>).up(), /top element/);
+
+    XmlDocument.create("ns:root-1").ele("_x.y").ele("é");
+  });
+});
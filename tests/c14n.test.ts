@@ -0,0 +1,200 @@
+import { describe, test } from "node:test";
+import assert from "node:assert";
+import { XmlDocument } from "xmldoc";
+
+// Examples from https://www.w3.org/TR/xml-c14n and
+// https://www.w3.org/TR/xml-exc-c14n
+describe("canonicalize", () => {
+  test("writes PIs, comments and content outside the document element", () => {
+    const doc = new XmlDocument(`<?xml version="1.0"?>
+
+<?xml-stylesheet   href="doc.xsl"
+   type="text/xsl"   ?>
+
+<!DOCTYPE doc SYSTEM "doc.dtd">
+
+<doc>Hello, world!<!-- Comment 1 --></doc>
+
+<?pi-without-data     ?>
+
+<!-- Comment 2 -->
+
+<!-- Comment 3 -->`);
+
+    assert.strictEqual(
+      doc.canonicalize(),
+      `<?xml-stylesheet href="doc.xsl"
+   type="text/xsl"   ?>
+<doc>Hello, world!</doc>
+<?pi-without-data?>`,
+    );
+    assert.strictEqual(
+      doc.canonicalize({ comments: true }),
+      `<?xml-stylesheet href="doc.xsl"
+   type="text/xsl"   ?>
+<doc>Hello, world!<!-- Comment 1 --></doc>
+<?pi-without-data?>
+<!-- Comment 2 -->
+<!-- Comment 3 -->`,
+    );
+  });
+
+  test("keeps whitespace in document content", () => {
+    const xml = `<doc>
+   <clean>   </clean>
+   <dirty>   A   B   </dirty>
+   <mixed>
+      A
+      <clean>   </clean>
+      B
+      <dirty>   A   B   </dirty>
+      C
+   </mixed>
+</doc>`;
+    assert.strictEqual(new XmlDocument(xml).canonicalize(), xml);
+  });
+
+  test("normalizes start and end tags", () => {
+    const doc =
+      new XmlDocument(`<!DOCTYPE doc [<!ATTLIST e9 attr CDATA "default">]>
+<doc>
+   <e1   />
+   <e2   ></e2>
+   <e3   name = "elem3"   id="elem3"   />
+   <e4   name="elem4"   id="elem4"   ></e4>
+   <e5 a:attr="out" b:attr="sorted" attr2="all" attr="I'm"
+      xmlns:b="http://www.ietf.org"
+      xmlns:a="http://www.w3.org"
+      xmlns="http://example.org"/>
+   <e6 xmlns="" xmlns:a="http://www.w3.org">
+      <e7 xmlns="http://www.ietf.org">
+         <e8 xmlns="" xmlns:a="http://www.w3.org">
+            <e9 xmlns="" xmlns:a="http://www.ietf.org"/>
+         </e8>
+      </e7>
+   </e6>
+</doc>`);
+
+    assert.strictEqual(
+      doc.canonicalize(),
+      `<doc>
+   <e1></e1>
+   <e2></e2>
+   <e3 id="elem3" name="elem3"></e3>
+   <e4 id="elem4" name="elem4"></e4>
+   <e5 xmlns="http://example.org" xmlns:a="http://www.w3.org" xmlns:b="http://www.ietf.org" attr="I'm" attr2="all" b:attr="sorted" a:attr="out"></e5>
+   <e6 xmlns:a="http://www.w3.org">
+      <e7 xmlns="http://www.ietf.org">
+         <e8 xmlns="">
+            <e9 xmlns:a="http://www.ietf.org" attr="default"></e9>
+         </e8>
+      </e7>
+   </e6>
+</doc>`,
+    );
+  });
+
+  test("escapes characters and replaces character references", () => {
+    const xml = `<!DOCTYPE doc [
+<!ATTLIST normId id ID #IMPLIED>
+<!ATTLIST normNames attr NMTOKENS #IMPLIED>
+]>
+<doc>
+   <text>First line&#x0d;&#10;Second line</text>
+   <value>&#x32;</value>
+   <compute><![CDATA[value>"0" && value<"10" ?"valid":"error"]]></compute>
+   <compute expr='value>"0" &amp;&amp; value&lt;"10" ?"valid":"error"'>valid</compute>
+   <norm attr=' &apos;   &#x20;&#13;&#xa;&#9;   &apos; '/>
+   <normNames attr='   A   &#x20;&#13;&#xa;&#9;   B   '/>
+   <normId id=' &apos;   &#x20;&#13;&#xa;&#9;   &apos; '/>
+</doc>`;
+    const canonical = `<doc>
+   <text>First line&#xD;
+Second line</text>
+   <value>2</value>
+   <compute>value&gt;"0" &amp;&amp; value&lt;"10" ?"valid":"error"</compute>
+   <compute expr="value>&quot;0&quot; &amp;&amp; value&lt;&quot;10&quot; ?&quot;valid&quot;:&quot;error&quot;">valid</compute>
+   <norm attr=" '    &#xD;&#xA;&#x9;   ' "></norm>
+   <normNames attr="A &#xD;&#xA;&#x9; B"></normNames>
+   <normId id="' &#xD;&#xA;&#x9; '"></normId>
+</doc>`;
+
+    assert.strictEqual(new XmlDocument(xml).canonicalize(), canonical);
+    assert.strictEqual(
+      new XmlDocument(xml, { normalizeAttributes: true }).canonicalize(),
+      canonical,
+    );
+  });
+
+  test("normalizes line endings and whitespace in attribute values", () => {
+    const doc = new XmlDocument(
+      '<doc a="x\r\ny\tz&#9;">line1\r\nline2\r</doc>',
+    );
+
+    assert.strictEqual(
+      doc.canonicalize(),
+      '<doc a="x y z&#x9;">line1\nline2\n</doc>',
+    );
+
+    // Values set since parsing are written as they are
+    doc.attr.a = "x\ny";
+    assert.strictEqual(
+      doc.canonicalize(),
+      '<doc a="x&#xA;y">line1\nline2\n</doc>',
+    );
+  });
+
+  test("writes subtrees with their inherited namespaces", () => {
+    const doc =
+      new XmlDocument(`<n0:local xmlns:n0="foo:bar" xmlns:n3="ftp://example.org">
+  <n1:elem2 xmlns:n1="http://example.net" xml:lang="en">
+     <n3:stuff xmlns:n3="ftp://example.org"/>
+  </n1:elem2>
+</n0:local>`);
+    const elem2 = doc.childNamed("n1:elem2")!;
+
+    assert.strictEqual(
+      elem2.canonicalize(),
+      `<n1:elem2 xmlns:n0="foo:bar" xmlns:n1="http://example.net" xmlns:n3="ftp://example.org" xml:lang="en">
+     <n3:stuff></n3:stuff>
+  </n1:elem2>`,
+    );
+    assert.strictEqual(
+      elem2.canonicalize({ algorithm: "exc-c14n" }),
+      `<n1:elem2 xmlns:n1="http://example.net" xml:lang="en">
+     <n3:stuff xmlns:n3="ftp://example.org"></n3:stuff>
+  </n1:elem2>`,
+    );
+    assert.strictEqual(
+      elem2.canonicalize({
+        algorithm: "exc-c14n",
+        inclusiveNamespaces: ["n0"],
+      }),
+      `<n1:elem2 xmlns:n0="foo:bar" xmlns:n1="http://example.net" xml:lang="en">
+     <n3:stuff xmlns:n3="ftp://example.org"></n3:stuff>
+  </n1:elem2>`,
+    );
+  });
+
+  test("copies inherited xml attributes onto the subtree in C14N 1.0", () => {
+    const doc = new XmlDocument(
+      '<a xml:lang="en" xml:space="preserve"><b xml:lang="fr"><c/></b></a>',
+    );
+    const b = doc.childNamed("b")!;
+    assert.strictEqual(
+      b.canonicalize(),
+      '<b xml:lang="fr" xml:space="preserve"><c></c></b>',
+    );
+    assert.strictEqual(
+      b.canonicalize({ algorithm: "exc-c14n" }),
+      '<b xml:lang="fr"><c></c></b>',
+    );
+  });
+
+  test("rejects undeclared prefixes", () => {
+    assert.throws(
+      () => new XmlDocument("<a:root/>").canonicalize(),
+      /Unbound namespace prefix "a"/,
+    );
+  });
+});
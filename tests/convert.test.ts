@@ -0,0 +1,167 @@
+import { describe, test } from "node:test";
+import assert from "node:assert";
+import { XmlDocument } from "xmldoc";
+
+const xml = `
+<library name="City">
+  <book id="1" available="true">
+    <title>Dune</title>
+    <price>9.99</price>
+  </book>
+  <book id="2">
+    <title>Neuromancer</title>
+    <price>007</price>
+  </book>
+  <note/>
+</library>`;
+
+describe("toObject", () => {
+  test("uses @attributes and #text by default", () => {
+    const doc = new XmlDocument(
+      '<a x="1"><b>text</b><c y="2">more</c><d/></a>',
+    );
+    assert.deepStrictEqual(doc.toObject(), {
+      a: { "@x": "1", b: "text", c: { "@y": "2", "#text": "more" }, d: "" },
+    });
+  });
+
+  test("groups repeated elements into arrays", () => {
+    const library = new XmlDocument(xml).toObject() as any;
+    assert.strictEqual(library.library.book.length, 2);
+    assert.strictEqual(library.library.book[1].title, "Neuromancer");
+  });
+
+  test("coerces arrays by element name", () => {
+    const doc = new XmlDocument("<a><b>1</b><c>2</c></a>");
+    assert.deepStrictEqual(doc.toObject({ arrays: ["b"] }), {
+      a: { b: ["1"], c: "2" },
+    });
+    assert.deepStrictEqual(doc.toObject({ arrays: true }), {
+      a: { b: ["1"], c: ["2"] },
+    });
+  });
+
+  test("coerces numbers and booleans", () => {
+    const book = new XmlDocument(xml).childNamed("book")!;
+    assert.deepStrictEqual(book.toObject({ coerce: true }), {
+      book: {
+        "@id": 1,
+        "@available": true,
+        title: "Dune",
+        price: 9.99,
+      },
+    });
+
+    const second = new XmlDocument(xml).childrenNamed("book")[1];
+    assert.strictEqual(
+      (second.toObject({ coerce: true }) as any).book.price,
+      "007",
+    );
+  });
+
+  test("supports BadgerFish", () => {
+    const doc = new XmlDocument('<a x="1"><b>text</b><b/></a>');
+    assert.deepStrictEqual(doc.toObject({ convention: "badgerfish" }), {
+      a: { "@x": "1", b: [{ $: "text" }, {}] },
+    });
+  });
+
+  test("supports GData", () => {
+    const doc = new XmlDocument(
+      '<feed v="2"><title type="text">Hi</title></feed>',
+    );
+    assert.deepStrictEqual(doc.toObject({ convention: "gdata" }), {
+      feed: { v: "2", title: { type: "text", $t: "Hi" } },
+    });
+  });
+
+  test("supports Parker", () => {
+    const doc = new XmlDocument(xml);
+    assert.deepStrictEqual(
+      doc.toObject({ convention: "parker", coerce: true }),
+      {
+        book: [
+          { title: "Dune", price: 9.99 },
+          { title: "Neuromancer", price: "007" },
+        ],
+        note: null,
+      },
+    );
+  });
+
+  test("treats CDATA as text and skips comments", () => {
+    const doc = new XmlDocument("<a><!-- hi --><![CDATA[<b>]]></a>");
+    assert.deepStrictEqual(doc.toObject(), { a: "<b>" });
+  });
+
+  test("is used by JSON.stringify", () => {
+    const doc = new XmlDocument(xml);
+    const book = doc.childNamed("book")!;
+    assert.strictEqual(JSON.stringify(book), JSON.stringify(book.toObject()));
+    assert.strictEqual(
+      JSON.parse(JSON.stringify(doc)).library["@name"],
+      "City",
+    );
+  });
+});
+
+describe("XmlDocument.fromObject", () => {
+  test("builds documents with the default convention", () => {
+    const doc = XmlDocument.fromObject({
+      book: {
+        "@id": 1,
+        title: "Dune",
+        tag: ["a", "b"],
+        note: { "#text": "x", "@lang": "en" },
+      },
+    });
+    assert.strictEqual(
+      doc.toString({ compressed: true }),
+      '<book id="1"><title>Dune</title><tag>a</tag><tag>b</tag><note lang="en">x</note></book>',
+    );
+  });
+
+  test("round-trips every convention", () => {
+    const original = new XmlDocument(xml);
+    const compact = original.toString({ compressed: true });
+
+    for (const convention of ["default", "badgerfish", "gdata"] as const) {
+      const object = original.toObject({ convention });
+      const doc = XmlDocument.fromObject(object, { convention });
+      assert.strictEqual(
+        doc.toString({ compressed: true }),
+        compact,
+        convention,
+      );
+    }
+
+    const parker = XmlDocument.fromObject(
+      original.toObject({ convention: "parker" }),
+      { convention: "parker", root: "library" },
+    );
+    assert.strictEqual(
+      parker.toString({ compressed: true }),
+      "<library><book><title>Dune</title><price>9.99</price></book>" +
+        "<book><title>Neuromancer</title><price>007</price></book><note/></library>",
+    );
+  });
+
+  test("round-trips coerced values", () => {
+    const original = new XmlDocument(xml);
+    const doc = XmlDocument.fromObject(original.toObject({ coerce: true }));
+    assert.strictEqual(
+      doc.toString({ compressed: true }),
+      original.toString({ compressed: true }),
+    );
+  });
+
+  test("rejects objects without a single root", () => {
+    assert.throws(() => XmlDocument.fromObject({ a: 1, b: 2 }), /single root/);
+    assert.throws(() => XmlDocument.fromObject("text"), /single root/);
+    assert.throws(() => XmlDocument.fromObject({ a: [1, 2] }), /array/);
+    assert.throws(
+      () => XmlDocument.fromObject({}, { convention: "parker" }),
+      /root option/,
+    );
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, test } from "node:test";
+import assert from "node:assert";
+import { XmlDocument, applyPatch, diff, toXmlPatch } from "xmldoc";
+import type { XmlDiffOptions } from "xmldoc";
+
+// Checks that both forms of the patch turn a into b
+function assertRoundTrip(a: string, b: string, options?: XmlDiffOptions): void {
+  const changes = diff(new XmlDocument(a), new XmlDocument(b), options);
+  const expected = new XmlDocument(b).toString({ compressed: true });
+
+  const target = new XmlDocument(a);
+  applyPatch(target, changes);
+  assert.strictEqual(target.toString({ compressed: true }), expected);
+
+  const patch = new XmlDocument(toXmlPatch(changes).toString());
+  const other = new XmlDocument(a);
+  applyPatch(other, patch);
+  assert.strictEqual(other.toString({ compressed: true }), expected);
+}
+
+describe("diff", () => {
+  test("reports attribute and text changes with paths", () => {
+    const a = new XmlDocument(
+      '<feed><title>Old</title><item id="1" old="x">A</item><item id="2">B</item></feed>',
+    );
+    const b = new XmlDocument(
+      '<feed><title>New</title><item id="1" new="y">A</item><item id="3">B</item></feed>',
+    );
+
+    assert.deepStrictEqual(diff(a, b), [
+      {
+        type: "text",
+        path: "/feed/title[1]/text()[1]",
+        oldValue: "Old",
+        newValue: "New",
+      },
+      {
+        type: "attribute",
+        path: "/feed/item[1]",
+        name: "old",
+        oldValue: "x",
+        newValue: null,
+      },
+      {
+        type: "attribute",
+        path: "/feed/item[1]",
+        name: "new",
+        oldValue: null,
+        newValue: "y",
+      },
+      {
+        type: "attribute",
+        path: "/feed/item[2]",
+        name: "id",
+        oldValue: "2",
+        newValue: "3",
+      },
+    ]);
+  });
+
+  test("reports insertions and deletions", () => {
+    const a = new XmlDocument("<list><a/><b/><c/></list>");
+    const b = new XmlDocument("<list><a/><c/><d>new</d></list>");
+    const changes = diff(a, b);
+
+    assert.deepStrictEqual(
+      changes.map(({ type, path }) => ({ type, path })),
+      [
+        { type: "delete", path: "/list/b[1]" },
+        { type: "insert", path: "/list" },
+      ],
+    );
+    const insert = changes[1];
+    assert.ok(insert.type === "insert");
+    assert.strictEqual(insert.index, 2);
+    assert.strictEqual(insert.node.toString(), "<d>new</d>");
+  });
+
+  test("matches siblings by a key attribute and reports moves", () => {
+    const a = new XmlDocument(
+      '<feed><item id="1">One</item><item id="2">Two</item><item id="3">Three</item></feed>',
+    );
+    const b = new XmlDocument(
+      '<feed><item id="3">Three</item><item id="1">One!</item><item id="2">Two</item></feed>',
+    );
+
+    assert.deepStrictEqual(
+      diff(a, b, { key: "id" }).map(({ type, path }) => ({ type, path })),
+      [
+        { type: "text", path: "/feed/item[1]/text()[1]" },
+        { type: "move", path: "/feed/item[3]" },
+      ],
+    );
+
+    // Without a key, items are compared in order
+    assert.deepStrictEqual(
+      diff(a, b).map(({ type }) => type),
+      ["attribute", "text", "attribute", "text", "attribute", "text"],
+    );
+  });
+
+  test("rejects elements with different names", () => {
+    assert.throws(
+      () => diff(new XmlDocument("<a/>"), new XmlDocument("<b/>")),
+      /Cannot compare <a> with <b>/,
+    );
+  });
+
+  test("compares elements inside larger trees", () => {
+    const a = new XmlDocument("<root><x/><section><p>1</p></section></root>");
+    const b = new XmlDocument("<section><p>2</p></section>");
+
+    assert.deepStrictEqual(diff(a.childNamed("section")!, b), [
+      {
+        type: "text",
+        path: "/root/section[1]/p[1]/text()[1]",
+        oldValue: "1",
+        newValue: "2",
+      },
+    ]);
+  });
+});
+
+describe("applyPatch", () => {
+  test("replays changes onto a tree", () => {
+    assertRoundTrip(
+      '<feed><title>Old</title><item id="1" old="x">A</item><item id="2">B</item></feed>',
+      '<feed><title>New</title><item id="1" new="y">A</item><item id="3">B</item></feed>',
+    );
+    assertRoundTrip(
+      "<list><a/><b/><!-- note --><c>text<![CDATA[raw]]></c></list>",
+      "<list><?pi data?><c>changed<![CDATA[raw!]]><e/></c><b/><f/></list>",
+    );
+    assertRoundTrip("<root><a/><b/></root>", "<root/>");
+    assertRoundTrip("<root/>", "<root><a>1</a><b>2</b></root>");
+  });
+
+  test("replays moves onto a tree", () => {
+    const items = (ids: number[]) =>
+      `<feed>${ids.map((id) => `<item id="${id}"><n>${id}</n></item>`).join("")}</feed>`;
+
+    assertRoundTrip(items([1, 2, 3, 4, 5]), items([5, 4, 3, 2, 1]), {
+      key: "id",
+    });
+    assertRoundTrip(items([1, 2, 3, 4, 5]), items([2, 6, 4, 1, 5]), {
+      key: "id",
+    });
+    assertRoundTrip(items([3, 1, 2]), items([1, 2, 3, 7]), { key: "id" });
+  });
+
+  test("writes RFC 5261 patches", () => {
+    const a = new XmlDocument('<doc><a x="1">text</a><b/><c/></doc>');
+    const b = new XmlDocument('<doc><a y="2">new</a><c/><d/></doc>');
+
+    assert.strictEqual(
+      toXmlPatch(diff(a, b)).toString(),
+      [
+        "<diff>",
+        '  <remove sel="/doc/a[1]/@x"/>',
+        '  <add sel="/doc/a[1]" type="@y">2</add>',
+        '  <replace sel="/doc/a[1]/text()[1]">new</replace>',
+        '  <remove sel="/doc/b[1]"/>',
+        '  <add sel="/doc/node()[2]" pos="after">',
+        "    <d/>",
+        "  </add>",
+        "</diff>",
+      ].join("\n"),
+    );
+  });
+
+  test("applies RFC 5261 patches written by hand", () => {
+    const doc = new XmlDocument(
+      '<doc xmlns:x="urn:x"><a id="1">text</a>\n<b/>\n<c/></doc>',
+      { whitespace: "keep" },
+    );
+    const patch = new XmlDocument(`<diff>
+  <add sel="/doc/a[1]" pos="before"><first/></add>
+  <add sel="/doc/c" pos="after"><last/><!-- end --></add>
+  <add sel="/doc/a" pos="prepend">Some </add>
+  <add sel="/doc/a">!</add>
+  <add sel="/doc" type="namespace::y">urn:y</add>
+  <replace sel="/doc/a/@id">2</replace>
+  <replace sel="/doc/first"><start/></replace>
+  <remove sel="/doc/b" ws="after"/>
+</diff>`);
+
+    applyPatch(doc, patch);
+    assert.strictEqual(
+      doc.toString({ compressed: true, preserveWhitespace: true }),
+      '<doc xmlns:x="urn:x" xmlns:y="urn:y"><start/><a id="2">Some text!</a>\n<c/><last/><!-- end --></doc>',
+    );
+  });
+
+  test("rejects paths that don't select one node", () => {
+    const doc = new XmlDocument("<doc><a/><a/></doc>");
+
+    assert.throws(
+      () => applyPatch(doc, [{ type: "delete", path: "/doc/b", node: doc }]),
+      /Patch path "\/doc\/b" does not select exactly one node/,
+    );
+    assert.throws(
+      () =>
+        applyPatch(doc, new XmlDocument('<diff><remove sel="/doc/a"/></diff>')),
+      /does not select exactly one node/,
+    );
+    assert.throws(
+      () =>
+        applyPatch(doc, new XmlDocument('<diff><rename sel="/doc"/></diff>')),
+      /Unknown patch operation <rename>/,
+    );
+  });
+});
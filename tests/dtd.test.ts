@@ -0,0 +1,191 @@
+import { describe, test } from "node:test";
+import assert from "node:assert";
+import { XmlDocument, XmlParseError, XmlStreamReader } from "xmldoc";
+
+const catalog = `<?xml version="1.0"?>
+<!DOCTYPE catalog SYSTEM "catalog.dtd" [
+  <!ENTITY % flags "<!ENTITY new 'New!'>">
+  %flags;
+  <!ELEMENT catalog (product*)>
+  <!ELEMENT product (#PCDATA)>
+  <!ATTLIST product
+    id ID #REQUIRED
+    status (draft|live) "live"
+    currency CDATA #FIXED "USD"
+    note CDATA #IMPLIED>
+  <!ENTITY company "Acme &amp; Sons">
+  <!ENTITY copy "&#169; &company;">
+  <!ENTITY logo SYSTEM "logo.png" NDATA png>
+  <!NOTATION png SYSTEM "image/png">
+]>
+<catalog>
+  <product id="p1" label="&new;">&copy; 2024</product>
+  <product id="p2" status="draft"/>
+</catalog>`;
+
+describe("DTD", () => {
+  test("parses the internal subset", () => {
+    const { dtd } = new XmlDocument(catalog);
+    assert.ok(dtd);
+    assert.strictEqual(dtd.name, "catalog");
+    assert.strictEqual(dtd.systemId, "catalog.dtd");
+    assert.strictEqual(dtd.publicId, null);
+    assert.deepStrictEqual(dtd.elements.catalog, {
+      name: "catalog",
+      content: "(product*)",
+    });
+
+    assert.deepStrictEqual(
+      dtd.attributes.product.map(({ name, type, presence }) => [
+        name,
+        type,
+        presence,
+      ]),
+      [
+        ["id", "ID", "required"],
+        ["status", "ENUMERATION", "default"],
+        ["currency", "CDATA", "fixed"],
+        ["note", "CDATA", "implied"],
+      ],
+    );
+    assert.deepStrictEqual(dtd.attributes.product[1].values, ["draft", "live"]);
+
+    assert.strictEqual(dtd.entities.copy.value, "© &company;");
+    assert.strictEqual(dtd.entities.new.value, "New!");
+    assert.deepStrictEqual(dtd.entities.logo, {
+      name: "logo",
+      value: null,
+      publicId: null,
+      systemId: "logo.png",
+      notation: "png",
+    });
+    assert.strictEqual(new XmlDocument("<a/>").dtd, null);
+  });
+
+  test("expands internal entities", () => {
+    const doc = new XmlDocument(catalog);
+    const product = doc.childNamed("product")!;
+    assert.strictEqual(product.val, "© Acme & Sons 2024");
+    assert.strictEqual(product.attr.label, "New!");
+  });
+
+  test("applies attribute defaults", () => {
+    const [first, second] = new XmlDocument(catalog).childrenNamed("product");
+    assert.deepStrictEqual(first.attr, {
+      id: "p1",
+      label: "New!",
+      status: "live",
+      currency: "USD",
+    });
+    assert.strictEqual(second.attr.status, "draft");
+  });
+
+  test("expands entities in attribute defaults", () => {
+    const value = (doctype: string) =>
+      new XmlDocument(`<!DOCTYPE r [${doctype}]><r/>`).attr.x;
+
+    assert.strictEqual(value('<!ATTLIST r x CDATA "a&lt;c">'), "a<c");
+    assert.strictEqual(value('<!ENTITY c "C"><!ATTLIST r x CDATA "&c;">'), "C");
+    assert.strictEqual(
+      value(
+        '<!ENTITY b "&c;!"><!ENTITY c "C"><!ATTLIST r x CDATA "[&b;&#38;lt;]">',
+      ),
+      "[C!&lt;]",
+    );
+
+    assert.throws(
+      () => value('<!ATTLIST r x CDATA "&y;">'),
+      /Undefined entity "&y;"/,
+    );
+    const lol = [`<!ENTITY lol0 "lol">`];
+    for (let i = 1; i <= 9; i++) {
+      lol.push(`<!ENTITY lol${i} "${`&lol${i - 1};`.repeat(10)}">`);
+    }
+    assert.throws(
+      () => value(`${lol.join("")}<!ATTLIST r x CDATA "&lol9;">`),
+      (error) =>
+        error instanceof XmlParseError &&
+        error.code === "entity-expansion-limit",
+    );
+  });
+
+  test("round-trips with preserveFormatting", () => {
+    const doc = new XmlDocument(catalog, { preserveFormatting: true });
+    assert.strictEqual(doc.toString(), catalog);
+  });
+
+  test("reports undefined, recursive and external entities", () => {
+    const code = (xml: string) => {
+      try {
+        new XmlDocument(xml);
+      } catch (error) {
+        assert.ok(error instanceof XmlParseError);
+        return `${error.code}: ${error.reason}`;
+      }
+      assert.fail("Expected a parse error");
+    };
+
+    assert.strictEqual(
+      code('<!DOCTYPE a [<!ENTITY x "&y;">]><a>&x;</a>'),
+      'invalid-entity: Undefined entity "&y;"',
+    );
+    assert.strictEqual(
+      code('<!DOCTYPE a [<!ENTITY x "&y;"><!ENTITY y "&x;">]><a>&x;</a>'),
+      'invalid-entity: Recursive entity "&x;"',
+    );
+    assert.strictEqual(
+      code('<!DOCTYPE a [<!ENTITY x SYSTEM "x.xml">]><a>&x;</a>'),
+      'invalid-entity: External entity "&x;" can\'t be expanded',
+    );
+    assert.strictEqual(
+      code("<!DOCTYPE a [<!ENTITY x>]><a/>"),
+      "invalid-doctype: Invalid DTD: malformed entity declaration",
+    );
+  });
+
+  test("limits entity expansion", () => {
+    const lol = [`<!ENTITY lol0 "lol">`];
+    for (let i = 1; i <= 9; i++) {
+      lol.push(`<!ENTITY lol${i} "${`&lol${i - 1};`.repeat(10)}">`);
+    }
+    const bomb = `<!DOCTYPE lolz [${lol.join("")}]><lolz>&lol9;</lolz>`;
+
+    assert.throws(
+      () => new XmlDocument(bomb),
+      (error) =>
+        error instanceof XmlParseError &&
+        error.code === "entity-expansion-limit",
+    );
+
+    const repeated = `<!DOCTYPE a [<!ENTITY x "x">]><a>${"&x;".repeat(20)}</a>`;
+    assert.strictEqual(new XmlDocument(repeated).val, "x".repeat(20));
+    assert.throws(
+      () => new XmlDocument(repeated, { maxEntityExpansions: 10 }),
+      /Entity expansion limit exceeded \(10\)/,
+    );
+
+    // A large entity repeated a few times, rather than nested
+    const large = `<!DOCTYPE a [<!ENTITY x "${"x".repeat(100000)}">]>`;
+    assert.throws(
+      () => new XmlDocument(`${large}<a>${"&x;".repeat(20)}</a>`),
+      (error) =>
+        error instanceof XmlParseError &&
+        error.code === "entity-expansion-limit" &&
+        error.reason === "Entity expansion limit exceeded (1000000 characters)",
+    );
+    assert.strictEqual(
+      new XmlDocument(`${large}<a>&x;&x;</a>`, {
+        maxEntityExpansionLength: 200000,
+      }).val.length,
+      200000,
+    );
+  });
+
+  test("expands entities in XmlStreamReader", async () => {
+    const names: string[] = [];
+    for await (const product of new XmlStreamReader([catalog], "product")) {
+      names.push(`${product.attr.status}: ${product.val}`);
+    }
+    assert.deepStrictEqual(names, ["live: © Acme & Sons 2024", "draft: "]);
+  });
+});
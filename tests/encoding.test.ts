@@ -0,0 +1,152 @@
+import { describe, test } from "node:test";
+import assert from "node:assert";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Readable } from "node:stream";
+import { pathToFileURL } from "node:url";
+import { XmlDocument } from "xmldoc";
+
+const text = '<café nom="été">Grüße ☃</café>';
+
+function utf16(s: string, bigEndian: boolean): Uint8Array {
+  const bytes = new Uint8Array(s.length * 2);
+  for (let i = 0; i < s.length; i++) {
+    const code = s.charCodeAt(i);
+    bytes[i * 2 + (bigEndian ? 1 : 0)] = code & 0xff;
+    bytes[i * 2 + (bigEndian ? 0 : 1)] = code >> 8;
+  }
+  return bytes;
+}
+
+function withBom(bom: number[], bytes: Uint8Array): Uint8Array {
+  return new Uint8Array([...bom, ...bytes]);
+}
+
+describe("fromBuffer", () => {
+  test("decodes UTF-8 by default and skips its byte order mark", async () => {
+    const bytes = Buffer.from(text, "utf-8");
+    for (const input of [bytes, withBom([0xef, 0xbb, 0xbf], bytes)]) {
+      const doc = await XmlDocument.fromBuffer(input);
+      assert.strictEqual(doc.name, "café");
+      assert.strictEqual(doc.attr.nom, "été");
+      assert.strictEqual(doc.val, "Grüße ☃");
+    }
+  });
+
+  test("decodes UTF-16 with or without a byte order mark", async () => {
+    const xml = `<?xml version="1.0" encoding="UTF-16"?>${text}`;
+    for (const bytes of [
+      withBom([0xff, 0xfe], utf16(xml, false)),
+      withBom([0xfe, 0xff], utf16(xml, true)),
+      utf16(xml, false),
+      utf16(xml, true),
+    ]) {
+      const doc = await XmlDocument.fromBuffer(bytes);
+      assert.strictEqual(doc.val, "Grüße ☃");
+      assert.strictEqual(doc.declaration?.encoding, "UTF-16");
+    }
+  });
+
+  test("uses the encoding in the XML declaration", async () => {
+    const xml = `<?xml version="1.0" encoding='ISO-8859-1'?><a b="é">ü</a>`;
+    const doc = await XmlDocument.fromBuffer(Buffer.from(xml, "latin1"));
+    assert.strictEqual(doc.attr.b, "é");
+    assert.strictEqual(doc.val, "ü");
+
+    // The same bytes read as UTF-8 would not decode
+    const forced = await XmlDocument.fromBuffer(Buffer.from(xml, "latin1"), {
+      encoding: "utf-8",
+    });
+    assert.strictEqual(forced.val, "�");
+  });
+
+  test("accepts ArrayBuffers and parsing options", async () => {
+    const bytes = new TextEncoder().encode("<a>\n  <b/>\n</a>");
+    const doc = await XmlDocument.fromBuffer(bytes.buffer, {
+      preserveFormatting: true,
+    });
+    assert.strictEqual(doc.toString(), "<a>\n  <b/>\n</a>");
+  });
+
+  test("parses large documents in slices", async () => {
+    const items = Array.from({ length: 20000 }, (_, i) => `<i n="${i}"/>`);
+    const bytes = Buffer.from(`<list>${items.join("")}</list>`);
+
+    // Timers get to run while the document is parsed
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 0);
+    const doc = await XmlDocument.fromBuffer(bytes);
+    clearInterval(timer);
+
+    assert.strictEqual(doc.children.length, 20000);
+    assert.strictEqual(doc.lastChild!.toString(), '<i n="19999"/>');
+    assert.ok(ticks > 0);
+  });
+
+  test("rejects unsupported encodings and invalid XML", async () => {
+    await assert.rejects(
+      XmlDocument.fromBuffer(
+        Buffer.from('<?xml version="1.0" encoding="x-nope"?><a/>'),
+      ),
+      /Unsupported encoding "x-nope"/,
+    );
+    await assert.rejects(XmlDocument.fromBuffer(Buffer.from("<a><b></a>")), {
+      name: "XmlParseError",
+    });
+    await assert.rejects(
+      XmlDocument.fromBuffer(new Uint8Array()),
+      /No XML to parse/,
+    );
+  });
+});
+
+describe("fromFile and fromStream", () => {
+  test("reads files by path or file: URL", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "xmldoc-"));
+    try {
+      const path = join(dir, "doc.xml");
+      writeFileSync(path, withBom([0xff, 0xfe], utf16(text, false)));
+
+      assert.strictEqual((await XmlDocument.fromFile(path)).val, "Grüße ☃");
+      assert.strictEqual(
+        (await XmlDocument.fromFile(pathToFileURL(path))).attr.nom,
+        "été",
+      );
+      await assert.rejects(XmlDocument.fromFile(join(dir, "missing.xml")), {
+        code: "ENOENT",
+      });
+    } finally {
+      rmSync(dir, { recursive: true });
+    }
+  });
+
+  test("reads Node.js and web streams of bytes or strings", async () => {
+    const bytes = Buffer.from(
+      `<?xml version="1.0" encoding="ISO-8859-1"?><a>\xe9</a>`,
+      "latin1",
+    );
+    const chunks = [bytes.subarray(0, 10), bytes.subarray(10)];
+
+    const fromNode = await XmlDocument.fromStream(Readable.from(chunks));
+    assert.strictEqual(fromNode.val, "é");
+
+    const fromWeb = await XmlDocument.fromStream(
+      new ReadableStream({
+        start(controller) {
+          for (const chunk of chunks) controller.enqueue(chunk);
+          controller.close();
+        },
+      }),
+    );
+    assert.strictEqual(fromWeb.val, "é");
+
+    const fromStrings = await XmlDocument.fromStream(["<a>", "text</a>"]);
+    assert.strictEqual(fromStrings.val, "text");
+
+    await assert.rejects(
+      XmlDocument.fromStream(["<a>", Buffer.from("</a>")]),
+      /either strings or bytes/,
+    );
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, test } from "node:test";
+import assert from "node:assert";
+import { XmlDocument, XmlParseError, XmlStreamReader } from "xmldoc";
+
+function parseError(xml: string, options?: { xmlns?: boolean }) {
+  try {
+    new XmlDocument(xml, options);
+  } catch (error) {
+    assert.ok(error instanceof XmlParseError);
+    return error;
+  }
+  assert.fail("Expected a parse error");
+}
+
+describe("XmlParseError", () => {
+  test("reports where the problem is", () => {
+    const error = parseError("<config>\n  <server port=8080/>\n</config>");
+    assert.strictEqual(error.name, "XmlParseError");
+    assert.strictEqual(error.reason, "Unquoted attribute value");
+    assert.strictEqual(error.code, "invalid-attribute");
+    assert.strictEqual(error.line, 1);
+    assert.strictEqual(error.column, 15);
+    assert.strictEqual(error.position, 24);
+    assert.match(error.message, /^Unquoted attribute value\nLine: 1/);
+  });
+
+  test("counts whitespace around the document", () => {
+    const error = parseError("  \n\n  <a><b></a>");
+    assert.strictEqual(error.line, 2);
+    assert.strictEqual(error.column, 11);
+    assert.strictEqual(error.position, 15);
+    assert.strictEqual(
+      error.codeFrame(0),
+      "> 3 |   <a><b></a>\n    |            ^",
+    );
+  });
+
+  test("classifies common problems", () => {
+    const cases: [string, string][] = [
+      ["<a><b></a>", "mismatched-close-tag"],
+      ["<a><b>", "unclosed-tag"],
+      ["<a>&#xZZ;</a>", "invalid-entity"],
+      ['<a x="1"y="2"/>', "invalid-attribute"],
+      ["<a/>text", "text-outside-root"],
+      ["<a><!DOCTYPE a></a>", "invalid-doctype"],
+      ["<a>1 < 2</a>", "invalid-character"],
+    ];
+
+    for (const [xml, code] of cases) {
+      assert.strictEqual(parseError(xml).code, code, xml);
+    }
+
+    assert.strictEqual(
+      parseError("<a:root/>", { xmlns: true }).code,
+      "unbound-prefix",
+    );
+  });
+
+  test("captures the open tags", () => {
+    const error = parseError("<a><b><c></b></a>");
+    assert.deepStrictEqual(error.tagStack, ["a", "b", "c"]);
+  });
+
+  test("renders a code frame", () => {
+    const error = parseError(
+      "<config>\n  <server>\n\t\t<port>80</prot>\n  </server>\n</config>",
+    );
+    assert.strictEqual(
+      error.codeFrame(),
+      [
+        "  1 | <config>",
+        "  2 |   <server>",
+        "> 3 | \t\t<port>80</prot>",
+        "    | \t\t              ^",
+        "  4 |   </server>",
+        "  5 | </config>",
+      ].join("\n"),
+    );
+    assert.strictEqual(
+      error.codeFrame(0),
+      "> 3 | \t\t<port>80</prot>\n    | \t\t              ^",
+    );
+  });
+
+  test("is thrown by XmlStreamReader without a code frame", async () => {
+    await assert.rejects(
+      async () => {
+        for await (const _ of new XmlStreamReader(["<r><e></r>"], "e"));
+      },
+      (error) => {
+        assert.ok(error instanceof XmlParseError);
+        assert.strictEqual(error.code, "mismatched-close-tag");
+        assert.strictEqual(error.codeFrame(), "");
+        return true;
+      },
+    );
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, test } from "node:test";
+import assert from "node:assert";
+import {
+  XmlDocument,
+  XmlExtractError,
+  attr,
+  extract,
+  many,
+  one,
+  text,
+} from "xmldoc";
+
+const book = `<book id="42" available="true">
+  <title>Dune</title>
+  <price>9.99</price>
+  <author><name>Frank Herbert</name><born>1920</born></author>
+  <tag>classic</tag>
+  <tag>sci-fi</tag>
+  <edition year="1965"/>
+  <edition year="2005"/>
+</book>`;
+
+function extractError(run: () => unknown): XmlExtractError {
+  try {
+    run();
+  } catch (error) {
+    assert.ok(error instanceof XmlExtractError);
+    return error;
+  }
+  assert.fail("Expected an extract error");
+}
+
+describe("extract", () => {
+  test("extracts typed values", () => {
+    const result = extract(new XmlDocument(book), {
+      id: attr("id").int(),
+      available: attr("available").boolean(),
+      title: text("title"),
+      price: text("price").number(),
+      author: one("author", { name: text("name"), born: text("born").int() }),
+      tags: many("tag").text(),
+      years: many("edition", attr("year").int()),
+      editions: many("edition", { year: attr("year") }),
+    });
+
+    // The result type is inferred from the schema
+    const id: number = result.id;
+    const tags: string[] = result.tags;
+    const born: number = result.author.born;
+
+    assert.strictEqual(id, 42);
+    assert.strictEqual(result.available, true);
+    assert.strictEqual(result.title, "Dune");
+    assert.strictEqual(result.price, 9.99);
+    assert.strictEqual(born, 1920);
+    assert.deepStrictEqual(tags, ["classic", "sci-fi"]);
+    assert.deepStrictEqual(result.years, [1965, 2005]);
+    assert.deepStrictEqual(result.editions, [
+      { year: "1965" },
+      { year: "2005" },
+    ]);
+  });
+
+  test("handles missing values", () => {
+    const result = extract(new XmlDocument(book), {
+      subtitle: text("subtitle").optional(),
+      language: attr("lang").default("en"),
+      pages: text("pages").int().default(0),
+      reviews: many("reviews.review").text(),
+    });
+
+    const subtitle: string | undefined = result.subtitle;
+    assert.strictEqual(subtitle, undefined);
+    assert.strictEqual(result.language, "en");
+    assert.strictEqual(result.pages, 0);
+    assert.deepStrictEqual(result.reviews, []);
+  });
+
+  test("converts values with map()", () => {
+    const result = extract(new XmlDocument(book), {
+      title: text("title").map((title) => title.toUpperCase()),
+    });
+    assert.strictEqual(result.title, "DUNE");
+  });
+
+  test("reports every problem with its location", () => {
+    const error = extractError(() =>
+      extract(new XmlDocument(book), {
+        isbn: attr("isbn"),
+        title: text("title").int(),
+        author: one("author", { name: text("fullName") }),
+        years: many("edition", attr("year").boolean()),
+        publisher: one("publisher", {}),
+      }),
+    );
+
+    assert.deepStrictEqual(
+      error.issues.map(({ path, message, line }) => ({ path, message, line })),
+      [
+        { path: "isbn", message: 'Missing attribute "isbn"', line: 0 },
+        {
+          path: "title",
+          message: 'Expected an integer but found "Dune"',
+          line: 1,
+        },
+        {
+          path: "author.name",
+          message: 'Missing element "fullName"',
+          line: 3,
+        },
+        {
+          path: "years[0]",
+          message: 'Expected a boolean but found "1965"',
+          line: 6,
+        },
+        {
+          path: "years[1]",
+          message: 'Expected a boolean but found "2005"',
+          line: 7,
+        },
+        {
+          path: "publisher",
+          message: 'Missing element "publisher"',
+          line: 0,
+        },
+      ],
+    );
+    assert.match(error.message, /^Could not extract values \(6 problems\):/);
+    assert.match(error.message, /isbn: Missing attribute "isbn" \(line 0,/);
+  });
+
+  test("reports errors thrown by map()", () => {
+    const error = extractError(() =>
+      extract(new XmlDocument(book), {
+        title: text("title").map(() => {
+          throw new Error("Not allowed");
+        }),
+      }),
+    );
+    assert.deepStrictEqual(error.issues[0].message, "Not allowed");
+  });
+});
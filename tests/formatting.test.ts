@@ -0,0 +1,106 @@
+import { describe, test } from "node:test";
+import assert from "node:assert";
+import { XmlDocument, XmlElement, XmlTextNode } from "xmldoc";
+
+const config = `﻿<?xml version='1.0' encoding="utf-8" ?>
+<!-- app settings -->
+<!DOCTYPE config [
+  <!ELEMENT config ANY>
+]>
+
+<config   version = '2'>
+\t<server host="example.com"  port='8080' />
+\t<name>Tom &amp; Jerry&#x27;s &apos;place&apos;</name>
+\t<empty></empty>
+\t<?render   mode="fast" ?>
+\t<script><![CDATA[if (a < b) {}]]></script>
+</config >
+<!-- end -->
+`;
+
+const parse = (xml: string) =>
+  new XmlDocument(xml, { preserveFormatting: true });
+
+describe("preserveFormatting", () => {
+  test("writes an unmodified document back out byte for byte", () => {
+    assert.strictEqual(parse(config).toString(), config);
+
+    for (const xml of [
+      "<a/>",
+      '<a>\r\n  <b x="&lt;&#10;"/>\r\n</a>\r\n',
+      "  <a><!--x--><b>1</b>text</a>  ",
+    ]) {
+      assert.strictEqual(parse(xml).toString(), xml);
+    }
+  });
+
+  test("parses the same tree as the default mode", () => {
+    const doc = parse(config);
+    assert.strictEqual(doc.childNamed("name")?.val, "Tom & Jerry's 'place'");
+    assert.strictEqual(doc.attr.version, "2");
+    assert.strictEqual(doc.declaration?.encoding, "utf-8");
+  });
+
+  test("keeps edits to attributes minimal", () => {
+    const doc = parse(config);
+    const server = doc.childNamed("server")!;
+    server.setAttribute("port", "9090");
+    server.setAttribute("secure", "true");
+    server.removeAttribute("host");
+
+    assert.strictEqual(
+      server.toString(),
+      `<server  port='9090' secure="true" />`,
+    );
+  });
+
+  test("escapes changed values for their quote style", () => {
+    const doc = parse(`<a x='1' y="2"/>`);
+    doc.setAttribute("x", `it's "quoted"`);
+    doc.setAttribute("y", "a\nb");
+    assert.strictEqual(
+      doc.toString(),
+      `<a x='it&apos;s "quoted"' y="a&#10;b"/>`,
+    );
+  });
+
+  test("only rewrites changed text", () => {
+    const doc = parse(config);
+    doc.childNamed("name")!.setText("Tom & Jerry");
+
+    const lines = doc.toString().split("\n");
+    const original = config.split("\n");
+    const changed = lines.filter((line, i) => line !== original[i]);
+    assert.deepStrictEqual(changed, ["\t<name>Tom &amp; Jerry</name>"]);
+  });
+
+  test("keeps the empty element style", () => {
+    const doc = parse("<r><a></a><b/></r>");
+    doc.childNamed("b")!.appendChild(new XmlTextNode("x"));
+    assert.strictEqual(doc.toString(), "<r><a></a><b>x</b></r>");
+
+    doc.childNamed("b")!.setText("");
+    assert.strictEqual(doc.toString(), "<r><a></a><b/></r>");
+  });
+
+  test("writes new nodes compactly", () => {
+    const doc = parse("<r>\n  <a/>\n</r>");
+    const added = new XmlElement({ name: "b", attributes: { id: "1" } });
+    added.appendChild(new XmlTextNode("<new>"));
+    doc.insertAfter(added, doc.childNamed("a")!);
+    doc.childNamed("a")!.remove();
+
+    assert.strictEqual(
+      doc.toString(),
+      '<r>\n  <b id="1">&lt;new&gt;</b>\n</r>',
+    );
+  });
+
+  test("can still pretty-print", () => {
+    const doc = parse("<r>\n\n  <a  x='1'/>\n</r>\n");
+    assert.strictEqual(
+      doc.toString({ preserveFormatting: false }),
+      '<r>\n  \n  <a x="1"/>\n  \n</r>',
+    );
+  });
+});
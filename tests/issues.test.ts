@@ -6,8 +6,13 @@ test("parsing comments outside XML scope [#27]", () => {
   const xmlString = "<hello>world</hello>\n<!--Thank you for your business!-->";
   const parsed = new XmlDocument(xmlString);
 
-  // verify that the trailing comment is ignored (no sensible place to put it)
-  assert.strictEqual(parsed.toString(), "<hello>world</hello>");
+  // verify that the trailing comment is kept in the epilog, not the root
+  assert.strictEqual(parsed.children.length, 1);
+  assert.strictEqual(parsed.epilog.length, 1);
+  assert.strictEqual(
+    parsed.toString(),
+    "<hello>world</hello>\n<!--Thank you for your business!-->",
+  );
 });
 
 test("validating escaping of &lt; &gt; [#29]", () => {
@@ -0,0 +1,173 @@
+import { describe, test } from "node:test";
+import assert from "node:assert";
+import {
+  XmlCDataNode,
+  XmlCommentNode,
+  XmlDocument,
+  XmlElement,
+  XmlTextNode,
+} from "xmldoc";
+
+const element = (name: string, attributes: Record<string, string> = {}) =>
+  new XmlElement({ name, attributes });
+
+describe("Adding children", () => {
+  test("appendChild updates firstChild, lastChild and val", () => {
+    const doc = new XmlDocument("<greeting/>");
+    const hello = doc.appendChild(new XmlTextNode("Hello"));
+    assert.strictEqual(doc.firstChild, hello);
+    assert.strictEqual(doc.lastChild, hello);
+
+    const world = doc.appendChild(new XmlCDataNode(", world"));
+    assert.strictEqual(doc.firstChild, hello);
+    assert.strictEqual(doc.lastChild, world);
+    assert.strictEqual(doc.val, "Hello, world");
+    assert.strictEqual(
+      doc.toString({ compressed: true }),
+      "<greeting>Hello<![CDATA[, world]]></greeting>",
+    );
+  });
+
+  test("insertBefore and insertAfter position relative to a child", () => {
+    const doc = new XmlDocument("<list><b/><d/></list>");
+    const [b, d] = doc.childrenNamed("b").concat(doc.childrenNamed("d"));
+
+    doc.insertBefore(element("a"), b);
+    doc.insertAfter(element("c"), b);
+    doc.insertAfter(element("e"), d);
+    doc.insertBefore(element("f"), null);
+
+    assert.strictEqual(
+      doc.toString({ compressed: true }),
+      "<list><a/><b/><c/><d/><e/><f/></list>",
+    );
+    assert.strictEqual((doc.firstChild as XmlElement).name, "a");
+    assert.strictEqual((doc.lastChild as XmlElement).name, "f");
+  });
+
+  test("moves nodes that are already in a tree", () => {
+    const doc = new XmlDocument("<root><from><item/></from><to/></root>");
+    const item = doc.descendantWithPath("from.item")!;
+
+    doc.childNamed("to")!.appendChild(item);
+    assert.strictEqual(
+      doc.toString({ compressed: true }),
+      "<root><from/><to><item/></to></root>",
+    );
+    assert.strictEqual(doc.childNamed("from")!.firstChild, null);
+
+    // Moving within the same parent
+    const list = new XmlDocument("<list><a/><b/><c/></list>");
+    list.insertBefore(list.childNamed("a")!, list.childNamed("c")!);
+    assert.strictEqual(
+      list.toString({ compressed: true }),
+      "<list><b/><a/><c/></list>",
+    );
+  });
+
+  test("rejects bad references and cycles", () => {
+    const doc = new XmlDocument("<root><child/></root>");
+    const child = doc.childNamed("child")!;
+    assert.throws(
+      () => doc.insertBefore(element("x"), element("y")),
+      /not a child/,
+    );
+    assert.throws(() => child.appendChild(doc), /own subtree/);
+    assert.throws(() => child.appendChild(child), /own subtree/);
+  });
+});
+
+describe("Removing children", () => {
+  test("removeChild updates cached properties", () => {
+    const doc = new XmlDocument("<p>Hello <b>there</b> world</p>");
+    const [hello, bold, world] = doc.children;
+
+    assert.strictEqual(doc.removeChild(world), world);
+    assert.strictEqual(doc.lastChild, bold);
+    assert.strictEqual(doc.val, "Hello ");
+
+    doc.removeChild(hello);
+    assert.strictEqual(doc.firstChild, bold);
+    assert.strictEqual(doc.val, "");
+
+    assert.throws(() => doc.removeChild(hello), /not a child/);
+  });
+
+  test("remove detaches any kind of node", () => {
+    const doc = new XmlDocument("<p>text<!--note--><![CDATA[data]]><b/></p>");
+    const [text, comment, cdata, bold] = doc.children as [
+      XmlTextNode,
+      XmlCommentNode,
+      XmlCDataNode,
+      XmlElement,
+    ];
+
+    comment.remove();
+    cdata.remove();
+    bold.remove();
+    assert.deepStrictEqual(doc.children, [text]);
+    assert.strictEqual(doc.val, "text");
+
+    // Removing a detached node is harmless
+    bold.remove();
+    new XmlTextNode("loose").remove();
+  });
+});
+
+describe("Replacing nodes", () => {
+  test("replaceWith swaps a node for others", () => {
+    const doc = new XmlDocument("<list><a/><old/><z/></list>");
+    doc.childNamed("old")!.replaceWith(element("b"), element("c"));
+    assert.strictEqual(
+      doc.toString({ compressed: true }),
+      "<list><a/><b/><c/><z/></list>",
+    );
+  });
+
+  test("replaceWith can keep the node itself", () => {
+    const doc = new XmlDocument("<list><b/></list>");
+    const b = doc.childNamed("b")!;
+    b.replaceWith(element("a"), b, element("c"));
+    assert.strictEqual(
+      doc.toString({ compressed: true }),
+      "<list><a/><b/><c/></list>",
+    );
+  });
+
+  test("replaceWith works on text nodes", () => {
+    const doc = new XmlDocument("<p>old</p>");
+    (doc.firstChild as XmlTextNode).replaceWith(new XmlTextNode("new"));
+    assert.strictEqual(doc.val, "new");
+  });
+});
+
+describe("Attributes and text", () => {
+  test("setAttribute and removeAttribute edit attr", () => {
+    const doc = new XmlDocument('<book title="Dune" draft="yes"/>');
+    doc.setAttribute("title", "Dune Messiah");
+    doc.setAttribute("year", "1969");
+    doc.removeAttribute("draft");
+    doc.removeAttribute("missing");
+    assert.strictEqual(
+      doc.toString(),
+      '<book title="Dune Messiah" year="1969"/>',
+    );
+  });
+
+  test("setText replaces all children", () => {
+    const doc = new XmlDocument("<p>Hello <b>there</b><!--x--></p>");
+    const bold = doc.childNamed("b")!;
+
+    doc.setText("Goodbye & farewell");
+    assert.strictEqual(doc.val, "Goodbye & farewell");
+    assert.strictEqual(doc.children.length, 1);
+    assert.strictEqual(doc.firstChild, doc.lastChild);
+    assert.strictEqual(doc.toString(), "<p>Goodbye &amp; farewell</p>");
+
+    // The old children are detached and can be reused elsewhere
+    bold.remove();
+    doc.setText("");
+    assert.strictEqual(doc.firstChild, null);
+    assert.strictEqual(doc.toString(), "<p/>");
+  });
+});
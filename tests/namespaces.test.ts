@@ -0,0 +1,129 @@
+import { describe, test } from "node:test";
+import assert from "node:assert";
+import { XmlDocument, XmlElement } from "xmldoc";
+
+const SOAP = "http://schemas.xmlsoap.org/soap/envelope/";
+const STOCK = "urn:example:stock";
+
+const envelope = `
+<soap:Envelope xmlns:soap="${SOAP}" xmlns="urn:example:default">
+  <soap:Header/>
+  <soap:Body>
+    <m:GetPrice xmlns:m="${STOCK}" m:currency="USD" id="1">
+      <m:Item>Apples</m:Item>
+      <Note>plain</Note>
+      <Legacy xmlns="">none</Legacy>
+    </m:GetPrice>
+    <s:GetPrice xmlns:s="${STOCK}"><s:Item>Pears</s:Item></s:GetPrice>
+  </soap:Body>
+</soap:Envelope>`;
+
+describe("Namespace mode", () => {
+  const doc = new XmlDocument(envelope, { xmlns: true });
+  const body = doc.childNamed("soap:Body")!;
+  const price = body.childNamed("m:GetPrice")!;
+
+  test("resolves element names", () => {
+    assert.strictEqual(doc.name, "soap:Envelope");
+    assert.strictEqual(doc.localName, "Envelope");
+    assert.strictEqual(doc.prefix, "soap");
+    assert.strictEqual(doc.namespaceURI, SOAP);
+
+    assert.strictEqual(price.namespaceURI, STOCK);
+    assert.strictEqual(
+      price.childNamed("Note")?.namespaceURI,
+      "urn:example:default",
+    );
+    assert.strictEqual(price.childNamed("Note")?.prefix, null);
+    assert.strictEqual(price.childNamed("Legacy")?.namespaceURI, null);
+  });
+
+  test("keeps attributes as plain strings", () => {
+    assert.deepStrictEqual(price.attr, {
+      "xmlns:m": STOCK,
+      "m:currency": "USD",
+      id: "1",
+    });
+  });
+
+  test("looks up in-scope namespaces", () => {
+    assert.strictEqual(price.lookupNamespaceURI("m"), STOCK);
+    assert.strictEqual(price.lookupNamespaceURI("soap"), SOAP);
+    assert.strictEqual(price.lookupNamespaceURI(null), "urn:example:default");
+    assert.strictEqual(
+      price.lookupNamespaceURI("xml"),
+      "http://www.w3.org/XML/1998/namespace",
+    );
+    assert.strictEqual(doc.lookupNamespaceURI("m"), null);
+    assert.strictEqual(
+      price.childNamed("Legacy")?.lookupNamespaceURI(null),
+      null,
+    );
+
+    assert.strictEqual(price.lookupPrefix(STOCK), "m");
+    assert.strictEqual(price.lookupPrefix(SOAP), "soap");
+    assert.strictEqual(doc.lookupPrefix(STOCK), null);
+  });
+
+  test("matches elements by namespace URI regardless of prefix", () => {
+    const prices = doc.descendantsNamedNS({ uri: STOCK, local: "GetPrice" });
+    assert.strictEqual(prices.length, 2);
+    assert.deepStrictEqual(
+      prices.map((p) => p.childNamedNS({ uri: STOCK, local: "Item" })?.val),
+      ["Apples", "Pears"],
+    );
+    assert.strictEqual(
+      doc.childrenNamedNS({ uri: SOAP, local: "Body" })[0],
+      body,
+    );
+    assert.strictEqual(
+      doc.childNamedNS({ uri: STOCK, local: "Body" }),
+      undefined,
+    );
+    assert.strictEqual(
+      price.childNamedNS({ uri: "", local: "Legacy" })?.val,
+      "none",
+    );
+  });
+
+  test("resolves XPath name tests through namespace bindings", () => {
+    const namespaces = { s: SOAP, st: STOCK };
+    const items = doc.select<XmlElement>("s:Body/st:GetPrice/st:Item", {
+      namespaces,
+    });
+    assert.deepStrictEqual(
+      items.map((item) => item.val),
+      ["Apples", "Pears"],
+    );
+    assert.strictEqual(doc.select("//st:*", { namespaces }).length, 4);
+    assert.strictEqual(
+      doc.evaluate("namespace-uri(//st:GetPrice/@m:currency)", {
+        namespaces,
+      }),
+      STOCK,
+    );
+    assert.strictEqual(doc.evaluate("namespace-uri(//@id)"), "");
+  });
+
+  test("reports unbound prefixes", () => {
+    assert.throws(
+      () => new XmlDocument("<a:root/>", { xmlns: true }),
+      /Unbound namespace prefix/,
+    );
+  });
+});
+
+describe("Default mode", () => {
+  test("leaves namespaces unresolved", () => {
+    const doc = new XmlDocument(envelope);
+    assert.strictEqual(doc.localName, "Envelope");
+    assert.strictEqual(doc.namespaceURI, null);
+    assert.strictEqual(doc.namespaces, null);
+    assert.strictEqual(doc.lookupNamespaceURI("soap"), null);
+    assert.strictEqual(
+      doc.descendantsNamedNS({ uri: STOCK, local: "GetPrice" }).length,
+      0,
+    );
+    assert.doesNotThrow(() => new XmlDocument("<a:root/>"));
+  });
+});
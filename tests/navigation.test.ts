@@ -0,0 +1,111 @@
+import { describe, test } from "node:test";
+import assert from "node:assert";
+import { XmlDocument, XmlElement, XmlTextNode } from "xmldoc";
+import type { XmlNodeBase } from "xmldoc";
+
+const xml =
+  "<library><shelf id='a'><book id='1'>One<!--c--></book><book id='2'/></shelf><shelf id='b'/></library>";
+
+describe("Parsed trees", () => {
+  const doc = new XmlDocument(xml);
+  const [shelfA, shelfB] = doc.childrenNamed("shelf");
+  const [book1, book2] = shelfA.childrenNamed("book");
+  const [text, comment] = book1.children;
+
+  test("link every node to its parent", () => {
+    assert.strictEqual(doc.parent, null);
+    assert.strictEqual(shelfA.parent, doc);
+    assert.strictEqual(book1.parent, shelfA);
+    assert.strictEqual(text.parent, book1);
+    assert.strictEqual(comment.parent, book1);
+  });
+
+  test("link siblings", () => {
+    assert.strictEqual(shelfA.previousSibling, null);
+    assert.strictEqual(shelfA.nextSibling, shelfB);
+    assert.strictEqual(shelfB.previousSibling, shelfA);
+    assert.strictEqual(shelfB.nextSibling, null);
+    assert.strictEqual(book1.nextSibling, book2);
+    assert.strictEqual(text.nextSibling, comment);
+    assert.strictEqual(comment.previousSibling, text);
+  });
+
+  test("know their owner document", () => {
+    assert.strictEqual(doc.ownerDocument, doc);
+    assert.strictEqual(book2.ownerDocument, doc);
+    assert.strictEqual(comment.ownerDocument, doc);
+  });
+
+  test("list ancestors nearest first", () => {
+    assert.deepStrictEqual(text.ancestors(), [book1, shelfA, doc]);
+    assert.deepStrictEqual(doc.ancestors(), []);
+  });
+
+  test("find the closest element by name", () => {
+    assert.strictEqual(text.closest("shelf"), shelfA);
+    assert.strictEqual(book1.closest("book"), book1);
+    assert.strictEqual(book1.closest("library"), doc);
+    assert.strictEqual(book1.closest("magazine"), undefined);
+  });
+
+  test("can be walked with nextSibling", () => {
+    const names: string[] = [];
+    for (
+      let node: XmlNodeBase | null = shelfA.firstChild;
+      node;
+      node = node.nextSibling
+    ) {
+      names.push((node as XmlElement).attr.id);
+    }
+    assert.deepStrictEqual(names, ["1", "2"]);
+  });
+});
+
+describe("Edited trees", () => {
+  test("keep links up to date when inserting and removing", () => {
+    const doc = new XmlDocument("<list><a/><c/></list>");
+    const [a, c] = doc.children as XmlElement[];
+    const b = doc.insertAfter(new XmlElement({ name: "b", attributes: {} }), a);
+
+    assert.strictEqual(b.parent, doc);
+    assert.strictEqual(a.nextSibling, b);
+    assert.strictEqual(b.previousSibling, a);
+    assert.strictEqual(b.nextSibling, c);
+    assert.strictEqual(c.previousSibling, b);
+
+    b.remove();
+    assert.strictEqual(b.parent, null);
+    assert.strictEqual(b.previousSibling, null);
+    assert.strictEqual(b.nextSibling, null);
+    assert.strictEqual(b.ownerDocument, null);
+    assert.strictEqual(a.nextSibling, c);
+    assert.strictEqual(c.previousSibling, a);
+  });
+
+  test("relink moved subtrees", () => {
+    const source = new XmlDocument("<from><item><leaf/></item></from>");
+    const target = new XmlDocument("<to><first/></to>");
+    const item = source.childNamed("item")!;
+    const leaf = item.childNamed("leaf")!;
+
+    target.appendChild(item);
+    assert.strictEqual(item.parent, target);
+    assert.strictEqual(item.previousSibling, target.childNamed("first"));
+    assert.strictEqual(leaf.ownerDocument, target);
+    assert.deepStrictEqual(leaf.ancestors(), [item, target]);
+    assert.strictEqual(source.firstChild, null);
+  });
+
+  test("link nodes created by setText and replaceWith", () => {
+    const doc = new XmlDocument("<p><old/></p>");
+    const old = doc.firstChild as XmlElement;
+    const text = new XmlTextNode("new");
+    old.replaceWith(text);
+    assert.strictEqual(text.parent, doc);
+    assert.strictEqual(old.parent, null);
+
+    doc.setText("newer");
+    assert.strictEqual(text.parent, null);
+    assert.strictEqual(doc.firstChild?.parent, doc);
+  });
+});
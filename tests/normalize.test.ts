@@ -0,0 +1,99 @@
+import { describe, test } from "node:test";
+import assert from "node:assert";
+import { XmlDocument, XmlElement, XmlTextNode } from "xmldoc";
+
+const messy = `<a>
+  <!-- note -->
+  <b>x<![CDATA[<y>]]>z</b>
+</a>`;
+
+describe("normalize", () => {
+  test("merges adjacent text nodes", () => {
+    const doc = new XmlDocument("<a>one</a>");
+    const first = doc.firstChild;
+    doc.appendChild(new XmlTextNode(" two"));
+    doc.appendChild(new XmlTextNode(""));
+    doc.appendChild(new XmlElement({ name: "b", attributes: {} }));
+    doc.appendChild(new XmlTextNode("three"));
+    assert.strictEqual(doc.children.length, 5);
+
+    doc.normalize();
+    assert.strictEqual(doc.children.length, 3);
+    assert.strictEqual((doc.firstChild as XmlTextNode).text, "one two");
+    assert.notStrictEqual(doc.firstChild, first);
+    assert.strictEqual(first!.parent, null);
+    assert.strictEqual(doc.lastChild!.previousSibling, doc.childNamed("b"));
+    assert.strictEqual(doc.val, "one twothree");
+
+    // Text that doesn't change keeps its node
+    const last = doc.lastChild;
+    doc.normalize();
+    assert.strictEqual(doc.lastChild, last);
+  });
+
+  test("keeps comments, CDATA and whitespace by default", () => {
+    const doc = new XmlDocument(messy);
+    doc.normalize();
+    assert.deepStrictEqual(
+      doc.children.map((child) => child.type),
+      ["text", "comment", "text", "element", "text"],
+    );
+    assert.deepStrictEqual(
+      doc.childNamed("b")!.children.map((child) => child.type),
+      ["text", "cdata", "text"],
+    );
+  });
+
+  test("drops whitespace and comments and turns CDATA into text", () => {
+    const doc = new XmlDocument(messy);
+    doc.normalize({ whitespace: "drop", comments: false, cdata: false });
+
+    assert.strictEqual(doc.children.length, 1);
+    assert.strictEqual(doc.firstChild, doc.childNamed("b"));
+    assert.strictEqual(doc.toString(), "<a>\n  <b>x&lt;y&gt;z</b>\n</a>");
+  });
+
+  test("normalizes runs of whitespace", () => {
+    const doc = new XmlDocument("<a>one \n\t two<b>  </b></a>");
+    doc.normalize({ whitespace: "normalize" });
+    assert.strictEqual((doc.firstChild as XmlTextNode).text, "one two");
+    assert.strictEqual(
+      (doc.childNamed("b")!.firstChild as XmlTextNode).text,
+      " ",
+    );
+  });
+});
+
+describe("isEqualNode", () => {
+  test("ignores attribute order", () => {
+    const a = new XmlDocument('<a x="1" y="2"><b/></a>');
+    assert.ok(a.isEqualNode(new XmlDocument('<a y="2" x="1"><b/></a>')));
+    assert.ok(!a.isEqualNode(new XmlDocument('<a y="2" x="2"><b/></a>')));
+    assert.ok(!a.isEqualNode(new XmlDocument('<a x="1"><b/></a>')));
+    assert.ok(!a.isEqualNode(new XmlDocument('<a x="1" y="2"><c/></a>')));
+    assert.ok(!a.isEqualNode(new XmlDocument('<a x="1" y="2"><b/>text</a>')));
+    assert.ok(!a.isEqualNode(null));
+    assert.ok(!a.isEqualNode(new XmlTextNode("a")));
+  });
+
+  test("compares content as if both elements were normalized", () => {
+    const a = new XmlDocument(messy);
+    const b = new XmlDocument("<a><b>x&lt;y&gt;z</b></a>");
+
+    assert.ok(!a.isEqualNode(b));
+    assert.ok(!a.isEqualNode(b, { whitespace: "drop", comments: false }));
+    assert.ok(
+      a.isEqualNode(b, { whitespace: "drop", comments: false, cdata: false }),
+    );
+
+    // Neither element changes
+    assert.strictEqual(a.children.length, 5);
+  });
+
+  test("compares text however it is split into nodes", () => {
+    const a = new XmlDocument("<a>one two</a>");
+    const b = new XmlDocument("<a>one</a>");
+    b.appendChild(new XmlTextNode(" two"));
+    assert.ok(a.isEqualNode(b));
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, test } from "node:test";
+import assert from "node:assert";
+import { XmlDocument, XmlStreamReader, XmlTextNode } from "xmldoc";
+
+describe("XmlDocumentOptions", () => {
+  test("parses leniently", () => {
+    const html = "<div class=main><p>One<br><p>Two & more</div>";
+    assert.throws(() => new XmlDocument(html));
+
+    const doc = new XmlDocument(html, { strict: false });
+    assert.strictEqual(doc.name, "DIV");
+    assert.strictEqual(doc.attr.CLASS, "main");
+
+    const lower = new XmlDocument(html, { strict: false, lowercase: true });
+    assert.strictEqual(lower.name, "div");
+    assert.strictEqual(lower.attr.class, "main");
+    assert.strictEqual(lower.childNamed("p")?.childNamed("br")?.name, "br");
+  });
+
+  test("lowercases names in strict mode", () => {
+    const doc = new XmlDocument('<Root ID="1"><Child/></Root>', {
+      lowercase: true,
+    });
+    assert.strictEqual(doc.name, "root");
+    assert.deepStrictEqual(doc.attr, { id: "1" });
+    assert.ok(doc.childNamed("child"));
+  });
+
+  test("handles whitespace-only text", () => {
+    const xml = "<a>\n  <b>x  \n y</b>\n  <c> </c>\n</a>";
+
+    const kept = new XmlDocument(xml);
+    assert.strictEqual(kept.children.length, 5);
+
+    const dropped = new XmlDocument(xml, { whitespace: "drop" });
+    assert.strictEqual(dropped.children.length, 2);
+    assert.strictEqual(dropped.childNamed("b")?.val, "x  \n y");
+    assert.strictEqual(dropped.childNamed("c")?.children.length, 0);
+
+    const normalized = new XmlDocument(xml, { whitespace: "normalize" });
+    assert.strictEqual(normalized.children.length, 5);
+    assert.strictEqual(normalized.childNamed("b")?.val, "x y");
+    assert.strictEqual(normalized.childNamed("c")?.val, " ");
+  });
+
+  test("normalizes attribute values", () => {
+    const xml = `<!DOCTYPE a [<!ATTLIST a ids IDREFS #IMPLIED>]>
+<a ids="  x\n  y " title="one\ttwo\nthree"/>`;
+
+    assert.strictEqual(new XmlDocument(xml).attr.title, "one\ttwo\nthree");
+
+    const doc = new XmlDocument(xml, { normalizeAttributes: true });
+    assert.strictEqual(doc.attr.title, "one two three");
+    assert.strictEqual(doc.attr.ids, "x y");
+  });
+
+  test("can skip recording positions", () => {
+    const doc = new XmlDocument("<a>\n<b/></a>", { positions: false });
+    for (const element of [doc, doc.childNamed("b")!]) {
+      assert.strictEqual(element.line, null);
+      assert.strictEqual(element.column, null);
+      assert.strictEqual(element.position, null);
+      assert.strictEqual(element.startTagPosition, null);
+    }
+  });
+
+  test("can drop comments and merge CDATA into text", () => {
+    const xml = "<!-- top --><a>x<!-- note --><![CDATA[<y>]]>z</a>";
+
+    const doc = new XmlDocument(xml, { comments: false, cdata: false });
+    assert.strictEqual(doc.prolog.length, 0);
+    assert.strictEqual(doc.children.length, 1);
+    assert.ok(doc.firstChild instanceof XmlTextNode);
+    assert.strictEqual(doc.val, "x<y>z");
+    assert.strictEqual(doc.toString(), "<a>x&lt;y&gt;z</a>");
+
+    // Text around a dropped comment is merged too, while CDATA is kept
+    const commentless = new XmlDocument(xml, { comments: false });
+    assert.deepStrictEqual(
+      commentless.children.map((child) => child.type),
+      ["text", "cdata", "text"],
+    );
+    assert.strictEqual(
+      new XmlDocument("<a>x<!--c-->y<!--d-->z</a>", { comments: false })
+        .children.length,
+      1,
+    );
+
+    const preserved = new XmlDocument(xml, {
+      cdata: false,
+      preserveFormatting: true,
+    });
+    assert.strictEqual(
+      preserved.toString(),
+      "<!-- top --><a>x<!-- note -->&lt;y&gt;z</a>",
+    );
+  });
+
+  test("rejects preserveFormatting with lenient parsing", () => {
+    assert.throws(
+      () =>
+        new XmlDocument("<a/>", { preserveFormatting: true, strict: false }),
+      /preserveFormatting/,
+    );
+  });
+
+  test("applies to XmlStreamReader", async () => {
+    const values: string[] = [];
+    const reader = new XmlStreamReader(
+      ["<LIST><ITEM>a<!--x--><![CDATA[b]]></ITEM></LIST>"],
+      "item",
+      { lowercase: true, comments: false, cdata: false },
+    );
+    for await (const item of reader) {
+      values.push(`${item.children.length}:${item.val}`);
+    }
+    assert.deepStrictEqual(values, ["1:ab"]);
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, test } from "node:test";
 import assert from "node:assert";
-import { XmlDocument } from "xmldoc";
+import { XmlDocument, XmlElement, XmlStreamReader } from "xmldoc";
 
 describe("Parser Handling", () => {
   test("Position information properties exist", () => {
@@ -90,4 +90,16 @@ describe("Parser Handling", () => {
     // @ts-expect-error
     assert.strictEqual(level2?.parser, undefined);
   });
+
+  test("Elements created during a parse don't take its positions", async () => {
+    for await (const item of new XmlStreamReader(
+      ["<list>\n  <item/>\n</list>"],
+      "item",
+    )) {
+      assert.strictEqual(item.line, 1);
+      const created = new XmlElement({ name: "created", attributes: {} });
+      assert.strictEqual(created.line, null);
+      assert.strictEqual(created.position, null);
+    }
+  });
 });
@@ -0,0 +1,80 @@
+import { describe, test } from "node:test";
+import assert from "node:assert";
+import { XmlDocument } from "xmldoc";
+
+describe("toString options", () => {
+  const xml = '<root b="2" a="1"><child id="x"><leaf/></child><empty/></root>';
+
+  test("sets the indentation and line ending", () => {
+    const doc = new XmlDocument(xml);
+    assert.strictEqual(
+      doc.toString({ indent: "\t", newline: "\r\n" }),
+      '<root b="2" a="1">\r\n\t<child id="x">\r\n\t\t<leaf/>\r\n\t</child>\r\n\t<empty/>\r\n</root>',
+    );
+    assert.strictEqual(
+      doc.toString({ indent: 4 }),
+      '<root b="2" a="1">\n    <child id="x">\n        <leaf/>\n    </child>\n    <empty/>\n</root>',
+    );
+  });
+
+  test("sorts attributes and sets their quotes", () => {
+    const doc = new XmlDocument(xml);
+    assert.strictEqual(
+      doc.toString({ compressed: true, sortAttributes: true, quote: "'" }),
+      "<root a='1' b='2'><child id='x'><leaf/></child><empty/></root>",
+    );
+  });
+
+  test("wraps attributes of long start tags", () => {
+    const doc = new XmlDocument(
+      '<root><item name="first" value="something long"/><short a="1"/></root>',
+    );
+    assert.strictEqual(
+      doc.toString({ maxWidth: 30 }),
+      [
+        "<root>",
+        "  <item",
+        '    name="first"',
+        '    value="something long"/>',
+        '  <short a="1"/>',
+        "</root>",
+      ].join("\n"),
+    );
+  });
+
+  test("writes empty elements in the chosen style", () => {
+    const doc = new XmlDocument("<root><br/><p/></root>");
+    assert.strictEqual(
+      doc.toString({ compressed: true, emptyElements: "spaced" }),
+      "<root><br /><p /></root>",
+    );
+    assert.strictEqual(
+      doc.toString({ compressed: true, emptyElements: "expanded" }),
+      "<root><br></br><p></p></root>",
+    );
+    assert.strictEqual(
+      doc.toString({ compressed: true, emptyElements: "spaced", html: true }),
+      "<root><br /><p></p></root>",
+    );
+  });
+
+  test("controls the XML declaration and trailing newline", () => {
+    const plain = new XmlDocument("<a/>");
+    assert.strictEqual(
+      plain.toString({ declaration: true, trailingNewline: true }),
+      '<?xml version="1.0" encoding="UTF-8"?>\n<a/>\n',
+    );
+
+    const declared = new XmlDocument('<?xml version="1.0"?><a/>');
+    assert.strictEqual(declared.toString(), '<?xml version="1.0"?>\n<a/>');
+    assert.strictEqual(declared.toString({ declaration: false }), "<a/>");
+
+    assert.strictEqual(
+      new XmlDocument("<a><b/></a>").childNamed("b")?.toString({
+        trailingNewline: true,
+        newline: "\r\n",
+      }),
+      "<b/>\r\n",
+    );
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, test } from "node:test";
+import assert from "node:assert";
+import {
+  XmlCommentNode,
+  XmlDocument,
+  XmlParseError,
+  XmlProcessingInstructionNode,
+} from "xmldoc";
+
+const feed = `<?xml version="1.0" encoding="UTF-8" standalone='yes'?>
+<?xml-stylesheet type="text/xsl" href="feed.xsl"?>
+<!-- generated -->
+<!DOCTYPE rss>
+<rss><channel><?render fast?><title>News</title></channel></rss>
+<!-- 12ms -->`;
+
+describe("prolog and epilog", () => {
+  test("parses the XML declaration", () => {
+    const doc = new XmlDocument(feed);
+    assert.deepStrictEqual(doc.declaration, {
+      version: "1.0",
+      encoding: "UTF-8",
+      standalone: true,
+    });
+
+    assert.strictEqual(new XmlDocument("<a/>").declaration, null);
+    assert.deepStrictEqual(
+      new XmlDocument('<?xml version="1.1"?><a/>').declaration,
+      { version: "1.1", encoding: null, standalone: null },
+    );
+  });
+
+  test("collects nodes before and after the root element", () => {
+    const doc = new XmlDocument(feed);
+    assert.strictEqual(doc.prolog.length, 2);
+
+    const stylesheet = doc.prolog[0] as XmlProcessingInstructionNode;
+    assert.ok(stylesheet instanceof XmlProcessingInstructionNode);
+    assert.strictEqual(stylesheet.target, "xml-stylesheet");
+    assert.strictEqual(stylesheet.data, 'type="text/xsl" href="feed.xsl"');
+    assert.strictEqual(
+      (doc.prolog[1] as XmlCommentNode).comment,
+      " generated ",
+    );
+
+    assert.strictEqual(doc.epilog.length, 1);
+    assert.strictEqual((doc.epilog[0] as XmlCommentNode).comment, " 12ms ");
+    assert.strictEqual(doc.children.length, 1);
+  });
+
+  test("rejects a second root element", () => {
+    assert.throws(
+      () => new XmlDocument("<a/><!-- between --><b/>"),
+      (error: unknown) =>
+        error instanceof XmlParseError &&
+        error.code === "multiple-roots" &&
+        error.reason === "Multiple root elements",
+    );
+  });
+
+  test("attaches the prolog and epilog to the document", () => {
+    const doc = new XmlDocument(feed);
+    const [stylesheet, generated] = doc.prolog;
+    assert.strictEqual(stylesheet.parent, doc);
+    assert.strictEqual(stylesheet.nextSibling, generated);
+    assert.strictEqual(generated.previousSibling, stylesheet);
+    assert.strictEqual(doc.epilog[0].ownerDocument, doc);
+
+    generated.replaceWith(new XmlCommentNode("replaced"));
+    doc.epilog[0].remove();
+    doc.insertBefore(new XmlCommentNode("first"), stylesheet);
+    assert.strictEqual(
+      doc.toString({ compressed: true, declaration: false }),
+      '<!--first--><?xml-stylesheet type="text/xsl" href="feed.xsl"?>' +
+        "<!--replaced--><!DOCTYPE rss>" +
+        "<rss><channel><?render fast?><title>News</title></channel></rss>",
+    );
+    assert.strictEqual(generated.parent, null);
+
+    // Moving a node into the root element takes it out of the prolog
+    doc.appendChild(stylesheet);
+    assert.strictEqual(doc.prolog.length, 2);
+    assert.strictEqual(doc.lastChild, stylesheet);
+    assert.throws(
+      () => doc.insertAfter(new XmlDocument("<b/>"), doc.prolog[0]),
+      /Only comments, processing instructions and whitespace/,
+    );
+  });
+
+  test("keeps processing instructions inside elements", () => {
+    const channel = new XmlDocument(feed).childNamed("channel")!;
+    const pi = channel.firstChild as XmlProcessingInstructionNode;
+    assert.strictEqual(pi.type, "processinginstruction");
+    assert.strictEqual(pi.target, "render");
+    assert.strictEqual(pi.parent, channel);
+    assert.strictEqual(channel.children.length, 2);
+  });
+
+  test("round-trips through toString", () => {
+    const doc = new XmlDocument(feed);
+    assert.strictEqual(
+      doc.toString({ compressed: true }),
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<?xml-stylesheet type="text/xsl" href="feed.xsl"?>' +
+        "<!--generated--><!DOCTYPE rss>" +
+        "<rss><channel><?render fast?><title>News</title></channel></rss>" +
+        "<!--12ms-->",
+    );
+
+    const reparsed = new XmlDocument(doc.toString());
+    assert.deepStrictEqual(reparsed.declaration, doc.declaration);
+    assert.strictEqual(reparsed.doctype, doc.doctype);
+    assert.strictEqual(reparsed.prolog.length, 2);
+    assert.strictEqual(reparsed.epilog.length, 1);
+  });
+
+  test("serializes the doctype in its original place", () => {
+    const doc = new XmlDocument("<!DOCTYPE a><!-- after --><a/>");
+    assert.strictEqual(doc.toString(), "<!DOCTYPE a>\n<!--after-->\n<a/>");
+  });
+
+  test("leaves the root element's own serialization alone", () => {
+    const doc = new XmlDocument(feed);
+    assert.ok(doc.toStringWithIndent("").startsWith("<rss>"));
+  });
+
+  test("selects processing instructions with XPath", () => {
+    const doc = new XmlDocument(feed);
+    assert.strictEqual(doc.select("//processing-instruction()").length, 1);
+    assert.strictEqual(
+      doc.select("//processing-instruction('render')").length,
+      1,
+    );
+    assert.strictEqual(doc.select("//processing-instruction('x')").length, 0);
+    assert.strictEqual(
+      doc.evaluate("name(channel/processing-instruction())"),
+      "render",
+    );
+  });
+
+  test("builds processing instructions", () => {
+    const xml = XmlDocument.create("a").ins("php", "echo 1;").end();
+    assert.strictEqual(xml, "<a><?php echo 1;?></a>");
+    assert.throws(() => XmlDocument.create("a").ins("xml"), /"xml"/);
+    assert.throws(() => XmlDocument.create("a").ins("x", "?>"), /"\?>"/);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, test } from "node:test";
+import assert from "node:assert";
+import { XmlDocument, XmlElement, XmlStreamReader } from "xmldoc";
+import type { XmlSourceRange } from "xmldoc";
+
+// Describes a range as the source it covers and where it starts and ends
+function span(source: string, range: XmlSourceRange | null | undefined) {
+  assert.ok(range);
+  const { start, end } = range;
+  return `${source.slice(start.offset, end.offset)} ${start.line}:${start.column}-${end.line}:${end.column}`;
+}
+
+describe("Source ranges", () => {
+  const xml = `<?xml version="1.0"?>
+<book id="1" lang = 'en'>
+  <title>Dune</title><!-- note -->
+  <cover/><![CDATA[<raw>]]>&amp;
+</book>`;
+
+  test("are recorded for elements and their tags", () => {
+    const doc = new XmlDocument(xml);
+    assert.strictEqual(
+      span(xml, doc.range),
+      `${xml.slice(xml.indexOf("<book"))} 1:0-4:7`,
+    );
+    assert.strictEqual(
+      span(xml, doc.range?.startTag),
+      `<book id="1" lang = 'en'> 1:0-1:25`,
+    );
+    assert.strictEqual(span(xml, doc.range?.endTag), "</book> 4:0-4:7");
+    assert.strictEqual(doc.range?.content?.start.offset, 47);
+    assert.strictEqual(doc.range?.content?.end.offset, xml.length - 7);
+
+    const title = doc.childNamed("title")!;
+    assert.strictEqual(span(xml, title.range), "<title>Dune</title> 2:2-2:21");
+    assert.strictEqual(span(xml, title.range?.content), "Dune 2:9-2:13");
+
+    // Empty element tags have no content or end tag
+    const cover = doc.childNamed("cover")!;
+    assert.strictEqual(span(xml, cover.range), "<cover/> 3:2-3:10");
+    assert.strictEqual(cover.range?.endTag, null);
+    assert.strictEqual(cover.range?.content, null);
+  });
+
+  test("are recorded for attribute names and values", () => {
+    const doc = new XmlDocument(xml);
+    assert.deepStrictEqual(Object.keys(doc.attrRanges!), ["id", "lang"]);
+    assert.strictEqual(span(xml, doc.attrRanges?.id.name), "id 1:6-1:8");
+    assert.strictEqual(span(xml, doc.attrRanges?.id.value), "1 1:10-1:11");
+    assert.strictEqual(span(xml, doc.attrRanges?.lang.name), "lang 1:13-1:17");
+    assert.strictEqual(span(xml, doc.attrRanges?.lang.value), "en 1:21-1:23");
+  });
+
+  test("are recorded for every other kind of node", () => {
+    const doc = new XmlDocument(xml);
+    const spans = doc.children.map((node) => span(xml, node.range));
+    assert.deepStrictEqual(spans.slice(1, 8), [
+      "<title>Dune</title> 2:2-2:21",
+      "<!-- note --> 2:21-2:34",
+      "\n   2:34-3:2",
+      "<cover/> 3:2-3:10",
+      "<![CDATA[<raw>]]> 3:10-3:27",
+      "&amp;\n 3:27-4:0",
+    ]);
+  });
+
+  test("refer to the source before whitespace is trimmed", () => {
+    const source = "\n\n  <a><b/></a>\n";
+    const doc = new XmlDocument(source);
+    assert.strictEqual(span(source, doc.range), "<a><b/></a> 2:2-2:13");
+    assert.strictEqual(span(source, doc.firstChild?.range), "<b/> 2:5-2:9");
+
+    // Element positions are measured the same way, at the end of the start tag
+    const b = doc.firstChild as XmlElement;
+    assert.deepStrictEqual(
+      [doc.line, doc.column, doc.position, doc.startTagPosition],
+      [2, 5, 7, 5],
+    );
+    assert.deepStrictEqual(
+      [b.line, b.column, b.position, b.startTagPosition],
+      [2, 9, 11, 8],
+    );
+
+    const preserved = new XmlDocument(source, { preserveFormatting: true });
+    assert.strictEqual(span(source, preserved.range), "<a><b/></a> 2:2-2:13");
+  });
+
+  test("cover CDATA merged into text", () => {
+    const source = "<a>x<![CDATA[y]]>z<b/></a>";
+    const doc = new XmlDocument(source, { cdata: false });
+    assert.strictEqual(
+      span(source, doc.firstChild?.range),
+      "x<![CDATA[y]]>z 0:3-0:18",
+    );
+  });
+
+  test("match attribute names in lenient mode", () => {
+    const source = "<div Class=main hidden>";
+    const doc = new XmlDocument(source, { strict: false, lowercase: true });
+    assert.strictEqual(
+      span(source, doc.attrRanges?.class.value),
+      "main 0:11-0:15",
+    );
+    assert.strictEqual(
+      span(source, doc.attrRanges?.hidden.name),
+      "hidden 0:16-0:22",
+    );
+  });
+
+  test("are null when not parsed from a string", async () => {
+    const doc = new XmlDocument("<a>text</a>", { positions: false });
+    assert.strictEqual(doc.range, null);
+    assert.strictEqual(doc.attrRanges, null);
+    assert.strictEqual(doc.firstChild?.range, null);
+
+    const created = new XmlElement({ name: "b", attributes: {} });
+    assert.strictEqual(created.range, null);
+
+    for await (const item of new XmlStreamReader(["<r><i/></r>"], "i")) {
+      assert.strictEqual(item.range, null);
+    }
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, test } from "node:test";
+import assert from "node:assert";
+import { XmlDocument, XmlElement } from "xmldoc";
+
+const library = new XmlDocument(`
+<library>
+  <shelf id="fiction" class="tall wide">
+    <book id="b1" lang="en-US" title="Dune"><author>Herbert</author></book>
+    <book id="b2" lang="fr" title="Vingt mille lieues"/>
+    <magazine id="m1" title="Duneland Monthly"/>
+    <book id="b3" lang="en" title="Neuromancer" hidden="true"/>
+  </shelf>
+  <shelf id="poetry" class="short">
+    <book id="b4" lang="EN" title="Leaves of Grass"/>
+    <!-- nothing else yet -->
+  </shelf>
+  <shelf id="empty"><!-- empty --></shelf>
+</library>`);
+
+const ids = (elements: XmlElement[]) => elements.map((e) => e.attr.id);
+
+describe("querySelectorAll", () => {
+  test("matches type selectors and the universal selector", () => {
+    assert.deepStrictEqual(ids(library.querySelectorAll("book")), [
+      "b1",
+      "b2",
+      "b3",
+      "b4",
+    ]);
+    assert.strictEqual(library.querySelectorAll("*").length, 9);
+    assert.deepStrictEqual(library.querySelectorAll("dvd"), []);
+  });
+
+  test("matches attribute selectors", () => {
+    const cases: [string, string[]][] = [
+      ["[hidden]", ["b3"]],
+      ["book[lang=fr]", ["b2"]],
+      ['[title^="Dune"]', ["b1", "m1"]],
+      ["[title$=Monthly]", ["m1"]],
+      ["[title*='mille']", ["b2"]],
+      ["shelf[class~=wide]", ["fiction"]],
+      ["book[lang|=en]", ["b1", "b3"]],
+      ["book[lang=en i]", ["b3", "b4"]],
+      ["#b2", ["b2"]],
+      ["shelf.short", ["poetry"]],
+    ];
+
+    for (const [selector, expected] of cases) {
+      assert.deepStrictEqual(
+        ids(library.querySelectorAll(selector)),
+        expected,
+        selector,
+      );
+    }
+  });
+
+  test("matches combinators", () => {
+    const cases: [string, string[]][] = [
+      ["library book", ["b1", "b2", "b3", "b4"]],
+      ["#poetry > book", ["b4"]],
+      ["book + magazine", ["m1"]],
+      ["book + book", ["b2"]],
+      ["magazine ~ book", ["b3"]],
+      ["shelf > book ~ book", ["b2", "b3"]],
+    ];
+
+    for (const [selector, expected] of cases) {
+      assert.deepStrictEqual(
+        ids(library.querySelectorAll(selector)),
+        expected,
+        selector,
+      );
+    }
+
+    assert.strictEqual(
+      library.querySelectorAll("library > shelf > book > author").length,
+      1,
+    );
+  });
+
+  test("matches structural pseudo-classes", () => {
+    const cases: [string, string[]][] = [
+      ["shelf > :first-child", ["b1", "b4"]],
+      ["shelf > :last-child", ["b3", "b4"]],
+      ["book:only-child", ["b4"]],
+      ["shelf:empty", ["empty"]],
+      ["#fiction > :nth-child(2)", ["b2"]],
+      ["#fiction > :nth-child(odd)", ["b1", "m1"]],
+      ["#fiction > :nth-child(2n)", ["b2", "b3"]],
+      ["#fiction > :nth-child(-n+2)", ["b1", "b2"]],
+      ["#fiction > :nth-last-child(1)", ["b3"]],
+    ];
+
+    for (const [selector, expected] of cases) {
+      assert.deepStrictEqual(
+        ids(library.querySelectorAll(selector)),
+        expected,
+        selector,
+      );
+    }
+  });
+
+  test("matches :not() and :has()", () => {
+    const cases: [string, string[]][] = [
+      ["book:not([hidden])", ["b1", "b2", "b4"]],
+      ["book:not([lang=fr], [hidden])", ["b1", "b4"]],
+      ["shelf:has(magazine)", ["fiction"]],
+      ["shelf:has(> book[lang=EN])", ["poetry"]],
+      ["book:has(+ magazine)", ["b2"]],
+      ["book:has(~ [hidden])", ["b1", "b2"]],
+      ["shelf:not(:has(book))", ["empty"]],
+    ];
+
+    for (const [selector, expected] of cases) {
+      assert.deepStrictEqual(
+        ids(library.querySelectorAll(selector)),
+        expected,
+        selector,
+      );
+    }
+  });
+
+  test("matches selector lists in document order", () => {
+    assert.deepStrictEqual(ids(library.querySelectorAll("magazine, #b1")), [
+      "b1",
+      "m1",
+    ]);
+  });
+
+  test("matches escaped names", () => {
+    const doc = new XmlDocument(
+      '<soap:Envelope><soap:Body><m:Price m:id="1"/></soap:Body></soap:Envelope>',
+    );
+    assert.strictEqual(
+      doc.querySelector("soap\\:Body > m\\:Price[m\\:id='1']")?.name,
+      "m:Price",
+    );
+  });
+
+  test("only returns descendants of the scope element", () => {
+    const poetry = library.querySelector("#poetry")!;
+    assert.deepStrictEqual(ids(poetry.querySelectorAll("book")), ["b4"]);
+    assert.deepStrictEqual(ids(poetry.querySelectorAll("shelf > book")), [
+      "b4",
+    ]);
+    // Like the DOM, the rest of the selector can match outside of the scope
+    assert.deepStrictEqual(ids(poetry.querySelectorAll("library book")), [
+      "b4",
+    ]);
+  });
+
+  test("rejects invalid selectors", () => {
+    for (const selector of ["", "book[", "book >", ":hover", ":nth-child(x)"]) {
+      assert.throws(() => library.querySelectorAll(selector), selector);
+    }
+  });
+});
+
+describe("querySelector", () => {
+  test("returns the first match or undefined", () => {
+    assert.strictEqual(library.querySelector("book")?.attr.id, "b1");
+    assert.strictEqual(library.querySelector("dvd"), undefined);
+  });
+
+  test("composes with valueWithPath and toString", () => {
+    const book = library.querySelector("book:has(author)")!;
+    assert.strictEqual(book.valueWithPath("author"), "Herbert");
+    assert.strictEqual(
+      book.toString({ compressed: true }),
+      '<book id="b1" lang="en-US" title="Dune"><author>Herbert</author></book>',
+    );
+  });
+});
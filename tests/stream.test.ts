@@ -0,0 +1,214 @@
+import { describe, test } from "node:test";
+import assert from "node:assert";
+import { Readable } from "node:stream";
+import { XmlDocument, XmlStreamReader } from "xmldoc";
+import type { XmlElement } from "xmldoc";
+
+const feed = `<?xml version="1.0"?>
+<feed>
+  <title>Example</title>
+  <entry id="1"><title>First</title></entry>
+  <archive>
+    <entry id="2"><title>Second</title></entry>
+  </archive>
+  <entry id="3"><title>Third</title><entry id="3.1"/></entry>
+</feed>`;
+
+// Splits a string into small chunks, deliberately cutting through tags
+function* chunked(xml: string, size = 7): Generator<string> {
+  for (let i = 0; i < xml.length; i += size) yield xml.slice(i, i + size);
+}
+
+async function collect(reader: XmlStreamReader): Promise<XmlElement[]> {
+  const elements: XmlElement[] = [];
+  for await (const element of reader) elements.push(element);
+  return elements;
+}
+
+describe("XmlStreamReader", () => {
+  test("yields elements matching a name", async () => {
+    const entries = await collect(new XmlStreamReader(chunked(feed), "entry"));
+    assert.deepStrictEqual(
+      entries.map((entry) => entry.attr.id),
+      ["1", "2", "3"],
+    );
+    assert.strictEqual(entries[0].valueWithPath("title"), "First");
+    // Nested matches stay part of their enclosing match's subtree
+    assert.strictEqual(entries[2].childNamed("entry")?.attr.id, "3.1");
+  });
+
+  test("yields elements matching a path", async () => {
+    const entries = await collect(
+      new XmlStreamReader(chunked(feed), "feed.entry"),
+    );
+    assert.deepStrictEqual(
+      entries.map((entry) => entry.attr.id),
+      ["1", "3"],
+    );
+
+    const titles = await collect(
+      new XmlStreamReader(chunked(feed), "archive.entry.title"),
+    );
+    assert.deepStrictEqual(
+      titles.map((title) => title.val),
+      ["Second"],
+    );
+  });
+
+  test("builds complete subtrees with positions", async () => {
+    const [entry] = await collect(new XmlStreamReader([feed], "entry"));
+    assert.strictEqual(
+      entry.toString({ compressed: true }),
+      '<entry id="1"><title>First</title></entry>',
+    );
+    assert.strictEqual(entry.line, 3);
+    assert.strictEqual(entry.childNamed("title")?.line, 3);
+  });
+
+  test("reads Node.js streams", async () => {
+    const entries = await collect(
+      new XmlStreamReader(Readable.from(chunked(feed)), "entry"),
+    );
+    assert.strictEqual(entries.length, 3);
+  });
+
+  test("reads web streams of bytes", async () => {
+    const bytes = new TextEncoder().encode(
+      "<list><i>naïve ☃</i><i>ok</i></list>",
+    );
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        // One byte at a time, splitting multi-byte characters
+        for (const byte of bytes) controller.enqueue(Uint8Array.of(byte));
+        controller.close();
+      },
+    });
+
+    const items = await collect(new XmlStreamReader(stream, "i"));
+    assert.deepStrictEqual(
+      items.map((item) => item.val),
+      ["naïve ☃", "ok"],
+    );
+  });
+
+  test("decodes other encodings", async () => {
+    const latin1 = Uint8Array.from(
+      [..."<a><b>caf\xe9</b></a>"].map((c) => c.charCodeAt(0)),
+    );
+    const [b] = await collect(
+      new XmlStreamReader([latin1], "b", { encoding: "latin1" }),
+    );
+    assert.strictEqual(b.val, "café");
+  });
+
+  test("yields each match as soon as it closes", async () => {
+    let consumed = 0;
+    async function* source() {
+      for (const chunk of ["<r><e>1</e>", "<e>2</e>", "</r>"]) {
+        consumed++;
+        yield chunk;
+      }
+    }
+
+    for await (const element of new XmlStreamReader(source(), "e")) {
+      assert.strictEqual(element.val, "1");
+      assert.strictEqual(consumed, 1);
+      break;
+    }
+  });
+
+  test("stops web streams when the consumer stops early", async () => {
+    let cancelled = false;
+    const stream = new ReadableStream<string>({
+      start(controller) {
+        controller.enqueue("<r><e/>");
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+
+    for await (const element of new XmlStreamReader(stream, "e")) {
+      assert.strictEqual(element.name, "e");
+      break;
+    }
+    assert.strictEqual(cancelled, true);
+  });
+
+  test("is unaffected by documents parsed between chunks", async () => {
+    const entries: XmlElement[] = [];
+    for await (const entry of new XmlStreamReader(chunked(feed, 3), "entry")) {
+      const other = new XmlDocument("<other><child/></other>");
+      assert.strictEqual(other.children.length, 1);
+      entries.push(entry);
+    }
+    assert.deepStrictEqual(
+      entries.map((entry) => entry.childNamed("title")?.val),
+      ["First", "Second", "Third"],
+    );
+  });
+
+  test("can be read interleaved with other readers", async () => {
+    const first = new XmlStreamReader(chunked(feed, 5), "entry");
+    const second = new XmlStreamReader(
+      chunked("<r><entry id='a'><x/></entry><entry id='b'/></r>", 4),
+      "entry",
+    );
+    const firstIterator = first[Symbol.asyncIterator]();
+    const secondIterator = second[Symbol.asyncIterator]();
+
+    const ids: string[] = [];
+    for (let done = 0; done < 2; ) {
+      done = 0;
+      for (const iterator of [firstIterator, secondIterator]) {
+        const result = await iterator.next();
+        if (result.done) done++;
+        else ids.push(result.value.attr.id);
+      }
+    }
+    assert.deepStrictEqual(ids, ["1", "a", "2", "b", "3"]);
+  });
+
+  test("can parse documents from inside the source", async () => {
+    // Each chunk is produced while the reader is midway through its document
+    function* source() {
+      for (const chunk of chunked(feed, 9)) {
+        const inner = new XmlDocument(`<entry id="inner"><x/></entry>`);
+        assert.strictEqual(inner.children.length, 1);
+        yield chunk;
+      }
+    }
+
+    const entries = await collect(new XmlStreamReader(source(), "entry"));
+    assert.deepStrictEqual(
+      entries.map((entry) => entry.attr.id),
+      ["1", "2", "3"],
+    );
+    assert.strictEqual(entries[2].children.length, 2);
+  });
+
+  test("resolves namespaces when asked", async () => {
+    const xml = '<r xmlns:a="urn:a"><a:e/><a:e/></r>';
+    const [e] = await collect(
+      new XmlStreamReader([xml], "a:e", { xmlns: true }),
+    );
+    assert.strictEqual(e.namespaceURI, "urn:a");
+  });
+
+  test("reports malformed input", async () => {
+    await assert.rejects(
+      collect(new XmlStreamReader(["<r><e></r>"], "e")),
+      /Unexpected close tag/,
+    );
+    await assert.rejects(
+      collect(new XmlStreamReader(["<r><e/>"], "e")),
+      /Unclosed root tag/,
+    );
+  });
+
+  test("can only be read once", async () => {
+    const reader = new XmlStreamReader(["<r/>"], "e");
+    await collect(reader);
+    await assert.rejects(collect(reader), /only be read once/);
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, test } from "node:test";
+import assert from "node:assert";
+import { XmlDocument, XmlElement, XmlTextNode } from "xmldoc";
+import type { XmlNodeBase } from "xmldoc";
+
+const xml =
+  "<root><a>1<b>2</b><!-- c --></a><d><![CDATA[3]]><?pi x?></d>4</root>";
+
+// A short label for each node: "<name>" for elements, the text of text
+// nodes, and the type of anything else
+function label(node: XmlNodeBase): string {
+  if (node instanceof XmlElement) return `<${node.name}>`;
+  if (node instanceof XmlTextNode) return node.text;
+  return node.type;
+}
+
+describe("walk", () => {
+  test("enters and leaves every node in document order", () => {
+    const doc = new XmlDocument(xml);
+    const events: string[] = [];
+
+    doc.walk({
+      enter: (node) => void events.push(`enter ${label(node)}`),
+      leave: (node) => void events.push(`leave ${label(node)}`),
+    });
+
+    assert.deepStrictEqual(events, [
+      "enter <root>",
+      "enter <a>",
+      "enter 1",
+      "leave 1",
+      "enter <b>",
+      "enter 2",
+      "leave 2",
+      "leave <b>",
+      "enter comment",
+      "leave comment",
+      "leave <a>",
+      "enter <d>",
+      "enter cdata",
+      "leave cdata",
+      "enter processinginstruction",
+      "leave processinginstruction",
+      "leave <d>",
+      "enter 4",
+      "leave 4",
+      "leave <root>",
+    ]);
+  });
+
+  test("calls callbacks by node type", () => {
+    const doc = new XmlDocument(xml);
+    const events: string[] = [];
+
+    doc.walk({
+      element: {
+        enter: (element) => void events.push(`enter ${element.name}`),
+        leave: (element) => void events.push(`leave ${element.name}`),
+      },
+      text: (text) => void events.push(text.text),
+      cdata: (cdata) => void events.push(cdata.cdata),
+      comment: (comment) => void events.push(comment.comment),
+      processinginstruction: (pi) => void events.push(pi.target),
+    });
+
+    assert.deepStrictEqual(events, [
+      "enter root",
+      "enter a",
+      "1",
+      "enter b",
+      "2",
+      "leave b",
+      " c ",
+      "leave a",
+      "enter d",
+      "3",
+      "pi",
+      "leave d",
+      "4",
+      "leave root",
+    ]);
+  });
+
+  test("skips subtrees and stops", () => {
+    const doc = new XmlDocument(xml);
+    const skipped: string[] = [];
+
+    doc.walk({
+      element: {
+        enter: (element) => {
+          skipped.push(`enter ${element.name}`);
+          if (element.name === "a") return "skip";
+        },
+        leave: (element) => void skipped.push(`leave ${element.name}`),
+      },
+    });
+    assert.deepStrictEqual(skipped, [
+      "enter root",
+      "enter a",
+      "leave a",
+      "enter d",
+      "leave d",
+      "leave root",
+    ]);
+
+    const stopped: string[] = [];
+    doc.walk({
+      enter: (node) => {
+        stopped.push(label(node));
+        if (node.type === "comment") return "stop";
+      },
+      leave: () => void stopped.push("leave"),
+    });
+    assert.deepStrictEqual(stopped, [
+      "<root>",
+      "<a>",
+      "1",
+      "leave",
+      "<b>",
+      "2",
+      "leave",
+      "leave",
+      "comment",
+    ]);
+  });
+
+  test("lets callbacks change the tree", () => {
+    const doc = new XmlDocument("<root><a/><b><c/></b><a/></root>");
+
+    doc.walk({
+      element: (element) => {
+        if (element.name === "a") element.remove();
+      },
+    });
+    assert.strictEqual(
+      doc.toString({ compressed: true }),
+      "<root><b><c/></b></root>",
+    );
+  });
+});
+
+describe("nodes and descendants", () => {
+  test("iterate depth-first by default", () => {
+    const doc = new XmlDocument(xml);
+
+    assert.deepStrictEqual([...doc.nodes()].map(label), [
+      "<a>",
+      "1",
+      "<b>",
+      "2",
+      "comment",
+      "<d>",
+      "cdata",
+      "processinginstruction",
+      "4",
+    ]);
+    assert.deepStrictEqual(
+      [...doc.descendants()].map((element) => element.name),
+      ["a", "b", "d"],
+    );
+  });
+
+  test("iterate breadth-first", () => {
+    const doc = new XmlDocument(xml);
+
+    assert.deepStrictEqual(
+      [...doc.nodes({ order: "breadth-first" })].map(label),
+      [
+        "<a>",
+        "<d>",
+        "4",
+        "1",
+        "<b>",
+        "comment",
+        "cdata",
+        "processinginstruction",
+        "2",
+      ],
+    );
+    assert.deepStrictEqual(
+      [...doc.descendants({ order: "breadth-first" })].map(
+        (element) => element.name,
+      ),
+      ["a", "d", "b"],
+    );
+  });
+});
+
+describe("Symbol.iterator", () => {
+  test("iterates over child nodes of every type", () => {
+    const doc = new XmlDocument(xml);
+
+    assert.deepStrictEqual([...doc], doc.children);
+    const names: string[] = [];
+    for (const child of doc.childNamed("d")!) names.push(child.type);
+    assert.deepStrictEqual(names, ["cdata", "processinginstruction"]);
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, test } from "node:test";
+import assert from "node:assert";
+import { Writable } from "node:stream";
+import { XmlDocument, XmlWriter } from "xmldoc";
+
+// A Node.js Writable that collects what's written, asking the writer to wait
+// after every chunk
+function collector(): { stream: Writable; chunks: string[] } {
+  const chunks: string[] = [];
+  const stream = new Writable({
+    highWaterMark: 1,
+    decodeStrings: false,
+    write(chunk, _encoding, callback) {
+      chunks.push(chunk);
+      setImmediate(callback);
+    },
+  });
+  return { stream, chunks };
+}
+
+function finished(stream: Writable): Promise<void> {
+  return new Promise((resolve) => stream.on("finish", resolve));
+}
+
+function largeDocument(): XmlDocument {
+  const items = Array.from(
+    { length: 2000 },
+    (_, i) => `<item id="${i}">Item &amp; "${i}"</item>`,
+  );
+  return new XmlDocument(
+    `<?xml version="1.0"?><!-- feed --><feed>${items.join("")}</feed>`,
+  );
+}
+
+describe("toChunks and writeTo", () => {
+  test("toChunks() yields the same text as toString()", () => {
+    const doc = largeDocument();
+    const chunks = [...doc.toChunks()];
+    assert.ok(chunks.length > 1);
+    assert.strictEqual(chunks.join(""), doc.toString());
+
+    const options = { compressed: true, trailingNewline: true };
+    assert.strictEqual(
+      [...doc.toChunks(options)].join(""),
+      doc.toString(options),
+    );
+  });
+
+  test("toChunks() works for small elements and preserved formatting", () => {
+    const doc = new XmlDocument("<root>\n  <a x='1'/>\n</root>", {
+      preserveFormatting: true,
+    });
+    assert.deepStrictEqual([...doc.toChunks()], [doc.toString()]);
+
+    const a = doc.childNamed("a")!;
+    assert.deepStrictEqual(
+      [...a.toChunks({ preserveFormatting: false })],
+      ['<a x="1"/>'],
+    );
+  });
+
+  test("writeTo() writes to a Node.js stream and ends it", async () => {
+    const doc = largeDocument();
+    const { stream, chunks } = collector();
+
+    // The stream has finished by the time writeTo() resolves, and none of
+    // the listeners waiting on it are left behind
+    await doc.writeTo(stream);
+    assert.ok(stream.writableFinished);
+    assert.ok(chunks.length > 1);
+    assert.strictEqual(chunks.join(""), doc.toString());
+    for (const event of ["drain", "finish", "error"]) {
+      assert.strictEqual(stream.listenerCount(event), 0);
+    }
+  });
+
+  test("writeTo() writes to a web WritableStream and closes it", async () => {
+    const doc = largeDocument();
+    const chunks: string[] = [];
+    let closed = false;
+    const stream = new WritableStream<string>({
+      write(chunk) {
+        chunks.push(chunk);
+      },
+      close() {
+        closed = true;
+      },
+    });
+
+    await doc.writeTo(stream, { compressed: true });
+    assert.ok(closed);
+    assert.strictEqual(chunks.join(""), doc.toString({ compressed: true }));
+  });
+
+  test("writeTo() waits for a function target and rejects with its errors", async () => {
+    const doc = largeDocument();
+    const chunks: string[] = [];
+    await doc.writeTo(async (chunk) => {
+      await new Promise((resolve) => setImmediate(resolve));
+      chunks.push(chunk);
+    });
+    assert.strictEqual(chunks.join(""), doc.toString());
+
+    await assert.rejects(
+      doc.writeTo(() => Promise.reject(new Error("Disk full"))),
+      /Disk full/,
+    );
+  });
+
+  test("writeTo() ignores a function target's other return values", async () => {
+    const doc = largeDocument();
+    const chunks: string[] = [];
+    await doc.writeTo((chunk) => chunks.push(chunk));
+    assert.strictEqual(chunks.join(""), doc.toString());
+  });
+});
+
+describe("XmlWriter", () => {
+  test("writes elements, attributes, text and other nodes", async () => {
+    const chunks: string[] = [];
+    const writer = new XmlWriter((chunk) => {
+      chunks.push(chunk);
+    });
+
+    writer
+      .declaration({ standalone: true })
+      .processingInstruction("xml-stylesheet", 'href="feed.css"')
+      .startElement("feed")
+      .attribute("title", 'Tom & "Jerry"')
+      .comment(" entries ")
+      .startElement("entry")
+      .attribute("id", 1)
+      .text("1 < 2")
+      .endElement()
+      .startElement("entry")
+      .attribute("id", 2)
+      .endElement()
+      .startElement("code")
+      .cdata("<b>")
+      .endElement();
+    await writer.end();
+
+    assert.strictEqual(
+      chunks.join(""),
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<?xml-stylesheet href="feed.css"?>' +
+        '<feed title="Tom &amp; &quot;Jerry&quot;"><!-- entries -->' +
+        '<entry id="1">1 &lt; 2</entry><entry id="2"/>' +
+        "<code><![CDATA[<b>]]></code></feed>",
+    );
+  });
+
+  test("writes existing nodes", async () => {
+    const chunks: string[] = [];
+    const writer = new XmlWriter((chunk) => {
+      chunks.push(chunk);
+    });
+    const doc = new XmlDocument("<root><a x='1'>\n  <b/>\n</a>text</root>");
+
+    writer.startElement("copy");
+    for (const child of doc.children) writer.node(child);
+    await writer.end();
+
+    assert.strictEqual(chunks.join(""), '<copy><a x="1"><b/></a>text</copy>');
+  });
+
+  test("hands text to the target on flush() and waits for it", async () => {
+    const { stream, chunks } = collector();
+    const done = finished(stream);
+    const writer = new XmlWriter(stream);
+
+    writer.startElement("feed");
+    for (let i = 0; i < 1000; i++) {
+      writer.startElement("entry").attribute("id", i).text(`Entry ${i}`);
+      writer.endElement();
+      if (i % 100 === 99) await writer.flush();
+    }
+    assert.ok(chunks.length > 0);
+    await writer.end();
+    await done;
+
+    const doc = new XmlDocument(chunks.join(""));
+    assert.strictEqual(doc.childrenNamed("entry").length, 1000);
+    assert.strictEqual(
+      doc.lastChild!.toString(),
+      '<entry id="999">Entry 999</entry>',
+    );
+  });
+
+  test("writes to a web WritableStream", async () => {
+    const chunks: string[] = [];
+    const stream = new WritableStream<string>({
+      write(chunk) {
+        chunks.push(chunk);
+      },
+    });
+    const writer = new XmlWriter(stream);
+    writer.startElement("root").text("hi");
+    await writer.end();
+    assert.strictEqual(chunks.join(""), "<root>hi</root>");
+  });
+
+  test("rejects invalid use", async () => {
+    const writer = new XmlWriter(() => {});
+
+    assert.throws(() => writer.startElement("1st"), /Invalid XML name/);
+    assert.throws(() => writer.endElement(), /There is no element to end/);
+
+    writer.startElement("root").text("hi");
+    assert.throws(() => writer.declaration(), /must be written first/);
+    assert.throws(
+      () => writer.attribute("a", "1"),
+      /Attributes must be written right after startElement\(\)/,
+    );
+    assert.throws(() => writer.cdata("]]>"), /]]>/);
+    assert.throws(() => writer.comment("a--b"), /--/);
+    assert.throws(() => writer.processingInstruction("xml"), /xml/);
+
+    await writer.end();
+    assert.throws(() => writer.text("more"), /already been ended/);
+  });
+});
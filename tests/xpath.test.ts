@@ -0,0 +1,240 @@
+import { describe, test } from "node:test";
+import assert from "node:assert";
+import { XmlDocument, XmlElement } from "xmldoc";
+import type { XPathAttribute } from "xmldoc";
+
+const catalog = new XmlDocument(`
+<catalog>
+  <book id="1" lang="en">
+    <title>Dune</title>
+    <price>9.99</price>
+  </book>
+  <book id="2" lang="fr">
+    <title>Vingt mille lieues</title>
+    <price>5</price>
+  </book>
+  <!-- out of print -->
+  <book id="3" lang="en">
+    <title>Neuromancer</title>
+    <price>12.50</price>
+  </book>
+</catalog>`);
+
+const ids = (nodes: XmlElement[]) => nodes.map((node) => node.attr.id);
+
+describe("select", () => {
+  test("selects children and descendants", () => {
+    assert.deepStrictEqual(ids(catalog.select<XmlElement>("book")), [
+      "1",
+      "2",
+      "3",
+    ]);
+    assert.strictEqual(catalog.select("//title").length, 3);
+    assert.strictEqual(catalog.select("book/title").length, 3);
+  });
+
+  test("resolves absolute paths from the top of the tree", () => {
+    assert.strictEqual(catalog.select("/catalog/book").length, 3);
+    assert.deepStrictEqual(catalog.select("/"), [catalog]);
+    assert.deepStrictEqual(catalog.select("/missing"), []);
+  });
+
+  test("filters with predicates", () => {
+    assert.deepStrictEqual(
+      ids(catalog.select<XmlElement>("book[@lang='en']")),
+      ["1", "3"],
+    );
+    assert.deepStrictEqual(ids(catalog.select<XmlElement>("book[2]")), ["2"]);
+    assert.deepStrictEqual(ids(catalog.select<XmlElement>("book[last()]")), [
+      "3",
+    ]);
+    assert.deepStrictEqual(
+      ids(catalog.select<XmlElement>("book[price > 9][@lang = 'en']")),
+      ["1", "3"],
+    );
+    assert.deepStrictEqual(
+      ids(catalog.select<XmlElement>("book[title = 'Dune' or @id = 3]")),
+      ["1", "3"],
+    );
+  });
+
+  test("counts positions along reverse axes", () => {
+    assert.strictEqual(
+      catalog.selectOne<XmlElement>("book[3]/title/ancestor::*[1]")?.name,
+      "book",
+    );
+    assert.strictEqual(
+      catalog.selectOne<XmlElement>("book[3]/preceding-sibling::book[1]")?.attr
+        .id,
+      "2",
+    );
+    assert.deepStrictEqual(
+      ids(catalog.select<XmlElement>("book[3]/title/preceding::book")),
+      ["1", "2"],
+    );
+  });
+
+  test("navigates parent and sibling axes", () => {
+    assert.strictEqual(
+      catalog.selectOne<XmlElement>("book/price/..")?.attr.id,
+      "1",
+    );
+    assert.strictEqual(
+      catalog.selectOne<XmlElement>("book[1]/price/preceding-sibling::*")?.name,
+      "title",
+    );
+    assert.strictEqual(
+      catalog.selectOne<XmlElement>("book[1]/price/following::title")?.val,
+      "Vingt mille lieues",
+    );
+  });
+
+  test("navigates outside of the context element", () => {
+    const book = catalog.selectOne<XmlElement>("book[2]")!;
+    assert.strictEqual(book.selectOne<XmlElement>("..")?.name, "catalog");
+    assert.strictEqual(book.evaluate("count(/catalog/book)"), 3);
+    assert.strictEqual(
+      book.selectOne<XmlElement>("following-sibling::book/title")?.val,
+      "Neuromancer",
+    );
+
+    const detached = new XmlDocument("<book><title>Solo</title></book>");
+    assert.deepStrictEqual(detached.select(".."), [detached]);
+  });
+
+  test("selects attributes, text and comments", () => {
+    const attributes = catalog.select<XPathAttribute>("book/@id");
+    assert.deepStrictEqual(
+      attributes.map((attribute) => attribute.value),
+      ["1", "2", "3"],
+    );
+    assert.strictEqual(attributes[0].ownerElement.name, "book");
+
+    const texts = catalog.select("book/title/text()");
+    assert.strictEqual(texts.length, 3);
+    assert.strictEqual(texts[0].type, "text");
+
+    const comments = catalog.select("comment()");
+    assert.strictEqual(comments.length, 1);
+    assert.strictEqual(comments[0].type, "comment");
+  });
+
+  test("supports wildcards and unions in document order", () => {
+    assert.strictEqual(catalog.select("book[1]/*").length, 2);
+    assert.deepStrictEqual(
+      catalog
+        .select<XmlElement>("book[3]/title | book[1]/price | book[1]/title")
+        .map((node) => node.val),
+      ["Dune", "9.99", "Neuromancer"],
+    );
+  });
+
+  test("selectOne returns the first match or undefined", () => {
+    assert.strictEqual(catalog.selectOne<XmlElement>("book")?.attr.id, "1");
+    assert.strictEqual(catalog.selectOne("magazine"), undefined);
+  });
+
+  test("treats CDATA as text", () => {
+    const doc = new XmlDocument("<a>x<![CDATA[<y>]]></a>");
+    assert.strictEqual(doc.select("text()").length, 2);
+    assert.strictEqual(doc.evaluate("string(.)"), "x<y>");
+  });
+
+  test("throws when the expression doesn't select nodes", () => {
+    assert.throws(() => catalog.select("count(book)"), /does not select/);
+  });
+});
+
+describe("evaluate", () => {
+  test("returns numbers, strings and booleans", () => {
+    assert.strictEqual(catalog.evaluate("count(book)"), 3);
+    assert.strictEqual(
+      catalog.evaluate("string(book[2]/title)"),
+      "Vingt mille lieues",
+    );
+    assert.strictEqual(catalog.evaluate("boolean(book[@lang='de'])"), false);
+    assert.strictEqual(catalog.evaluate("sum(book/@id)"), 6);
+  });
+
+  test("follows XPath arithmetic and number formatting", () => {
+    assert.strictEqual(catalog.evaluate("7 mod 3"), 1);
+    assert.strictEqual(catalog.evaluate("7 div 2"), 3.5);
+    assert.strictEqual(catalog.evaluate("-(2 * 3)"), -6);
+    assert.strictEqual(catalog.evaluate("string(1 div 0)"), "Infinity");
+    assert.strictEqual(catalog.evaluate("string(0 div 0)"), "NaN");
+    assert.strictEqual(
+      catalog.evaluate("string(100000 * 100000 * 100000 * 100000 * 100000)"),
+      "10000000000000000000000000",
+    );
+    assert.strictEqual(catalog.evaluate("round(2.5)"), 3);
+    assert.strictEqual(catalog.evaluate("round(-2.5)"), -2);
+  });
+
+  test("implements the string function library", () => {
+    const cases: [string, unknown][] = [
+      ["concat('a', 'b', 'c')", "abc"],
+      ["starts-with('xmldoc', 'xml')", true],
+      ["contains('xmldoc', 'doc')", true],
+      ["substring-before('1999/04/01', '/')", "1999"],
+      ["substring-after('1999/04/01', '/')", "04/01"],
+      ["substring('12345', 2, 3)", "234"],
+      ["substring('12345', 1.5, 2.6)", "234"],
+      ["substring('12345', 0 div 0, 3)", ""],
+      ["substring('12345', -42, 1 div 0)", "12345"],
+      ["string-length('héllo')", 5],
+      ["normalize-space('  a   b  ')", "a b"],
+      ["translate('bar', 'abc', 'ABC')", "BAr"],
+      ["translate('--aaa--', 'abc-', 'ABC')", "AAA"],
+      ["name(book[1])", "book"],
+      ["local-name(book[1]/@lang)", "lang"],
+    ];
+
+    for (const [expression, expected] of cases) {
+      assert.strictEqual(catalog.evaluate(expression), expected, expression);
+    }
+  });
+
+  test("compares node-sets to values", () => {
+    assert.strictEqual(catalog.evaluate("book/price > 12"), true);
+    assert.strictEqual(catalog.evaluate("book/price > 20"), false);
+    assert.strictEqual(catalog.evaluate("book/@lang = 'fr'"), true);
+    assert.strictEqual(catalog.evaluate("book/@lang != 'fr'"), true);
+    assert.strictEqual(catalog.evaluate("book/missing = ''"), false);
+    assert.strictEqual(catalog.evaluate("book/missing = false()"), true);
+  });
+
+  test("supports id() and lang()", () => {
+    assert.strictEqual(
+      catalog.evaluate("string(id('3')/title)"),
+      "Neuromancer",
+    );
+    const doc = new XmlDocument(
+      '<doc xml:lang="en-GB"><p/><p xml:lang="de"/></doc>',
+    );
+    assert.strictEqual(doc.evaluate("count(p[lang('en')])"), 1);
+  });
+
+  test("binds variables", () => {
+    const result = catalog.select<XmlElement>("book[@id = $id]", {
+      variables: { id: "2" },
+    });
+    assert.deepStrictEqual(ids(result), ["2"]);
+    assert.throws(
+      () => catalog.evaluate("$missing"),
+      /Undefined XPath variable/,
+    );
+  });
+
+  test("tells operators apart from names", () => {
+    const doc = new XmlDocument("<r><div>4</div><mod>2</mod></r>");
+    assert.strictEqual(doc.evaluate("div div mod"), 2);
+    assert.strictEqual(doc.evaluate("div * mod"), 8);
+    assert.strictEqual(doc.select("*").length, 2);
+  });
+
+  test("rejects malformed expressions", () => {
+    for (const expression of ["book[", "book/", "foo::bar", "#", "nope()"]) {
+      assert.throws(() => catalog.evaluate(expression), expression);
+    }
+  });
+});
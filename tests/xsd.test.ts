@@ -0,0 +1,399 @@
+import { describe, test } from "node:test";
+import assert from "node:assert";
+import { XmlDocument, XsdSchema } from "xmldoc";
+
+const xsd = `<?xml version="1.0"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:annotation><xs:documentation>Orders</xs:documentation></xs:annotation>
+
+  <xs:simpleType name="sku">
+    <xs:restriction base="xs:string">
+      <xs:pattern value="[A-Z]{3}-\\d{4}"/>
+    </xs:restriction>
+  </xs:simpleType>
+
+  <xs:simpleType name="quantity">
+    <xs:restriction base="xs:int">
+      <xs:minInclusive value="1"/>
+      <xs:maxExclusive value="100"/>
+    </xs:restriction>
+  </xs:simpleType>
+
+  <xs:complexType name="price">
+    <xs:simpleContent>
+      <xs:extension base="xs:decimal">
+        <xs:attribute name="currency" use="required">
+          <xs:simpleType>
+            <xs:restriction base="xs:string">
+              <xs:enumeration value="USD"/>
+              <xs:enumeration value="EUR"/>
+            </xs:restriction>
+          </xs:simpleType>
+        </xs:attribute>
+      </xs:extension>
+    </xs:simpleContent>
+  </xs:complexType>
+
+  <xs:complexType name="item">
+    <xs:sequence>
+      <xs:element name="sku" type="sku"/>
+      <xs:element name="price" type="price"/>
+      <xs:element name="note" type="xs:string" minOccurs="0" maxOccurs="unbounded"/>
+    </xs:sequence>
+    <xs:attribute name="qty" type="quantity" use="required"/>
+  </xs:complexType>
+
+  <xs:element name="order">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:choice>
+          <xs:element name="customer" type="xs:string"/>
+          <xs:element name="account">
+            <xs:simpleType>
+              <xs:restriction base="xs:token">
+                <xs:length value="6"/>
+              </xs:restriction>
+            </xs:simpleType>
+          </xs:element>
+        </xs:choice>
+        <xs:element name="item" type="item" maxOccurs="unbounded"/>
+        <xs:element ref="shipping" minOccurs="0"/>
+      </xs:sequence>
+      <xs:attribute name="id" type="xs:positiveInteger" use="required"/>
+      <xs:attribute name="placed" type="xs:date"/>
+    </xs:complexType>
+  </xs:element>
+
+  <xs:element name="shipping">
+    <xs:complexType>
+      <xs:all>
+        <xs:element name="street" type="xs:string"/>
+        <xs:element name="city" type="xs:string"/>
+        <xs:element name="zip" type="xs:string" minOccurs="0"/>
+      </xs:all>
+    </xs:complexType>
+  </xs:element>
+</xs:schema>`;
+
+const valid = `<order id="7" placed="2024-05-01">
+  <customer>Ada</customer>
+  <item qty="2">
+    <sku>ABC-1234</sku>
+    <price currency="USD">9.50</price>
+    <note>gift</note>
+    <note>fragile</note>
+  </item>
+  <item qty="1"><sku>XYZ-0001</sku><price currency="EUR">1</price></item>
+  <shipping><city>Paris</city><street>Rue 1</street></shipping>
+</order>`;
+
+const schema = new XsdSchema(new XmlDocument(xsd));
+const validate = (xml: string) => schema.validate(new XmlDocument(xml));
+
+describe("XsdSchema", () => {
+  test("accepts valid documents", () => {
+    assert.deepStrictEqual(validate(valid), []);
+    assert.deepStrictEqual(
+      validate(
+        '<order id="1"><account> AB12CD </account><item qty="99"><sku>AAA-0000</sku><price currency="USD">0</price></item></order>',
+      ),
+      [],
+    );
+  });
+
+  test("reports simple type violations with their location", () => {
+    const violations = validate(`<order id="0" placed="May 1st">
+  <customer>Ada</customer>
+  <item qty="100" extra="x">
+    <sku>abc-1234</sku>
+    <price currency="GBP">cheap</price>
+  </item>
+</order>`);
+
+    assert.deepStrictEqual(violations, [
+      {
+        path: "/order/@id",
+        message:
+          'Invalid value for attribute "id": "0" is out of range for xs:positiveInteger',
+        line: 0,
+        column: 31,
+      },
+      {
+        path: "/order/@placed",
+        message:
+          'Invalid value for attribute "placed": "May 1st" is not a valid xs:date',
+        line: 0,
+        column: 31,
+      },
+      {
+        path: "/order/item/@qty",
+        message:
+          'Invalid value for attribute "qty": "100" must be less than 100',
+        line: 2,
+        column: 28,
+      },
+      {
+        path: "/order/item/@extra",
+        message: 'Unexpected attribute "extra"',
+        line: 2,
+        column: 28,
+      },
+      {
+        path: "/order/item/sku",
+        message:
+          'Invalid value for element <sku>: "abc-1234" doesn\'t match the pattern "[A-Z]{3}-\\d{4}"',
+        line: 3,
+        column: 9,
+      },
+      {
+        path: "/order/item/price/@currency",
+        message:
+          'Invalid value for attribute "currency": "GBP" is not one of "USD", "EUR"',
+        line: 4,
+        column: 26,
+      },
+      {
+        path: "/order/item/price",
+        message:
+          'Invalid value for element <price>: "cheap" is not a valid xs:decimal',
+        line: 4,
+        column: 26,
+      },
+    ]);
+  });
+
+  test("checks the ranges of dates and times", () => {
+    const times = new XsdSchema(
+      new XmlDocument(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="event"><xs:complexType>
+    <xs:attribute name="date" type="xs:date"/>
+    <xs:attribute name="time" type="xs:time"/>
+    <xs:attribute name="at" type="xs:dateTime"/>
+  </xs:complexType></xs:element>
+</xs:schema>`),
+    );
+    const valid = (attributes: string) =>
+      times.validate(new XmlDocument(`<event ${attributes}/>`)).length === 0;
+
+    assert.ok(
+      valid('date="2024-02-29" time="24:00:00" at="2000-02-29T23:59:59.5Z"'),
+    );
+    assert.ok(valid('date="2024-12-31+14:00" time="00:00:00-05:30"'));
+    assert.ok(!valid('date="2024-13-01"'));
+    assert.ok(!valid('date="2024-02-30"'));
+    assert.ok(!valid('date="2023-02-29"'));
+    assert.ok(!valid('date="1900-02-29"'));
+    assert.ok(!valid('date="2024-04-31"'));
+    assert.ok(!valid('date="2024-01-00"'));
+    assert.ok(!valid('time="24:00:01"'));
+    assert.ok(!valid('time="12:60:00"'));
+    assert.ok(!valid('time="12:00:60"'));
+    assert.ok(!valid('at="2024-06-31T10:00:00"'));
+    assert.ok(!valid('at="2024-06-30T25:00:00"'));
+    assert.ok(!valid('at="2024-06-30T10:00:00+15:00"'));
+  });
+
+  test("reports content model violations", () => {
+    const messages = (xml: string) =>
+      validate(xml).map(({ path, message }) => `${path}: ${message}`);
+
+    assert.deepStrictEqual(messages('<order id="1"><customer/></order>'), [
+      "/order: Missing element <item>",
+    ]);
+    assert.deepStrictEqual(
+      messages(
+        '<order id="1"><item qty="1"><sku>AAA-0000</sku><price currency="USD">1</price></item></order>',
+      ),
+      [
+        "/order/item: Unexpected element <item>, expected <customer> or <account>",
+      ],
+    );
+    assert.deepStrictEqual(
+      messages(
+        '<order id="1"><customer/><customer/><item qty="1"><price currency="USD">1</price></item></order>',
+      ),
+      [
+        "/order/customer[2]: Unexpected element <customer>, expected <item>",
+        "/order/item/price: Unexpected element <price>, expected <sku>",
+      ],
+    );
+    assert.deepStrictEqual(
+      messages(
+        '<order id="1"><account>ABC</account><item qty="1"><sku>AAA-0000</sku><price currency="USD">1</price><price currency="USD">1</price></item>text</order>',
+      ),
+      [
+        "/order: Element <order> can't contain text",
+        '/order/account: Invalid value for element <account>: "ABC" must be exactly 6 characters long',
+        "/order/item/price[2]: Unexpected element <price>, expected <note>",
+      ],
+    );
+    assert.deepStrictEqual(
+      messages(
+        '<order id="1"><account>ABC</account><item qty="1"><sku>AAA-0000</sku><price currency="USD">1</price></item><extra/></order>',
+      ),
+      [
+        '/order/account: Invalid value for element <account>: "ABC" must be exactly 6 characters long',
+        "/order/extra: Unexpected element <extra>, expected <item> or <shipping>",
+      ],
+    );
+  });
+
+  test("validates large documents in linear time", () => {
+    const order = (items: number) =>
+      new XmlDocument(
+        `<order id="1"><customer/>${'<item qty="1"><sku>AAA-0000</sku><price currency="USD">1</price></item>'.repeat(items)}</order>`,
+      );
+    const time = (document: XmlDocument) => {
+      const start = performance.now();
+      assert.deepStrictEqual(schema.validate(document), []);
+      return performance.now() - start;
+    };
+
+    // Warm up first, then compare against a document 16 times the size, which
+    // would take around 256 times as long if validation were quadratic
+    const small = order(1000);
+    const large = order(16000);
+    time(small);
+    assert.ok(time(large) < time(small) * 64);
+  });
+
+  test("checks all groups and required attributes", () => {
+    const messages = (xml: string) =>
+      validate(xml).map(({ path, message }) => `${path}: ${message}`);
+
+    assert.deepStrictEqual(
+      messages(
+        "<order><customer/><item><sku>AAA-0000</sku><price>1</price></item><shipping><city/><city/></shipping></order>",
+      ),
+      [
+        '/order: Missing required attribute "id"',
+        '/order/item: Missing required attribute "qty"',
+        '/order/item/price: Missing required attribute "currency"',
+        "/order/shipping/city[2]: Unexpected element <city>, expected <street> or <zip>",
+      ],
+    );
+    assert.deepStrictEqual(messages("<shipping><zip/></shipping>"), [
+      "/shipping: Missing element <street> or <city>",
+    ]);
+    assert.deepStrictEqual(messages("<invoice/>"), [
+      "/invoice: No declaration for element <invoice>",
+    ]);
+  });
+
+  test("supports recursive types, groups and extensions", () => {
+    const tree = new XsdSchema(
+      new XmlDocument(`<schema xmlns="http://www.w3.org/2001/XMLSchema">
+  <group name="children">
+    <sequence><element name="node" type="node" minOccurs="0" maxOccurs="unbounded"/></sequence>
+  </group>
+  <attributeGroup name="named"><attribute name="name" type="string" use="required"/></attributeGroup>
+  <complexType name="base">
+    <sequence><element name="label" type="string" minOccurs="0"/></sequence>
+    <attributeGroup ref="named"/>
+  </complexType>
+  <complexType name="node">
+    <complexContent>
+      <extension base="base"><group ref="children"/></extension>
+    </complexContent>
+  </complexType>
+  <element name="tree" type="node"/>
+</schema>`),
+    );
+
+    const check = (xml: string) =>
+      tree.validate(new XmlDocument(xml)).map((v) => `${v.path}: ${v.message}`);
+
+    assert.deepStrictEqual(
+      check(
+        '<tree name="a"><label>root</label><node name="b"><node name="c"/></node></tree>',
+      ),
+      [],
+    );
+    assert.deepStrictEqual(
+      check('<tree name="a"><node name="b"><node/><label/></node></tree>'),
+      [
+        '/tree/node/node: Missing required attribute "name"',
+        "/tree/node/label: Unexpected element <label>, expected <node>",
+      ],
+    );
+  });
+
+  test("matches large repeated groups", () => {
+    const list = new XsdSchema(
+      new XmlDocument(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="list"><xs:complexType>
+    <xs:sequence minOccurs="0" maxOccurs="unbounded">
+      <xs:choice minOccurs="0" maxOccurs="unbounded">
+        <xs:sequence minOccurs="0" maxOccurs="unbounded">
+          <xs:choice minOccurs="0" maxOccurs="unbounded">
+            <xs:sequence minOccurs="0" maxOccurs="unbounded">
+              <xs:element name="a" minOccurs="0"/>
+            </xs:sequence>
+          </xs:choice>
+        </xs:sequence>
+        <xs:element name="b" minOccurs="0" maxOccurs="unbounded"/>
+      </xs:choice>
+    </xs:sequence>
+  </xs:complexType></xs:element>
+  <xs:element name="pairs"><xs:complexType>
+    <xs:sequence minOccurs="2" maxOccurs="3">
+      <xs:element name="a"/>
+      <xs:element name="b" minOccurs="0"/>
+    </xs:sequence>
+  </xs:complexType></xs:element>
+</xs:schema>`),
+    );
+    const check = (xml: string) =>
+      list.validate(new XmlDocument(xml)).map((v) => `${v.path}: ${v.message}`);
+
+    const start = performance.now();
+    assert.deepStrictEqual(
+      check(`<list>${"<a/><b/>".repeat(5000)}</list>`),
+      [],
+    );
+    assert.deepStrictEqual(
+      check(`<list>${"<a/><b/>".repeat(5000)}<c/></list>`),
+      ["/list/c: Unexpected element <c>, expected <b> or <a>"],
+    );
+    assert.ok(performance.now() - start < 5000);
+
+    assert.deepStrictEqual(check("<pairs><a/><a/><b/></pairs>"), []);
+    assert.deepStrictEqual(check("<pairs><a/><b/></pairs>"), [
+      "/pairs: Missing element <a>",
+    ]);
+    assert.deepStrictEqual(check("<pairs><a/><a/><a/><b/><a/></pairs>"), [
+      "/pairs/a[4]: Unexpected element <a>",
+    ]);
+  });
+
+  test("rejects schemas it can't load", () => {
+    const load = (body: string) => () =>
+      new XsdSchema(
+        new XmlDocument(
+          `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">${body}</xs:schema>`,
+        ),
+      );
+
+    assert.throws(
+      load('<xs:element name="a" type="missing"/>'),
+      /Unknown type "missing"/,
+    );
+    assert.throws(
+      load(
+        '<xs:element name="a"><xs:complexType><xs:sequence><xs:element ref="b"/></xs:sequence></xs:complexType></xs:element>',
+      ),
+      /Unknown element "b"/,
+    );
+    assert.throws(
+      load(
+        '<xs:simpleType name="a"><xs:list itemType="xs:int"/></xs:simpleType>',
+      ),
+      /only restrictions are supported/,
+    );
+    assert.throws(
+      load('<xs:import namespace="urn:other"/>'),
+      /Unsupported schema element <xs:import>/,
+    );
+    assert.throws(() => new XsdSchema(new XmlDocument("<a/>")), /xs:schema/);
+  });
+});
@@ -0,0 +1,268 @@
+import { describe, test } from "node:test";
+import assert from "node:assert";
+import { XmlDocument, XsltStylesheet } from "xmldoc";
+import type { XsltOptions } from "xmldoc";
+
+const catalog = new XmlDocument(`<?xml version="1.0"?>
+<catalog>
+  <book id="b1" year="1999"><title>Zen</title><price>12.50</price></book>
+  <book id="b2" year="2004"><title>Algorithms</title><price>80</price></book>
+  <book id="b3" year="1987"><title>Moby Dick</title><price>9</price></book>
+</catalog>`);
+
+// Wraps templates in a stylesheet and applies it, returning compact output
+function transform(
+  templates: string,
+  source: XmlDocument = catalog,
+  options?: XsltOptions,
+): string {
+  const stylesheet = new XsltStylesheet(
+    new XmlDocument(`<xsl:stylesheet version="1.0"
+      xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+      <xsl:strip-space elements="*"/>
+      ${templates}
+    </xsl:stylesheet>`),
+  );
+  return stylesheet.transform(source, options).toString({ compressed: true });
+}
+
+describe("XsltStylesheet", () => {
+  test("applies template rules, value-of and attribute value templates", () => {
+    assert.strictEqual(
+      transform(`
+        <xsl:template match="/">
+          <ul class="books"><xsl:apply-templates select="catalog/book"/></ul>
+        </xsl:template>
+        <xsl:template match="book">
+          <li id="item-{@id}" data-braces="{{literal}}">
+            <xsl:value-of select="title"/>
+          </li>
+        </xsl:template>`),
+      '<ul class="books"><li id="item-b1" data-braces="{literal}">Zen</li>' +
+        '<li id="item-b2" data-braces="{literal}">Algorithms</li>' +
+        '<li id="item-b3" data-braces="{literal}">Moby Dick</li></ul>',
+    );
+  });
+
+  test("uses built-in rules and picks templates by priority", () => {
+    assert.strictEqual(
+      transform(`
+        <xsl:template match="/"><out><xsl:apply-templates/></out></xsl:template>
+        <xsl:template match="*"><other/></xsl:template>
+        <xsl:template match="price"/>
+        <xsl:template match="book[@year &lt; 2000]/title">
+          <old><xsl:value-of select="."/></old>
+        </xsl:template>
+        <xsl:template match="title">
+          <new><xsl:value-of select="."/></new>
+        </xsl:template>
+        <xsl:template match="catalog | book">
+          <xsl:apply-templates/>
+        </xsl:template>`),
+      "<out><old>Zen</old><new>Algorithms</new><old>Moby Dick</old></out>",
+    );
+
+    // Text is copied by the built-in rules
+    assert.strictEqual(
+      transform(
+        '<xsl:template match="/catalog"><all><xsl:apply-templates/></all></xsl:template>',
+      ),
+      "<all>Zen12.50Algorithms80Moby Dick9</all>",
+    );
+  });
+
+  test("supports for-each, sort, if and choose", () => {
+    assert.strictEqual(
+      transform(`
+        <xsl:template match="/">
+          <prices>
+            <xsl:for-each select="//book">
+              <xsl:sort select="price" data-type="number" order="descending"/>
+              <price n="{position()}">
+                <xsl:if test="price &gt; 50">
+                  <xsl:attribute name="expensive">yes</xsl:attribute>
+                </xsl:if>
+                <xsl:choose>
+                  <xsl:when test="@year &lt; 1990">classic</xsl:when>
+                  <xsl:when test="@year &lt; 2000">modern</xsl:when>
+                  <xsl:otherwise>recent</xsl:otherwise>
+                </xsl:choose>
+              </price>
+            </xsl:for-each>
+          </prices>
+        </xsl:template>`),
+      '<prices><price n="1" expensive="yes">recent</price>' +
+        '<price n="2">modern</price><price n="3">classic</price></prices>',
+    );
+
+    assert.strictEqual(
+      transform(`
+        <xsl:template match="/">
+          <titles>
+            <xsl:apply-templates select="//title">
+              <xsl:sort select="."/>
+            </xsl:apply-templates>
+          </titles>
+        </xsl:template>
+        <xsl:template match="title">
+          <xsl:value-of select="."/><xsl:if test="position() != last()">, </xsl:if>
+        </xsl:template>`),
+      "<titles>Algorithms, Moby Dick, Zen</titles>",
+    );
+  });
+
+  test("supports variables, params and named templates", () => {
+    const templates = `
+      <xsl:param name="currency" select="'USD'"/>
+      <xsl:variable name="count" select="count(//book)"/>
+      <xsl:template match="/">
+        <xsl:variable name="first">
+          <xsl:value-of select="//book[1]/title"/>
+        </xsl:variable>
+        <summary books="{$count}" first="{$first}">
+          <xsl:call-template name="money">
+            <xsl:with-param name="amount" select="sum(//price)"/>
+          </xsl:call-template>
+          <xsl:call-template name="money"/>
+        </summary>
+      </xsl:template>
+      <xsl:template name="money">
+        <xsl:param name="amount" select="0"/>
+        <total><xsl:value-of select="concat($amount, ' ', $currency)"/></total>
+      </xsl:template>`;
+
+    assert.strictEqual(
+      transform(templates),
+      '<summary books="3" first="Zen"><total>101.5 USD</total>' +
+        "<total>0 USD</total></summary>",
+    );
+    assert.strictEqual(
+      transform(templates, catalog, { params: { currency: "EUR" } }),
+      '<summary books="3" first="Zen"><total>101.5 EUR</total>' +
+        "<total>0 EUR</total></summary>",
+    );
+  });
+
+  test("copies nodes with copy and copy-of", () => {
+    // The identity transform, with one element renamed and one dropped
+    const source = new XmlDocument(
+      '<doc xmlns:x="urn:x"><x:a k="1">text<!-- note --></x:a><b/><c><![CDATA[<raw>]]></c></doc>',
+    );
+    assert.strictEqual(
+      transform(
+        `
+        <xsl:template match="@* | node()">
+          <xsl:copy><xsl:apply-templates select="@* | node()"/></xsl:copy>
+        </xsl:template>
+        <xsl:template match="b"><renamed/></xsl:template>
+        <xsl:template match="comment()"/>`,
+        source,
+      ),
+      '<doc xmlns:x="urn:x"><x:a k="1">text</x:a><renamed/><c><![CDATA[<raw>]]></c></doc>',
+    );
+
+    assert.strictEqual(
+      transform(
+        `
+        <xsl:variable name="extra"><e>1</e><e>2</e></xsl:variable>
+        <xsl:template match="/">
+          <out><xsl:copy-of select="doc/x:a"/><xsl:copy-of select="$extra"/></out>
+        </xsl:template>`,
+        source,
+      ),
+      '<out><x:a k="1" xmlns:x="urn:x">text<!--note--></x:a><e>1</e><e>2</e></out>',
+    );
+  });
+
+  test("builds elements and other nodes by name", () => {
+    assert.strictEqual(
+      transform(`
+        <xsl:template match="/">
+          <xsl:comment>generated</xsl:comment>
+          <xsl:element name="{name(*)}-summary">
+            <xsl:attribute name="total"><xsl:value-of select="count(//book)"/></xsl:attribute>
+            <xsl:processing-instruction name="sort">by title</xsl:processing-instruction>
+            <xsl:value-of select="1"/>
+            <xsl:text> and </xsl:text>
+            <xsl:value-of select="2"/>
+          </xsl:element>
+        </xsl:template>`),
+      '<!--generated--><catalog-summary total="3"><?sort by title?>1 and 2</catalog-summary>',
+    );
+  });
+
+  test("uses modes and current()", () => {
+    assert.strictEqual(
+      transform(`
+        <xsl:template match="/catalog">
+          <index>
+            <xsl:apply-templates select="book" mode="toc"/>
+            <xsl:apply-templates select="book[1]"/>
+          </index>
+        </xsl:template>
+        <xsl:template match="book" mode="toc">
+          <entry later="{count(//book[@year &gt; current()/@year])}"/>
+        </xsl:template>
+        <xsl:template match="book"><first/></xsl:template>`),
+      '<index><entry later="1"/><entry later="0"/><entry later="2"/><first/></index>',
+    );
+  });
+
+  test("accepts a literal result element as the stylesheet", () => {
+    const stylesheet = new XsltStylesheet(
+      new XmlDocument(`<html xsl:version="1.0"
+        xmlns:xsl="http://www.w3.org/1999/XSL/Transform"
+        xmlns="http://www.w3.org/1999/xhtml">
+        <body><xsl:value-of select="count(//book)"/> books</body>
+      </html>`),
+    );
+
+    assert.strictEqual(
+      stylesheet.transform(catalog).toString({ compressed: true }),
+      '<html xmlns="http://www.w3.org/1999/xhtml"><body>3 books</body></html>',
+    );
+  });
+
+  test("rejects unsupported stylesheets and invalid results", () => {
+    const load = (xml: string) => () =>
+      new XsltStylesheet(new XmlDocument(xml));
+    const ns = 'xmlns:xsl="http://www.w3.org/1999/XSL/Transform"';
+
+    assert.throws(
+      load(`<xsl:stylesheet ${ns}><xsl:key name="k"/></xsl:stylesheet>`),
+      /Unsupported XSLT element <xsl:key>/,
+    );
+    assert.throws(
+      load(
+        `<xsl:stylesheet ${ns}><xsl:template match="/"><xsl:number/></xsl:template></xsl:stylesheet>`,
+      ),
+      /Unsupported XSLT element <xsl:number>/,
+    );
+    assert.throws(
+      load(
+        `<xsl:stylesheet ${ns}><xsl:template match="id('x')"/></xsl:stylesheet>`,
+      ),
+      /Unsupported XSLT pattern "id\('x'\)"/,
+    );
+    assert.throws(
+      load(`<xsl:stylesheet ${ns}><xsl:template/></xsl:stylesheet>`),
+      /needs a "match" or "name" attribute/,
+    );
+    assert.throws(
+      load(`<xsl:schema ${ns}/>`),
+      /Expected an <xsl:stylesheet> element, not <xsl:schema>/,
+    );
+
+    assert.throws(
+      () => transform('<xsl:template match="/"><a/><b/></xsl:template>'),
+      /must produce one root element, not 2/,
+    );
+    assert.throws(
+      () =>
+        transform(
+          '<xsl:template match="/"><xsl:call-template name="nope"/></xsl:template>',
+        ),
+      /Unknown template "nope"/,
+    );
+  });
+});